@@ -0,0 +1,119 @@
+// Checks that every locale has the same keys as tr.json (the fallback language), with
+// the plural forms its language needs and the same {{placeholders}}, and that every
+// key the source passes to t() as a literal exists. Exits with 1 on any problem.
+//
+// Usage: npm run i18n:check
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+
+const LOCALES_DIR = 'src/i18n/locales';
+const SOURCE_DIR = 'src';
+const REFERENCE = 'tr';
+
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+const PLACEHOLDER = /{{\s*(\w+)\s*}}/g;
+// t('key'), t("key"), t(`key`) and t(`prefix.${expr}...`)
+const T_CALL = /\bt\(\s*(['"`])((?:(?!\1).)*?)\1/g;
+
+const flatten = (node, prefix = '', out = new Map()) => {
+  for (const [key, value] of Object.entries(node)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object') flatten(value, path, out);
+    else out.set(path, String(value));
+  }
+  return out;
+};
+
+const placeholders = (text) => [...text.matchAll(PLACEHOLDER)].map((m) => m[1]);
+const listPlaceholders = (names) => [...names].sort().map((name) => `{{${name}}}`).join(', ') || 'none';
+
+// Base key (plural suffix removed) -> { forms: Set of suffixes, placeholders }
+const groupKeys = (flat) => {
+  const groups = new Map();
+  for (const [key, text] of flat) {
+    const match = key.match(PLURAL_SUFFIX);
+    const base = match ? key.slice(0, -match[0].length) : key;
+    const group = groups.get(base) ?? { forms: new Set(), placeholders: new Set() };
+    if (match) group.forms.add(match[1]);
+    // count is only interpolated by some plural forms, e.g. "Every day" for one
+    placeholders(text)
+      .filter((name) => !(match && name === 'count'))
+      .forEach((name) => group.placeholders.add(name));
+    groups.set(base, group);
+  }
+  return groups;
+};
+
+const sourceFiles = (dir) =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return sourceFiles(path);
+    return /\.(ts|tsx)$/.test(entry.name) ? [path] : [];
+  });
+
+const problems = [];
+
+const locales = new Map(
+  readdirSync(LOCALES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => {
+      const flat = flatten(JSON.parse(readFileSync(join(LOCALES_DIR, file), 'utf8')));
+      return [basename(file, '.json'), groupKeys(flat)];
+    })
+);
+
+const reference = locales.get(REFERENCE);
+if (!reference) {
+  console.error(`Reference locale ${REFERENCE}.json not found in ${LOCALES_DIR}`);
+  process.exit(1);
+}
+
+for (const [language, groups] of locales) {
+  const pluralForms = new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+
+  for (const [base, group] of groups) {
+    if (group.forms.size > 0) {
+      const missing = pluralForms.filter((form) => !group.forms.has(form));
+      if (missing.length > 0) {
+        problems.push(`${language}: ${base} is missing plural forms ${missing.join(', ')}`);
+      }
+    }
+    if (language === REFERENCE) continue;
+
+    const expected = reference.get(base);
+    if (!expected) {
+      problems.push(`${language}: ${base} is not in ${REFERENCE}.json`);
+    } else if (listPlaceholders(group.placeholders) !== listPlaceholders(expected.placeholders)) {
+      problems.push(
+        `${language}: ${base} uses ${listPlaceholders(group.placeholders)}, ` +
+          `${REFERENCE}.json uses ${listPlaceholders(expected.placeholders)}`
+      );
+    }
+  }
+
+  if (language === REFERENCE) continue;
+  for (const base of reference.keys()) {
+    if (!groups.has(base)) problems.push(`${language}: missing ${base}`);
+  }
+}
+
+const referenceKeys = [...reference.keys()];
+for (const file of sourceFiles(SOURCE_DIR)) {
+  const source = readFileSync(file, 'utf8');
+  for (const [, quote, key] of source.matchAll(T_CALL)) {
+    const dynamic = quote === '`' && key.includes('${');
+    const known = dynamic
+      ? referenceKeys.some((k) => k.startsWith(key.slice(0, key.indexOf('${'))))
+      : reference.has(key);
+    if (!known) problems.push(`${file}: t('${key}') is not in ${REFERENCE}.json`);
+  }
+}
+
+if (problems.length > 0) {
+  console.error(problems.join('\n'));
+  console.error(`\n${problems.length} translation problem(s)`);
+  process.exit(1);
+}
+
+console.log(`${locales.size} locales, ${reference.size} keys: all translated`);
@@ -0,0 +1,123 @@
+import mqtt from 'mqtt';
+import type { BridgeConfig } from './config.js';
+import { extractReading, topicMatches, type MachineReading } from './mapping.js';
+import { createIngestClient, IngestError } from './ingest.js';
+
+const RETRY_DELAYS_MS = [1000, 5000, 30000];
+
+export interface BridgeOptions {
+  /** Waits between attempts of a reading the API could not take */
+  retryDelaysMs?: number[];
+  log?: (message: string) => void;
+}
+
+export interface Bridge {
+  /** Resolves once the topics are subscribed */
+  ready: Promise<void>;
+  /** Resolves once every reading received so far has been sent or given up on */
+  idle: () => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+const defaultLog = (message: string) => console.log(`${new Date().toISOString()} ${message}`);
+
+const describe = (reading: MachineReading) =>
+  [
+    reading.signal !== undefined && `signal=${reading.signal}`,
+    reading.producedCount !== undefined && `produced=${reading.producedCount}`,
+    reading.scrapCount !== undefined && `scrap=${reading.scrapCount}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function startBridge(config: BridgeConfig, options: BridgeOptions = {}): Bridge {
+  const retryDelaysMs = options.retryDelaysMs ?? RETRY_DELAYS_MS;
+  const log = options.log ?? defaultLog;
+  const ingest = createIngestClient(config.supabase.url, config.supabase.anonKey);
+
+  const send = async (apiKey: string, reading: MachineReading): Promise<void> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await ingest(apiKey, reading);
+        log(
+          `${reading.machineCode}: ${describe(reading)} -> ${result.signal ?? 'counters'}` +
+            (result.pending_status ? ` (${result.pending_status})` : '')
+        );
+        return;
+      } catch (error) {
+        if (error instanceof IngestError && error.isRetryable && attempt < retryDelaysMs.length) {
+          await sleep(retryDelaysMs[attempt]);
+          continue;
+        }
+        console.error(`${reading.machineCode}: ingestion failed:`, error instanceof Error ? error.message : error);
+        return;
+      }
+    }
+  };
+
+  // The API applies signals and counter totals in arrival order, so a machine's
+  // readings are sent one at a time; a reading being retried holds back later ones
+  const queues = new Map<string, Promise<void>>();
+
+  const enqueue = (apiKey: string, reading: MachineReading) => {
+    const next = (queues.get(reading.machineCode) ?? Promise.resolve()).then(() => send(apiKey, reading));
+    queues.set(reading.machineCode, next);
+    next.then(() => {
+      if (queues.get(reading.machineCode) === next) queues.delete(reading.machineCode);
+    });
+  };
+
+  const client = mqtt.connect(config.mqtt.url, {
+    username: config.mqtt.username,
+    password: config.mqtt.password,
+    clientId: config.mqtt.clientId,
+  });
+
+  const ready = new Promise<void>((resolve) => {
+    client.on('connect', () => {
+      log(`Connected to ${config.mqtt.url}${config.dryRun ? ' (dry run)' : ''}`);
+      client.subscribe(
+        config.topics.map((rule) => rule.topic),
+        (error) => {
+          if (error) console.error('Subscribe failed:', error.message);
+          else resolve();
+        }
+      );
+    });
+  });
+
+  client.on('error', (error) => console.error('MQTT error:', error.message));
+
+  client.on('message', (topic, payload) => {
+    const rule = config.topics.find((r) => topicMatches(r.topic, topic));
+    if (!rule) return;
+
+    const reading = extractReading(rule, topic, payload.toString('utf8'), new Date());
+    if (!reading) {
+      log(`${topic}: ignored message without machine code or values`);
+      return;
+    }
+
+    if (config.dryRun) {
+      log(`[dry run] ${reading.machineCode}: ${describe(reading)}`);
+      return;
+    }
+
+    const apiKey = config.apiKeys[reading.machineCode];
+    if (!apiKey) {
+      log(`${reading.machineCode}: no API key configured, skipped`);
+      return;
+    }
+    enqueue(apiKey, reading);
+  });
+
+  return {
+    ready,
+    idle: async () => {
+      while (queues.size > 0) await Promise.all(queues.values());
+    },
+    stop: () => new Promise<void>((resolve) => client.end(false, () => resolve())),
+  };
+}
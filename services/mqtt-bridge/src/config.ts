@@ -0,0 +1,124 @@
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Where the machine code of a message comes from: a level of the topic
+ * (`factory/CNC-01/state` has the code at level 1) or a field of the JSON payload.
+ */
+export type MachineCodeSource = { topicLevel: number } | { field: string };
+
+export interface TopicRule {
+  /** MQTT topic filter, wildcards allowed */
+  topic: string;
+  machineCode: MachineCodeSource;
+  /**
+   * Payload field holding the raw signal. Omit it to use the whole payload, for
+   * devices publishing plain values like `RUN` or `3`.
+   */
+  signal?: string;
+  /** Payload fields holding cumulative part counters */
+  producedCount?: string;
+  scrapCount?: string;
+  /** Payload field holding the time the value was read on the device */
+  observedAt?: string;
+}
+
+export interface BridgeConfig {
+  mqtt: {
+    url: string;
+    username?: string;
+    password?: string;
+    clientId?: string;
+  };
+  supabase: {
+    url: string;
+    anonKey: string;
+  };
+  dryRun: boolean;
+  topics: TopicRule[];
+  /** Machine API keys by machine code, as created in Machine Integration */
+  apiKeys: Record<string, string>;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || value === '') {
+    throw new ConfigError(`${path} must be a non-empty string`);
+  }
+  return value;
+};
+
+const optionalString = (value: unknown, path: string): string | undefined =>
+  value === undefined ? undefined : requireString(value, path);
+
+const parseMachineCode = (value: unknown, path: string): MachineCodeSource => {
+  if (isObject(value) && Number.isInteger(value.topicLevel) && (value.topicLevel as number) >= 0) {
+    return { topicLevel: value.topicLevel as number };
+  }
+  if (isObject(value) && typeof value.field === 'string') {
+    return { field: value.field };
+  }
+  throw new ConfigError(`${path} must be { "topicLevel": <number> } or { "field": <string> }`);
+};
+
+const parseTopicRule = (value: unknown, index: number): TopicRule => {
+  const path = `topics[${index}]`;
+  if (!isObject(value)) throw new ConfigError(`${path} must be an object`);
+
+  return {
+    topic: requireString(value.topic, `${path}.topic`),
+    machineCode: parseMachineCode(value.machineCode, `${path}.machineCode`),
+    signal: optionalString(value.signal, `${path}.signal`),
+    producedCount: optionalString(value.producedCount, `${path}.producedCount`),
+    scrapCount: optionalString(value.scrapCount, `${path}.scrapCount`),
+    observedAt: optionalString(value.observedAt, `${path}.observedAt`),
+  };
+};
+
+export function parseConfig(raw: unknown): BridgeConfig {
+  if (!isObject(raw)) throw new ConfigError('Config must be a JSON object');
+  if (!isObject(raw.mqtt)) throw new ConfigError('mqtt must be an object');
+  if (!isObject(raw.supabase)) throw new ConfigError('supabase must be an object');
+  if (!Array.isArray(raw.topics) || raw.topics.length === 0) {
+    throw new ConfigError('topics must be a non-empty array');
+  }
+
+  const apiKeys = raw.apiKeys ?? {};
+  if (!isObject(apiKeys)) throw new ConfigError('apiKeys must be an object');
+
+  return {
+    mqtt: {
+      url: requireString(raw.mqtt.url, 'mqtt.url'),
+      username: optionalString(raw.mqtt.username, 'mqtt.username'),
+      password: optionalString(raw.mqtt.password, 'mqtt.password'),
+      clientId: optionalString(raw.mqtt.clientId, 'mqtt.clientId'),
+    },
+    supabase: {
+      url: requireString(raw.supabase.url, 'supabase.url'),
+      anonKey: requireString(raw.supabase.anonKey, 'supabase.anonKey'),
+    },
+    dryRun: raw.dryRun === true,
+    topics: raw.topics.map(parseTopicRule),
+    apiKeys: Object.fromEntries(
+      Object.entries(apiKeys).map(([code, key]) => [code, requireString(key, `apiKeys.${code}`)])
+    ),
+  };
+}
+
+export async function loadConfig(path: string): Promise<BridgeConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseConfig(raw);
+}
@@ -0,0 +1,36 @@
+/*
+  Subscribes to machine state topics on an MQTT broker and forwards them to the
+  machine data ingestion API, which maps signals to statuses, debounces them and
+  records part counters.
+
+  Usage:
+    npm run build
+    npm start -- --config bridge.config.json [--dry-run]
+
+  With --dry-run (or "dryRun": true in the config) readings are logged instead of sent.
+*/
+import { ConfigError, loadConfig } from './config.js';
+import { startBridge } from './bridge.js';
+
+const parseArgs = (argv: string[]) => {
+  const configIndex = argv.indexOf('--config');
+  return {
+    configPath: configIndex >= 0 ? argv[configIndex + 1] : 'bridge.config.json',
+    dryRun: argv.includes('--dry-run'),
+  };
+};
+
+const args = parseArgs(process.argv.slice(2));
+
+loadConfig(args.configPath)
+  .then((config) => {
+    const bridge = startBridge({ ...config, dryRun: config.dryRun || args.dryRun });
+
+    const shutdown = () => bridge.stop().then(() => process.exit(0));
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  })
+  .catch((error) => {
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,63 @@
+import type { MachineReading } from './mapping.js';
+
+export interface IngestResult {
+  machine_code: string;
+  signal: 'applied' | 'pending' | 'unchanged' | 'unmapped' | null;
+  status: string;
+  pending_status: string | null;
+  produced_count: number;
+  scrap_count: number;
+}
+
+export class IngestError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'IngestError';
+  }
+
+  /** Rejected keys and invalid data will not succeed on retry */
+  get isRetryable() {
+    return this.status === 0 || this.status >= 500;
+  }
+}
+
+/**
+ * Posts readings to the ingest_machine_data RPC, the same validated path gateways
+ * use over HTTP.
+ */
+export function createIngestClient(supabaseUrl: string, anonKey: string) {
+  const endpoint = `${supabaseUrl.replace(/\/$/, '')}/rest/v1/rpc/ingest_machine_data`;
+
+  return async (apiKey: string, reading: MachineReading): Promise<IngestResult> => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          apikey: anonKey,
+          Authorization: `Bearer ${anonKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          p_api_key: apiKey,
+          p_signal: reading.signal ?? null,
+          p_produced_count: reading.producedCount ?? null,
+          p_scrap_count: reading.scrapCount ?? null,
+          p_observed_at: reading.observedAt,
+        }),
+        signal: AbortSignal.timeout(10 * 1000),
+      });
+    } catch (error) {
+      throw new IngestError(error instanceof Error ? error.message : String(error), 0);
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new IngestError((body as { message?: string } | null)?.message ?? response.statusText, response.status);
+    }
+    return body as IngestResult;
+  };
+}
@@ -0,0 +1,83 @@
+import type { TopicRule } from './config.js';
+
+export interface MachineReading {
+  machineCode: string;
+  signal?: string;
+  producedCount?: number;
+  scrapCount?: number;
+  observedAt: string;
+}
+
+/** Matches a topic against an MQTT filter with `+` and `#` wildcards. */
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+const getField = (payload: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    payload
+  );
+
+const toCounter = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) && number >= 0 ? number : undefined;
+};
+
+/**
+ * Turns an MQTT message into a reading for the ingestion API. Returns null when the
+ * message carries no machine code or nothing to report. Readings without a device
+ * time are stamped with `receivedAt`, so a retried send keeps the time it was read.
+ */
+export function extractReading(
+  rule: TopicRule,
+  topic: string,
+  message: string,
+  receivedAt: Date
+): MachineReading | null {
+  let payload: unknown = message;
+  try {
+    payload = JSON.parse(message);
+  } catch {
+    // Plain value, e.g. "RUN"
+  }
+
+  const machineCode =
+    'topicLevel' in rule.machineCode
+      ? topic.split('/')[rule.machineCode.topicLevel]
+      : getField(payload, rule.machineCode.field);
+  if (typeof machineCode !== 'string' || machineCode === '') return null;
+
+  const rawSignal = rule.signal ? getField(payload, rule.signal) : payload;
+  const signal =
+    typeof rawSignal === 'string' || typeof rawSignal === 'number' || typeof rawSignal === 'boolean'
+      ? String(rawSignal)
+      : undefined;
+
+  const reading: MachineReading = {
+    machineCode,
+    signal,
+    producedCount: rule.producedCount ? toCounter(getField(payload, rule.producedCount)) : undefined,
+    scrapCount: rule.scrapCount ? toCounter(getField(payload, rule.scrapCount)) : undefined,
+    observedAt: receivedAt.toISOString(),
+  };
+
+  const observedAt = rule.observedAt ? getField(payload, rule.observedAt) : undefined;
+  if (typeof observedAt === 'string' || typeof observedAt === 'number') {
+    const date = new Date(observedAt);
+    if (!Number.isNaN(date.getTime())) reading.observedAt = date.toISOString();
+  }
+
+  if (reading.signal === undefined && reading.producedCount === undefined && reading.scrapCount === undefined) {
+    return null;
+  }
+  return reading;
+}
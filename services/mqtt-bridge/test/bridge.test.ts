@@ -0,0 +1,203 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { createServer as createHttpServer } from 'node:http';
+import { createServer as createTcpServer, type AddressInfo, type Server as TcpServer } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import { Aedes } from 'aedes';
+import mqtt, { type MqttClient } from 'mqtt';
+import { startBridge, type Bridge } from '../src/bridge.js';
+import { parseConfig, type BridgeConfig } from '../src/config.js';
+
+interface IngestRequest {
+  path: string;
+  apikey: string | undefined;
+  body: Record<string, unknown>;
+}
+
+// Stands in for the ingest_machine_data RPC; `respond` decides each reply's status
+const startIngestStub = async () => {
+  const requests: IngestRequest[] = [];
+  let respond: (request: IngestRequest) => number = () => 200;
+
+  const server = createHttpServer(async (req, res) => {
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    const request = { path: req.url ?? '', apikey: req.headers.apikey as string | undefined, body: JSON.parse(raw) };
+    requests.push(request);
+
+    const status = respond(request);
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify(
+        status === 200
+          ? { signal: 'applied', status: 'Running', pending_status: null, produced_count: 0, scrap_count: 0 }
+          : { message: 'unavailable' }
+      )
+    );
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+
+  return {
+    server,
+    requests,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    setResponder: (fn: (request: IngestRequest) => number) => {
+      respond = fn;
+    },
+  };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('mqtt bridge', { timeout: 20000 }, () => {
+  let broker: Aedes;
+  let brokerServer: TcpServer;
+  let brokerUrl: string;
+  let ingest: Awaited<ReturnType<typeof startIngestStub>>;
+  let publisher: MqttClient;
+  let bridge: Bridge | undefined;
+  let logs: string[];
+
+  before(async () => {
+    broker = await Aedes.createBroker();
+    brokerServer = createTcpServer(broker.handle);
+    brokerServer.listen(0, '127.0.0.1');
+    await once(brokerServer, 'listening');
+    brokerUrl = `mqtt://127.0.0.1:${(brokerServer.address() as AddressInfo).port}`;
+    publisher = await mqtt.connectAsync(brokerUrl);
+  });
+
+  after(async () => {
+    await publisher.endAsync();
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    await new Promise((resolve) => brokerServer.close(resolve));
+  });
+
+  beforeEach(async () => {
+    ingest = await startIngestStub();
+    logs = [];
+  });
+
+  afterEach(async () => {
+    await bridge?.stop();
+    bridge = undefined;
+    await new Promise((resolve) => ingest.server.close(resolve));
+  });
+
+  const configFor = (overrides: Partial<Record<string, unknown>> = {}): BridgeConfig =>
+    parseConfig({
+      mqtt: { url: brokerUrl },
+      supabase: { url: ingest.url, anonKey: 'anon-key' },
+      topics: [
+        { topic: 'factory/+/state', machineCode: { topicLevel: 1 } },
+        {
+          topic: 'gateways/line1/telemetry',
+          machineCode: { field: 'machine' },
+          signal: 'state',
+          producedCount: 'counters.produced',
+          scrapCount: 'counters.scrap',
+          observedAt: 'timestamp',
+        },
+      ],
+      apiKeys: { 'CNC-01': 'mk_cnc01', 'CNC-02': 'mk_cnc02' },
+      ...overrides,
+    });
+
+  const start = async (config: BridgeConfig) => {
+    bridge = startBridge(config, { retryDelaysMs: [50, 50, 50], log: (message) => logs.push(message) });
+    await bridge.ready;
+    return bridge;
+  };
+
+  test('forwards messages on subscribed topics only, with the machine code from the topic', async () => {
+    const { idle } = await start(configFor());
+
+    await publisher.publishAsync('other/CNC-01/state', 'STOP');
+    await publisher.publishAsync('factory/CNC-01/state', 'RUN');
+    await waitFor(() => ingest.requests.length === 1);
+    await idle();
+
+    assert.equal(ingest.requests.length, 1);
+    const [request] = ingest.requests;
+    assert.equal(request.path, '/rest/v1/rpc/ingest_machine_data');
+    assert.equal(request.apikey, 'anon-key');
+    assert.equal(request.body.p_api_key, 'mk_cnc01');
+    assert.equal(request.body.p_signal, 'RUN');
+    assert.equal(request.body.p_produced_count, null);
+  });
+
+  test('maps payload fields to the machine code, signal, counters and device time', async () => {
+    const { idle } = await start(configFor());
+
+    await publisher.publishAsync(
+      'gateways/line1/telemetry',
+      JSON.stringify({
+        machine: 'CNC-02',
+        state: 'STOP',
+        counters: { produced: '120', scrap: 3 },
+        timestamp: '2025-11-20T08:00:00Z',
+      })
+    );
+    await publisher.publishAsync('gateways/line1/telemetry', JSON.stringify({ state: 'RUN' }));
+    await waitFor(() => ingest.requests.length === 1 && logs.some((l) => l.includes('ignored')));
+    await idle();
+
+    assert.deepEqual(ingest.requests[0].body, {
+      p_api_key: 'mk_cnc02',
+      p_signal: 'STOP',
+      p_produced_count: 120,
+      p_scrap_count: 3,
+      p_observed_at: '2025-11-20T08:00:00.000Z',
+    });
+    assert.ok(logs.some((l) => l.startsWith('gateways/line1/telemetry: ignored')));
+  });
+
+  test('skips machines without an API key', async () => {
+    const { idle } = await start(configFor());
+
+    await publisher.publishAsync('factory/LATHE-09/state', 'RUN');
+    await waitFor(() => logs.some((l) => l.includes('LATHE-09')));
+    await idle();
+
+    assert.equal(ingest.requests.length, 0);
+    assert.ok(logs.includes('LATHE-09: no API key configured, skipped'));
+  });
+
+  test('logs readings without sending them in dry-run mode', async () => {
+    const { idle } = await start(configFor({ dryRun: true }));
+
+    await publisher.publishAsync('factory/CNC-01/state', 'RUN');
+    await waitFor(() => logs.some((l) => l.startsWith('[dry run]')));
+    await idle();
+
+    assert.equal(ingest.requests.length, 0);
+    assert.ok(logs.includes('[dry run] CNC-01: signal=RUN'));
+  });
+
+  test('retries a failed reading before sending later readings of the same machine', async () => {
+    let failures = 1;
+    ingest.setResponder(() => (failures-- > 0 ? 503 : 200));
+    const { idle } = await start(configFor());
+
+    await publisher.publishAsync('factory/CNC-01/state', 'FAULT');
+    await publisher.publishAsync('factory/CNC-01/state', 'RUN');
+    await waitFor(() => ingest.requests.length === 3);
+    await idle();
+
+    assert.deepEqual(
+      ingest.requests.map((r) => r.body.p_signal),
+      ['FAULT', 'FAULT', 'RUN']
+    );
+    // Stamped when received, not when the retry got through
+    const [first, retried, later] = ingest.requests.map((r) => String(r.body.p_observed_at));
+    assert.equal(retried, first);
+    assert.ok(first <= later);
+  });
+});
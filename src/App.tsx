@@ -1,28 +1,50 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { OutboxProvider } from './contexts/OutboxContext';
 import AuthForm from './components/AuthForm';
 import Dashboard from './components/Dashboard';
+import SetPasswordForm from './components/SetPasswordForm';
+import { SET_PASSWORD_PARAM } from './lib/userAdmin';
 
 function AppContent() {
-  const { loading } = useAuth();
+  const { t } = useTranslation();
+  const { loading, user } = useAuth();
+  const [settingPassword, setSettingPassword] = useState(() =>
+    new URLSearchParams(window.location.search).has(SET_PASSWORD_PARAM)
+  );
 
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Yükleniyor...</p>
+          <p className="mt-4 text-gray-600">{t('common.loading')}</p>
         </div>
       </div>
     );
   }
 
+  if (user && settingPassword) {
+    return (
+      <SetPasswordForm
+        onDone={() => {
+          window.history.replaceState(null, '', window.location.pathname);
+          setSettingPassword(false);
+        }}
+      />
+    );
+  }
+
   return <Dashboard />;
 }
 
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <OutboxProvider>
+        <AppContent />
+      </OutboxProvider>
     </AuthProvider>
   );
 }
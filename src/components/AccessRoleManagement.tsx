@@ -0,0 +1,430 @@
+import { useEffect, useState } from 'react';
+import { KeySquare, Plus, X, Edit2, Trash2, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { localizedName } from '../lib/nameTranslations';
+
+type AccessRole = Database['public']['Tables']['access_roles']['Row'];
+type AccessRoleDepartment = Database['public']['Tables']['access_role_departments']['Row'];
+type AccessRoleStatusType = Database['public']['Tables']['access_role_status_types']['Row'];
+type Department = Database['public']['Tables']['departments']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+
+const emptyForm = () => ({
+  name: '',
+  description: '',
+  all_departments: false,
+  can_manage_assignments: false,
+  can_run_reports: false,
+  department_ids: [] as string[],
+  status_type_ids: [] as string[],
+});
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+export default function AccessRoleManagement() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [accessRoles, setAccessRoles] = useState<AccessRole[]>([]);
+  const [roleDepartments, setRoleDepartments] = useState<AccessRoleDepartment[]>([]);
+  const [roleStatusTypes, setRoleStatusTypes] = useState<AccessRoleStatusType[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRole, setEditingRole] = useState<AccessRole | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [rolesRes, roleDepartmentsRes, roleStatusTypesRes, departmentsRes, statusTypesRes] =
+        await Promise.all([
+          supabase.from('access_roles').select('*').order('name'),
+          supabase.from('access_role_departments').select('*'),
+          supabase.from('access_role_status_types').select('*'),
+          supabase.from('departments').select('*').order('name'),
+          supabase.from('status_types').select('*').order('display_order'),
+        ]);
+
+      if (rolesRes.error) throw rolesRes.error;
+      if (roleDepartmentsRes.error) throw roleDepartmentsRes.error;
+      if (roleStatusTypesRes.error) throw roleStatusTypesRes.error;
+      if (departmentsRes.error) throw departmentsRes.error;
+      if (statusTypesRes.error) throw statusTypesRes.error;
+
+      setAccessRoles(rolesRes.data || []);
+      setRoleDepartments(roleDepartmentsRes.data || []);
+      setRoleStatusTypes(roleStatusTypesRes.data || []);
+      setDepartments(departmentsRes.data || []);
+      setStatusTypes(statusTypesRes.data || []);
+    } catch (error) {
+      console.error('Error loading access roles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const departmentIdsOf = (roleId: string) =>
+    roleDepartments.filter((rd) => rd.role_id === roleId).map((rd) => rd.department_id);
+
+  const statusTypeIdsOf = (roleId: string) =>
+    roleStatusTypes.filter((rs) => rs.role_id === roleId).map((rs) => rs.status_type_id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const values = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      all_departments: formData.all_departments,
+      can_manage_assignments: formData.can_manage_assignments,
+      can_run_reports: formData.can_run_reports,
+    };
+
+    try {
+      let roleId: string;
+      if (editingRole) {
+        const { error } = await supabase.from('access_roles').update(values).eq('id', editingRole.id);
+        if (error) throw error;
+        roleId = editingRole.id;
+      } else {
+        const { data, error } = await supabase
+          .from('access_roles')
+          .insert({ ...values, created_by: user!.id })
+          .select()
+          .single();
+        if (error) throw error;
+        roleId = data.id;
+      }
+
+      // The scope lists are replaced as a whole
+      const { error: deleteDepartmentsError } = await supabase
+        .from('access_role_departments')
+        .delete()
+        .eq('role_id', roleId);
+      if (deleteDepartmentsError) throw deleteDepartmentsError;
+
+      const { error: deleteStatusTypesError } = await supabase
+        .from('access_role_status_types')
+        .delete()
+        .eq('role_id', roleId);
+      if (deleteStatusTypesError) throw deleteStatusTypesError;
+
+      if (!formData.all_departments && formData.department_ids.length > 0) {
+        const { error } = await supabase
+          .from('access_role_departments')
+          .insert(formData.department_ids.map((department_id) => ({ role_id: roleId, department_id })));
+        if (error) throw error;
+      }
+
+      if (formData.status_type_ids.length > 0) {
+        const { error } = await supabase
+          .from('access_role_status_types')
+          .insert(formData.status_type_ids.map((status_type_id) => ({ role_id: roleId, status_type_id })));
+        if (error) throw error;
+      }
+
+      closeModal();
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleDelete = async (accessRole: AccessRole) => {
+    if (!confirm(t('accessRoles.deleteConfirm', { name: accessRole.name }))) return;
+
+    try {
+      const { error } = await supabase.from('access_roles').delete().eq('id', accessRole.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting access role:', error);
+    }
+  };
+
+  const openEditModal = (accessRole: AccessRole) => {
+    setEditingRole(accessRole);
+    setFormData({
+      name: accessRole.name,
+      description: accessRole.description ?? '',
+      all_departments: accessRole.all_departments,
+      can_manage_assignments: accessRole.can_manage_assignments,
+      can_run_reports: accessRole.can_run_reports,
+      department_ids: departmentIdsOf(accessRole.id),
+      status_type_ids: statusTypeIdsOf(accessRole.id),
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingRole(null);
+    setFormData(emptyForm());
+    setError(null);
+  };
+
+  const describeDepartments = (accessRole: AccessRole) => {
+    if (accessRole.all_departments) return t('history.allDepartments');
+    const names = departmentIdsOf(accessRole.id)
+      .map((id) => departments.find((d) => d.id === id))
+      .filter((d): d is Department => !!d)
+      .map((d) => localizedName(d, i18n.language));
+    return names.length > 0 ? names.join(', ') : '-';
+  };
+
+  const describeStatusTypes = (accessRole: AccessRole) => {
+    const names = statusTypeIdsOf(accessRole.id)
+      .map((id) => statusTypes.find((st) => st.id === id))
+      .filter((st): st is StatusType => !!st)
+      .map((st) => localizedName(st, i18n.language));
+    return names.length > 0 ? names.join(', ') : '-';
+  };
+
+  const describePermissions = (accessRole: AccessRole) =>
+    [
+      accessRole.can_manage_assignments && t('accessRoles.canManageAssignments'),
+      accessRole.can_run_reports && t('accessRoles.canRunReports'),
+    ]
+      .filter(Boolean)
+      .join(', ') || '-';
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <KeySquare className="w-6 h-6 text-gray-700" />
+          <h2 className="text-xl font-bold text-gray-900">{t('accessRoles.title')}</h2>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('accessRoles.addRole')}</span>
+        </button>
+      </div>
+
+      {accessRoles.length === 0 ? (
+        <div className="text-center py-8 bg-white border border-gray-200 rounded-lg">
+          <p className="text-gray-600">{t('accessRoles.noRoles')}</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('accessRoles.name')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('accessRoles.departments')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('accessRoles.statusTypes')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('accessRoles.permissions')}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {accessRoles.map((accessRole) => (
+                <tr key={accessRole.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">{accessRole.name}</div>
+                    {accessRole.description && (
+                      <div className="text-xs text-gray-500">{accessRole.description}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeDepartments(accessRole)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeStatusTypes(accessRole)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describePermissions(accessRole)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => openEditModal(accessRole)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(accessRole)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingRole ? t('accessRoles.editRole') : t('accessRoles.addRole')}
+              </h3>
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('accessRoles.name')}
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  placeholder={t('accessRoles.namePlaceholder')}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('accessRoles.description')}
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  rows={2}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('accessRoles.departments')}
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.all_departments}
+                    onChange={(e) => setFormData({ ...formData, all_departments: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  <span>{t('history.allDepartments')}</span>
+                </label>
+                {!formData.all_departments && (
+                  <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg p-2 space-y-1">
+                    {departments.map((dept) => (
+                      <label key={dept.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formData.department_ids.includes(dept.id)}
+                          onChange={() =>
+                            setFormData({ ...formData, department_ids: toggle(formData.department_ids, dept.id) })
+                          }
+                          className="rounded border-gray-300"
+                        />
+                        <span>{localizedName(dept, i18n.language)}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('accessRoles.statusTypes')}
+                </label>
+                <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg p-2 space-y-1">
+                  {statusTypes.map((statusType) => (
+                    <label key={statusType.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.status_type_ids.includes(statusType.id)}
+                        onChange={() =>
+                          setFormData({
+                            ...formData,
+                            status_type_ids: toggle(formData.status_type_ids, statusType.id),
+                          })
+                        }
+                        className="rounded border-gray-300"
+                      />
+                      <span>{localizedName(statusType, i18n.language)}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">{t('accessRoles.statusTypesHint')}</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.can_manage_assignments}
+                    onChange={(e) => setFormData({ ...formData, can_manage_assignments: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  <span>{t('accessRoles.canManageAssignments')}</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.can_run_reports}
+                    onChange={(e) => setFormData({ ...formData, can_run_reports: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  <span>{t('accessRoles.canRunReports')}</span>
+                </label>
+              </div>
+
+              {error && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bell, Check, ArrowUpCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { formatDateTime } from '../lib/format';
+
+type Alert = Database['public']['Tables']['alerts']['Row'];
+type AlertRule = Database['public']['Tables']['alert_rules']['Row'];
+type Machine = Database['public']['Tables']['machines']['Row'];
+
+// Rules are also evaluated by pg_cron where available; while the inbox is mounted it
+// triggers an evaluation itself so alerts show up without a scheduler.
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export default function AlertInbox() {
+  const { t, i18n } = useTranslation();
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [open, setOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadReferenceData();
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const loadReferenceData = async () => {
+    try {
+      const [{ data: rulesData, error: rulesError }, { data: machinesData, error: machinesError }] =
+        await Promise.all([
+          supabase.from('alert_rules').select('*'),
+          supabase.from('machines').select('*'),
+        ]);
+
+      if (rulesError) throw rulesError;
+      if (machinesError) throw machinesError;
+      setRules(rulesData || []);
+      setMachines(machinesData || []);
+    } catch (error) {
+      console.error('Error loading alert rules:', error);
+    }
+  };
+
+  const refresh = async () => {
+    try {
+      const { data: created, error: evaluateError } = await supabase.rpc('evaluate_alert_rules');
+      if (evaluateError) console.error('Error evaluating alert rules:', evaluateError);
+      if (created) loadReferenceData();
+
+      // Open alerts, and resolved ones nobody has acknowledged yet
+      const { data, error } = await supabase
+        .from('alerts')
+        .select('*')
+        .or('resolved_at.is.null,acknowledged_at.is.null')
+        .order('triggered_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setAlerts(data || []);
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+    }
+  };
+
+  const handleAcknowledge = async (alert: Alert) => {
+    setBusyId(alert.id);
+    try {
+      const { data, error } = await supabase.rpc('acknowledge_alert', { p_alert_id: alert.id });
+      if (error) throw error;
+      setAlerts((prev) => prev.map((a) => (a.id === alert.id ? data : a)));
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeAlert = (alert: Alert) => {
+    const rule = rules.find((r) => r.id === alert.rule_id);
+    if (!rule) return '';
+    return t(`alerts.messages.${rule.rule_type}`, {
+      status: rule.status,
+      minutes: alert.observed_value,
+      count: alert.observed_value,
+    });
+  };
+
+  const unacknowledged = alerts.filter((a) => !a.acknowledged_at);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        title={t('alerts.inbox')}
+      >
+        <Bell className="w-5 h-5" />
+        {unacknowledged.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-semibold">
+            {unacknowledged.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-xl z-50">
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-900">{t('alerts.inbox')}</h3>
+          </div>
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {alerts.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">{t('alerts.noAlerts')}</p>
+            ) : (
+              alerts.map((alert) => {
+                const machine = machines.find((m) => m.id === alert.machine_id);
+                const rule = rules.find((r) => r.id === alert.rule_id);
+                return (
+                  <div
+                    key={alert.id}
+                    className={`px-4 py-3 text-sm ${alert.acknowledged_at ? 'opacity-60' : ''}`}
+                  >
+                    <div className="flex items-start justify-between space-x-2">
+                      <div className="flex-1">
+                        <p className="font-semibold text-gray-900">
+                          {machine ? `${machine.machine_code} - ${machine.machine_name}` : t('history.unknownMachine')}
+                        </p>
+                        <p className="text-gray-700">{describeAlert(alert)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {rule?.name} · {formatDateTime(alert.triggered_at, i18n.language)}
+                        </p>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {alert.escalated_at && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800 border border-orange-200">
+                              <ArrowUpCircle className="w-3 h-3 mr-1" />
+                              {t('alerts.escalated')}
+                            </span>
+                          )}
+                          {alert.resolved_at && (
+                            <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800 border border-green-200">
+                              {t('alerts.resolved')}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {!alert.acknowledged_at && (
+                        <button
+                          onClick={() => handleAcknowledge(alert)}
+                          disabled={busyId === alert.id}
+                          className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <Check className="w-3 h-3" />
+                          <span>{t('alerts.acknowledge')}</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,441 @@
+import { useEffect, useState } from 'react';
+import { BellRing, Plus, X, Edit2, Trash2, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { localizedName } from '../lib/nameTranslations';
+
+type AlertRule = Database['public']['Tables']['alert_rules']['Row'];
+type RuleType = AlertRule['rule_type'];
+type Machine = Database['public']['Tables']['machines']['Row'];
+type Department = Database['public']['Tables']['departments']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+
+const RULE_TYPES: RuleType[] = ['status_duration', 'fault_count', 'status_unchanged'];
+
+const emptyForm = () => ({
+  name: '',
+  rule_type: 'status_duration' as RuleType,
+  status: '',
+  department_id: '',
+  machine_id: '',
+  threshold: '',
+  escalate_after_minutes: '',
+});
+
+export default function AlertRuleManagement() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [rulesRes, machinesRes, departmentsRes, statusTypesRes] = await Promise.all([
+        supabase.from('alert_rules').select('*').order('name'),
+        supabase.from('machines').select('*').order('machine_code'),
+        supabase.from('departments').select('*').order('name'),
+        supabase.from('status_types').select('*').eq('is_active', true).order('display_order'),
+      ]);
+
+      if (rulesRes.error) throw rulesRes.error;
+      if (machinesRes.error) throw machinesRes.error;
+      if (departmentsRes.error) throw departmentsRes.error;
+      if (statusTypesRes.error) throw statusTypesRes.error;
+
+      setRules(rulesRes.data || []);
+      setMachines(machinesRes.data || []);
+      setDepartments(departmentsRes.data || []);
+      setStatusTypes(statusTypesRes.data || []);
+    } catch (error) {
+      console.error('Error loading alert rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const threshold = Number(formData.threshold);
+    const isCount = formData.rule_type === 'fault_count';
+    if (!Number.isInteger(threshold) || threshold < (isCount ? 0 : 1)) {
+      setError(t('alerts.invalidThreshold'));
+      return;
+    }
+
+    const values = {
+      name: formData.name.trim(),
+      rule_type: formData.rule_type,
+      status: formData.rule_type === 'status_unchanged' ? null : formData.status,
+      department_id: formData.department_id || null,
+      machine_id: formData.machine_id || null,
+      threshold_minutes: isCount ? null : threshold,
+      threshold_count: isCount ? threshold : null,
+      escalate_after_minutes: formData.escalate_after_minutes
+        ? Number(formData.escalate_after_minutes)
+        : null,
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase.from('alert_rules').update(values).eq('id', editingRule.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('alert_rules').insert({ ...values, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      closeModal();
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleToggleActive = async (rule: AlertRule) => {
+    try {
+      const { error } = await supabase
+        .from('alert_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error toggling alert rule:', error);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(t('alerts.deleteConfirm', { name: rule.name }))) return;
+
+    try {
+      const { error } = await supabase.from('alert_rules').delete().eq('id', rule.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+    }
+  };
+
+  const openEditModal = (rule: AlertRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      rule_type: rule.rule_type,
+      status: rule.status ?? '',
+      department_id: rule.department_id ?? '',
+      machine_id: rule.machine_id ?? '',
+      threshold: String((rule.rule_type === 'fault_count' ? rule.threshold_count : rule.threshold_minutes) ?? ''),
+      escalate_after_minutes: rule.escalate_after_minutes?.toString() ?? '',
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingRule(null);
+    setFormData(emptyForm());
+    setError(null);
+  };
+
+  // Rules keep the status by name
+  const getStatusName = (name: string | null) => {
+    const statusType = statusTypes.find((st) => st.name === name);
+    return statusType ? localizedName(statusType, i18n.language) : name;
+  };
+
+  const describeCondition = (rule: AlertRule) =>
+    t(`alerts.conditions.${rule.rule_type}`, {
+      status: getStatusName(rule.status),
+      minutes: rule.threshold_minutes,
+      count: rule.threshold_count ?? 0,
+    });
+
+  const describeScope = (rule: AlertRule) => {
+    if (rule.machine_id) {
+      const machine = machines.find((m) => m.id === rule.machine_id);
+      return machine ? `${machine.machine_code} - ${machine.machine_name}` : t('history.unknownMachine');
+    }
+    if (rule.department_id) {
+      const department = departments.find((d) => d.id === rule.department_id);
+      return department ? localizedName(department, i18n.language) : '';
+    }
+    return t('alerts.allMachines');
+  };
+
+  const scopedMachines = formData.department_id
+    ? machines.filter((m) => m.department_id === formData.department_id)
+    : machines;
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <BellRing className="w-6 h-6 text-gray-700" />
+          <h2 className="text-xl font-bold text-gray-900">{t('alerts.rulesTitle')}</h2>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('alerts.addRule')}</span>
+        </button>
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="text-center py-8 bg-white border border-gray-200 rounded-lg">
+          <p className="text-gray-600">{t('alerts.noRules')}</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('alerts.ruleName')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('alerts.condition')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('alerts.scope')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('alerts.escalation')}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rules.map((rule) => (
+                <tr key={rule.id} className={rule.is_active ? 'hover:bg-gray-50' : 'bg-gray-50 opacity-60'}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{rule.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeCondition(rule)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeScope(rule)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {rule.escalate_after_minutes !== null
+                      ? t('alerts.escalateAfter', { minutes: rule.escalate_after_minutes })
+                      : t('alerts.noEscalation')}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => handleToggleActive(rule)}
+                        className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                          rule.is_active
+                            ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                            : 'bg-green-100 text-green-800 hover:bg-green-200'
+                        }`}
+                      >
+                        {rule.is_active ? t('maintenance.deactivate') : t('maintenance.activate')}
+                      </button>
+                      <button
+                        onClick={() => openEditModal(rule)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingRule ? t('alerts.editRule') : t('alerts.addRule')}
+              </h3>
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('alerts.ruleName')}
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  placeholder={t('alerts.ruleNamePlaceholder')}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('alerts.ruleType')}
+                </label>
+                <select
+                  value={formData.rule_type}
+                  onChange={(e) => setFormData({ ...formData, rule_type: e.target.value as RuleType })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                >
+                  {RULE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {t(`alerts.ruleTypes.${type}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.rule_type !== 'status_unchanged' && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    {t('export.status')}
+                  </label>
+                  <select
+                    value={formData.status}
+                    onChange={(e) => setFormData({ ...formData, status: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                    required
+                  >
+                    <option value="">{t('status.selectStatus')}</option>
+                    {statusTypes.map((statusType) => (
+                      <option key={statusType.id} value={statusType.name}>
+                        {localizedName(statusType, i18n.language)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {formData.rule_type === 'fault_count'
+                    ? t('alerts.thresholdCount')
+                    : t('alerts.thresholdMinutes')}
+                </label>
+                <input
+                  type="number"
+                  min={formData.rule_type === 'fault_count' ? '0' : '1'}
+                  step="1"
+                  value={formData.threshold}
+                  onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    {t('history.department')}
+                  </label>
+                  <select
+                    value={formData.department_id}
+                    onChange={(e) => setFormData({ ...formData, department_id: e.target.value, machine_id: '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  >
+                    <option value="">{t('history.allDepartments')}</option>
+                    {departments.map((dept) => (
+                      <option key={dept.id} value={dept.id}>
+                        {localizedName(dept, i18n.language)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    {t('history.machine')}
+                  </label>
+                  <select
+                    value={formData.machine_id}
+                    onChange={(e) => setFormData({ ...formData, machine_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  >
+                    <option value="">{t('history.allMachines')}</option>
+                    {scopedMachines.map((machine) => (
+                      <option key={machine.id} value={machine.id}>
+                        {machine.machine_code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('alerts.escalateAfterMinutes')}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={formData.escalate_after_minutes}
+                  onChange={(e) => setFormData({ ...formData, escalate_after_minutes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  placeholder={t('oee.optional')}
+                />
+                <p className="mt-1 text-xs text-gray-500">{t('alerts.escalationHint')}</p>
+              </div>
+
+              {error && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
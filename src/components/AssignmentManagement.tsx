@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
 import { UserCheck, Plus, X, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
+import { localizedName } from '../lib/nameTranslations';
 
 type Department = Database['public']['Tables']['departments']['Row'];
 type Machine = Database['public']['Tables']['machines']['Row'];
@@ -15,6 +17,7 @@ interface AssignmentManagementProps {
 }
 
 export default function AssignmentManagement({ type }: AssignmentManagementProps) {
+  const { t, i18n } = useTranslation();
   const [departments, setDepartments] = useState<Department[]>([]);
   const [machines, setMachines] = useState<Machine[]>([]);
   const [users, setUsers] = useState<Profile[]>([]);
@@ -22,11 +25,11 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
   const [showModal, setShowModal] = useState(false);
   const [selectedTarget, setSelectedTarget] = useState('');
   const [selectedUser, setSelectedUser] = useState('');
-  const { user, profile } = useAuth();
+  const { user, permissions } = useAuth();
 
   useEffect(() => {
     loadData();
-  }, [type]);
+  }, [type, permissions]);
 
   const loadData = async () => {
     try {
@@ -43,15 +46,9 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
       } else {
         let machineQuery = supabase.from('machines').select('*').order('machine_code');
 
-        if (profile?.role === 'team_leader') {
-          const { data: myDepts } = await supabase
-            .from('department_leaders')
-            .select('department_id')
-            .eq('user_id', user?.id);
-
-          const deptIds = myDepts?.map((d) => d.department_id) || [];
-          if (deptIds.length > 0) {
-            machineQuery = machineQuery.in('department_id', deptIds);
+        if (permissions.isTeamLeader) {
+          if (permissions.leaderDepartmentIds.length > 0) {
+            machineQuery = machineQuery.in('department_id', permissions.leaderDepartmentIds);
           } else {
             machineQuery = machineQuery.eq('id', '00000000-0000-0000-0000-000000000000');
           }
@@ -63,7 +60,8 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
           supabase.from('machine_operators').select('*'),
         ]);
 
-        setMachines(machinesData || []);
+        // Access roles with assignment permission only cover the machines in their scope
+        setMachines((machinesData || []).filter((machine) => permissions.canManageMachineOperators(machine)));
         setUsers(usersData || []);
         setAssignments(assigns || []);
       }
@@ -116,11 +114,17 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
     if (type === 'department') {
       const dept = departments.find((d) => d.id === (assignment as DepartmentLeader).department_id);
       const user = users.find((u) => u.id === assignment.user_id);
-      return { target: dept?.name || 'Unknown', user: user?.full_name || 'Unknown' };
+      return {
+        target: dept ? localizedName(dept, i18n.language) : t('common.unknown'),
+        user: user?.full_name || t('common.unknown'),
+      };
     } else {
       const machine = machines.find((m) => m.id === (assignment as MachineOperator).machine_id);
       const user = users.find((u) => u.id === assignment.user_id);
-      return { target: machine?.machine_code || 'Unknown', user: user?.full_name || 'Unknown' };
+      return {
+        target: machine?.machine_code || t('common.unknown'),
+        user: user?.full_name || t('common.unknown'),
+      };
     }
   };
 
@@ -130,7 +134,7 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
         <div className="flex items-center space-x-3">
           <UserCheck className="w-6 h-6 text-gray-700" />
           <h2 className="text-xl font-bold text-gray-900">
-            {type === 'department' ? 'Bölüm Sorumluları' : 'Makine Opertörleri'}
+            {type === 'department' ? t('assignments.departmentTitle') : t('assignments.machineTitle')}
           </h2>
         </div>
         <button
@@ -138,7 +142,7 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
           className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
         >
           <Plus className="w-4 h-4" />
-          <span>{type === 'department' ? 'Sorumlu' : 'Operatör'} Ata</span>
+          <span>{type === 'department' ? t('assignments.assignLeader') : t('assignments.assignOperator')}</span>
         </button>
       </div>
 
@@ -147,13 +151,13 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
           <thead className="bg-gray-50 border-b border-gray-200">
             <tr>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                {type === 'department' ? 'Bölüm' : 'Makine'}
+                {type === 'department' ? t('assignments.department') : t('assignments.machine')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                {type === 'department' ? 'Bölüm Sorumlusu' : 'Operatör'}
+                {type === 'department' ? t('assignments.leader') : t('assignments.operator')}
               </th>
               <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase">
-                İşlemler
+                {t('common.actions')}
               </th>
             </tr>
           </thead>
@@ -180,7 +184,7 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
 
         {assignments.length === 0 && (
           <div className="text-center py-8 text-gray-500">
-            Henüz bir atama yok
+            {t('assignments.noAssignments')}
           </div>
         )}
       </div>
@@ -190,7 +194,7 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
           <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
               <h3 className="text-xl font-bold text-gray-900">
-                {type === 'department' ? 'Bölüm Sorumlusu' : 'Operatör'} Ata
+                {type === 'department' ? t('assignments.assignLeader') : t('assignments.assignOperator')}
               </h3>
               <button
                 onClick={() => setShowModal(false)}
@@ -203,18 +207,18 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
             <div className="p-6 space-y-4">
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  {type === 'department' ? 'Bölüm' : 'Makine'} Seç
+                  {type === 'department' ? t('assignments.selectDepartment') : t('assignments.selectMachine')}
                 </label>
                 <select
                   value={selectedTarget}
                   onChange={(e) => setSelectedTarget(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
                 >
-                  <option value="">Seç...</option>
+                  <option value="">{t('common.select')}</option>
                   {type === 'department'
                     ? departments.map((dept) => (
                         <option key={dept.id} value={dept.id}>
-                          {dept.name}
+                          {localizedName(dept, i18n.language)}
                         </option>
                       ))
                     : machines.map((machine) => (
@@ -227,14 +231,14 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
 
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  {type === 'department' ? 'Bölüm Sorumlusu' : 'Operatör'} Seç
+                  {type === 'department' ? t('assignments.selectLeader') : t('assignments.selectOperator')}
                 </label>
                 <select
                   value={selectedUser}
                   onChange={(e) => setSelectedUser(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
                 >
-                  <option value="">Seç...</option>
+                  <option value="">{t('common.select')}</option>
                   {users.map((user) => (
                     <option key={user.id} value={user.id}>
                       {user.full_name}
@@ -248,14 +252,14 @@ export default function AssignmentManagement({ type }: AssignmentManagementProps
                   onClick={() => setShowModal(false)}
                   className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
                 >
-                  İptal
+                  {t('common.cancel')}
                 </button>
                 <button
                   onClick={handleAssign}
                   disabled={!selectedTarget || !selectedUser}
                   className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Ata
+                  {t('assignments.assign')}
                 </button>
               </div>
             </div>
@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { ClipboardList, Filter, Calendar, User as UserIcon, Cpu, ArrowRight } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database, Json } from '../lib/database.types';
+import { formatDate, formatTime } from '../lib/format';
+
+type AuditEntry = Database['public']['Tables']['audit_log']['Row'];
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type Department = Database['public']['Tables']['departments']['Row'];
+type Machine = Database['public']['Tables']['machines']['Row'];
+
+// Tables written by the audit triggers
+const AUDITED_TABLES = [
+  'profiles',
+  'departments',
+  'department_leaders',
+  'machine_operators',
+  'machines',
+  'status_types',
+  'status_transitions',
+] as const;
+
+const PAGE_SIZE = 100;
+
+// Filter value for changes made without a signed-in user (migrations, service jobs)
+const SYSTEM_ACTOR = 'system';
+
+type AuditRow = Record<string, Json | undefined>;
+
+const asRow = (data: Json | null): AuditRow =>
+  data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditLogPage() {
+  const { t, i18n } = useTranslation();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filters, setFilters] = useState({
+    actor: 'All',
+    table: 'All',
+    startDate: '',
+    endDate: '',
+  });
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  useEffect(() => {
+    loadEntries(false);
+  }, [filters]);
+
+  const loadReferenceData = async () => {
+    try {
+      const [profilesResult, departmentsResult, machinesResult] = await Promise.all([
+        supabase.from('profiles').select('*').order('full_name'),
+        supabase.from('departments').select('*').order('name'),
+        supabase.from('machines').select('*').order('machine_code'),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (departmentsResult.error) throw departmentsResult.error;
+      if (machinesResult.error) throw machinesResult.error;
+
+      setProfiles(profilesResult.data || []);
+      setDepartments(departmentsResult.data || []);
+      setMachines(machinesResult.data || []);
+    } catch (error) {
+      console.error('Error loading audit reference data:', error);
+    }
+  };
+
+  const loadEntries = async (append: boolean) => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('changed_at', { ascending: false })
+        .range(append ? entries.length : 0, (append ? entries.length : 0) + PAGE_SIZE - 1);
+
+      if (filters.actor === SYSTEM_ACTOR) {
+        query = query.is('actor_id', null);
+      } else if (filters.actor !== 'All') {
+        query = query.eq('actor_id', filters.actor);
+      }
+      if (filters.table !== 'All') {
+        query = query.eq('table_name', filters.table);
+      }
+      if (filters.startDate) {
+        query = query.gte('changed_at', new Date(`${filters.startDate}T00:00:00`).toISOString());
+      }
+      if (filters.endDate) {
+        const end = new Date(`${filters.endDate}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('changed_at', end.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(append ? [...entries, ...(data || [])] : data || []);
+      setHasMore((data?.length || 0) === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const profileName = (id: Json | undefined) =>
+    profiles.find((p) => p.id === id)?.full_name || formatValue(id);
+
+  const getActorName = (entry: AuditEntry) =>
+    entry.actor_id
+      ? profiles.find((p) => p.id === entry.actor_id)?.full_name || t('auditLog.unknownUser')
+      : t('auditLog.system');
+
+  const getRecordLabel = (entry: AuditEntry) => {
+    const row = asRow(entry.new_data ?? entry.old_data);
+
+    switch (entry.table_name) {
+      case 'profiles':
+        return `${formatValue(row.full_name)} (${formatValue(row.email)})`;
+      case 'machines':
+        return `${formatValue(row.machine_code)} - ${formatValue(row.machine_name)}`;
+      case 'department_leaders':
+        return `${profileName(row.user_id)} → ${
+          departments.find((d) => d.id === row.department_id)?.name || formatValue(row.department_id)
+        }`;
+      case 'machine_operators':
+        return `${profileName(row.user_id)} → ${
+          machines.find((m) => m.id === row.machine_id)?.machine_code || formatValue(row.machine_id)
+        }`;
+      default:
+        return formatValue(row.name);
+    }
+  };
+
+  const getActionColor = (action: AuditEntry['action']) => {
+    switch (action) {
+      case 'INSERT':
+        return 'bg-green-100 text-green-800 border-green-200';
+      case 'UPDATE':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'DELETE':
+        return 'bg-red-100 text-red-800 border-red-200';
+    }
+  };
+
+  const getDetailFields = (entry: AuditEntry) => {
+    if (entry.action === 'UPDATE') return entry.changed_fields || [];
+    return Object.keys(asRow(entry.new_data ?? entry.old_data)).sort();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <ClipboardList className="w-8 h-8 text-gray-700" />
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('auditLog.title')}</h2>
+          <p className="text-sm text-gray-600">{t('auditLog.description')}</p>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <Filter className="w-5 h-5 text-gray-700" />
+          <h3 className="font-semibold text-gray-900">{t('common.filter')}</h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('auditLog.actor')}
+            </label>
+            <select
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            >
+              <option value="All">{t('auditLog.allActors')}</option>
+              <option value={SYSTEM_ACTOR}>{t('auditLog.system')}</option>
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.full_name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('auditLog.table')}
+            </label>
+            <select
+              value={filters.table}
+              onChange={(e) => setFilters({ ...filters, table: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            >
+              <option value="All">{t('auditLog.allTables')}</option>
+              {AUDITED_TABLES.map((table) => (
+                <option key={table} value={table}>
+                  {t(`auditLog.tables.${table}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('auditLog.from')}
+            </label>
+            <input
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('auditLog.to')}
+            </label>
+            <input
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            />
+          </div>
+        </div>
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <ClipboardList className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          <p className="text-gray-600">{t('auditLog.noEntries')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => {
+            const changedAt = new Date(entry.changed_at);
+            const oldRow = asRow(entry.old_data);
+            const newRow = asRow(entry.new_data);
+            const expanded = expandedId === entry.id;
+
+            return (
+              <div key={entry.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : entry.id)}
+                  className="w-full text-left"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${getActionColor(entry.action)}`}>
+                          {t(`auditLog.actions.${entry.action}`)}
+                        </span>
+                        <span className="text-sm font-medium text-gray-600">
+                          {t(`auditLog.tables.${entry.table_name}`, { defaultValue: entry.table_name })}
+                        </span>
+                        <span className="font-semibold text-gray-900">{getRecordLabel(entry)}</span>
+                      </div>
+                      {entry.action === 'UPDATE' && entry.changed_fields && (
+                        <p className="text-sm text-gray-500">
+                          {t('auditLog.changedFields', { fields: entry.changed_fields.join(', ') })}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right text-sm text-gray-600 space-y-1">
+                      <div className="flex items-center justify-end">
+                        {entry.actor_id ? (
+                          <UserIcon className="w-4 h-4 mr-1" />
+                        ) : (
+                          <Cpu className="w-4 h-4 mr-1" />
+                        )}
+                        <span>{getActorName(entry)}</span>
+                      </div>
+                      <div className="flex items-center justify-end">
+                        <Calendar className="w-4 h-4 mr-1" />
+                        <span>
+                          {formatDate(changedAt, i18n.language)}{' '}
+                          {formatTime(changedAt, i18n.language)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </button>
+
+                {expanded && (
+                  <div className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                    {getDetailFields(entry).map((field) => (
+                      <div key={field} className="grid grid-cols-3 gap-2 text-sm">
+                        <span className="font-mono text-gray-600">{field}</span>
+                        {entry.action === 'UPDATE' ? (
+                          <span className="col-span-2 flex items-center space-x-2">
+                            <span className="text-red-700 line-through break-all">{formatValue(oldRow[field])}</span>
+                            <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                            <span className="text-green-700 break-all">{formatValue(newRow[field])}</span>
+                          </span>
+                        ) : (
+                          <span className="col-span-2 text-gray-900 break-all">
+                            {formatValue((entry.action === 'DELETE' ? oldRow : newRow)[field])}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {hasMore && (
+            <div className="text-center">
+              <button
+                onClick={() => loadEntries(true)}
+                disabled={loading}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                {loading ? t('common.loading') : t('auditLog.loadMore')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,27 @@
 import { useState } from 'react';
-import { LogOut, User, Shield, Settings as SettingsIcon, History as HistoryIcon, LogIn, FileText } from 'lucide-react';
+import { LogOut, User, Shield, Settings as SettingsIcon, History as HistoryIcon, LogIn, FileText, Wrench, ClipboardList } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../contexts/AuthContext';
 import MachineOverview from './MachineOverview';
 import StatusUpdateModal from './StatusUpdateModal';
 import StatusHistory from './StatusHistory';
+import OutboxPanel from './OutboxPanel';
 import DepartmentManagement from './DepartmentManagement';
 import UserManagement from './UserManagement';
 import AssignmentManagement from './AssignmentManagement';
 import MachineManagement from './MachineManagement';
 import StatusTypeManagement from './StatusTypeManagement';
+import AccessRoleManagement from './AccessRoleManagement';
+import PreventiveMaintenanceManagement from './PreventiveMaintenanceManagement';
+import ShiftManagement from './ShiftManagement';
+import AlertRuleManagement from './AlertRuleManagement';
+import NotificationSettings from './NotificationSettings';
+import MachineIntegrationManagement from './MachineIntegrationManagement';
+import AlertInbox from './AlertInbox';
 import HistoryPage from './HistoryPage';
 import ReportsPage from './ReportsPage';
+import WorkOrdersPage from './WorkOrdersPage';
+import AuditLogPage from './AuditLogPage';
 import AuthForm from './AuthForm';
 import LanguageSwitcher from './LanguageSwitcher';
 import { Database } from '../lib/database.types';
@@ -20,22 +30,19 @@ type Machine = Database['public']['Tables']['machines']['Row'];
 
 export default function Dashboard() {
   const { t } = useTranslation();
-  const { user, profile, signOut } = useAuth();
+  const { user, profile, permissions, signOut } = useAuth();
   const [selectedMachine, setSelectedMachine] = useState<Machine | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
-  const [activeTab, setActiveTab] = useState<'overview' | 'history' | 'reports' | 'management'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'history' | 'reports' | 'workOrders' | 'audit' | 'management'>('overview');
   // const [activeTab, setActiveTab] = useState<'overview' | 'history' | 'management'>('overview');
   const [showAuthModal, setShowAuthModal] = useState(false);
 
   const isAuthenticated = !!user;
-  const canUpdate = isAuthenticated && (profile?.role === 'admin' || profile?.role === 'team_leader' || profile?.role === 'operator');
-  const isAdmin = profile?.role === 'admin';
-  const isTeamLeader = profile?.role === 'team_leader';
-  const canAccessReports = !user || profile?.role === 'admin' || profile?.role === 'team_leader';
+  const { isAdmin, isTeamLeader, canAccessReports, canAccessManagement } = permissions;
 
   const handleMachineSelect = (machine: Machine) => {
-    if (canUpdate) {
+    if (isAuthenticated && permissions.canUpdateMachine(machine)) {
       setSelectedMachine(machine);
       setShowHistory(false);
     } else {
@@ -115,10 +122,36 @@ export default function Dashboard() {
                     }`}
                   >
                     <FileText className="w-4 h-4" />
-                    <span>Raporlar</span>
+                    <span>{t('dashboard.reports')}</span>
                   </button>
                 )}
-                {(isAdmin || isTeamLeader) && (
+                {isAuthenticated && (
+                  <button
+                    onClick={() => setActiveTab('workOrders')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2 ${
+                      activeTab === 'workOrders'
+                        ? 'bg-gray-900 text-white'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Wrench className="w-4 h-4" />
+                    <span>{t('dashboard.workOrders')}</span>
+                  </button>
+                )}
+                {isAdmin && (
+                  <button
+                    onClick={() => setActiveTab('audit')}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2 ${
+                      activeTab === 'audit'
+                        ? 'bg-gray-900 text-white'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <ClipboardList className="w-4 h-4" />
+                    <span>{t('dashboard.auditLog')}</span>
+                  </button>
+                )}
+                {canAccessManagement && (
                   <button
                     onClick={() => setActiveTab('management')}
                     className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2 ${
@@ -138,6 +171,7 @@ export default function Dashboard() {
               <LanguageSwitcher />
               {isAuthenticated ? (
                 <>
+                  <AlertInbox />
                   <div className="text-right">
                     <div className="flex items-center space-x-2">
                       <User className="w-4 h-4 text-gray-400" />
@@ -177,6 +211,7 @@ export default function Dashboard() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {activeTab === 'overview' && (
           <div className="space-y-6">
+            {isAuthenticated && <OutboxPanel />}
             <MachineOverview key={refreshKey} onMachineSelect={handleMachineSelect} />
 
             {showHistory && selectedMachine && (
@@ -192,6 +227,10 @@ export default function Dashboard() {
 
         {activeTab === 'reports' && canAccessReports && <ReportsPage />}
 
+        {activeTab === 'workOrders' && isAuthenticated && <WorkOrdersPage />}
+
+        {activeTab === 'audit' && isAdmin && <AuditLogPage />}
+
         {activeTab === 'management' && (
           <div className="space-y-8">
             {isAdmin && (
@@ -200,6 +239,9 @@ export default function Dashboard() {
                 <UserManagement />
                 <MachineManagement />
                 <StatusTypeManagement />
+                <AccessRoleManagement />
+                <ShiftManagement />
+                <AlertRuleManagement />
                 <AssignmentManagement type="department" />
               </>
             )}
@@ -207,15 +249,19 @@ export default function Dashboard() {
               <>
                 <UserManagement />
                 <MachineManagement />
+                <PreventiveMaintenanceManagement />
+                <MachineIntegrationManagement />
                 <AssignmentManagement type="machine" />
+                <NotificationSettings />
               </>
             )}
+            {!isAdmin && !isTeamLeader && canAccessManagement && <AssignmentManagement type="machine" />}
             {/* {(isAdmin || isTeamLeader) && <AssignmentManagement type="machine" />} */}
           </div>
         )}
       </main>
 
-      {selectedMachine && canUpdate && !showHistory && (
+      {selectedMachine && !showHistory && (
         <StatusUpdateModal
           machine={selectedMachine}
           onClose={() => setSelectedMachine(null)}
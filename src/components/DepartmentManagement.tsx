@@ -1,19 +1,30 @@
 import { useEffect, useState } from 'react';
-import { Building2, Plus, Trash2, Users, X } from 'lucide-react';
+import { Building2, Edit2, Plus, Trash2, Users, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
+import NameTranslationFields from './NameTranslationFields';
+import {
+  NameTranslations,
+  cleanNameTranslations,
+  localizedName,
+  nameTranslations,
+} from '../lib/nameTranslations';
 
 type Department = Database['public']['Tables']['departments']['Row'];
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
 export default function DepartmentManagement() {
+  const { t, i18n } = useTranslation();
   const [departments, setDepartments] = useState<Department[]>([]);
   const [users, setUsers] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
   const [newDeptName, setNewDeptName] = useState('');
   const [newDeptDesc, setNewDeptDesc] = useState('');
+  const [newDeptTranslations, setNewDeptTranslations] = useState<NameTranslations>({});
+  const [editingDept, setEditingDept] = useState<Department | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -42,28 +53,56 @@ export default function DepartmentManagement() {
     if (!newDeptName.trim()) return;
 
     try {
-      const { error } = await supabase.from('departments').insert({
-        name: newDeptName,
-        description: newDeptDesc,
-        created_by: user?.id,
-      });
-
-      if (error) throw error;
-
-      setNewDeptName('');
-      setNewDeptDesc('');
-      setShowAddModal(false);
+      if (editingDept) {
+        const { error } = await supabase
+          .from('departments')
+          .update({
+            name: newDeptName,
+            description: newDeptDesc,
+            name_translations: cleanNameTranslations(newDeptTranslations),
+          })
+          .eq('id', editingDept.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('departments').insert({
+          name: newDeptName,
+          description: newDeptDesc,
+          name_translations: cleanNameTranslations(newDeptTranslations),
+          created_by: user?.id,
+        });
+
+        if (error) throw error;
+      }
+
+      closeModal();
       loadData();
     } catch (error) {
-      console.error('Error adding department:', error);
+      console.error('Error saving department:', error);
     }
   };
 
-  const handleDeleteDepartment = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this department?')) return;
+  const openEditModal = (dept: Department) => {
+    setEditingDept(dept);
+    setNewDeptName(dept.name);
+    setNewDeptDesc(dept.description);
+    setNewDeptTranslations(nameTranslations(dept));
+    setShowAddModal(true);
+  };
+
+  const closeModal = () => {
+    setShowAddModal(false);
+    setEditingDept(null);
+    setNewDeptName('');
+    setNewDeptDesc('');
+    setNewDeptTranslations({});
+  };
+
+  const handleDeleteDepartment = async (dept: Department) => {
+    if (!confirm(t('departments.deleteConfirm', { name: localizedName(dept, i18n.language) }))) return;
 
     try {
-      const { error } = await supabase.from('departments').delete().eq('id', id);
+      const { error } = await supabase.from('departments').delete().eq('id', dept.id);
       if (error) throw error;
       loadData();
     } catch (error) {
@@ -84,14 +123,14 @@ export default function DepartmentManagement() {
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <Building2 className="w-6 h-6 text-gray-700" />
-          <h2 className="text-xl font-bold text-gray-900">Bölümler</h2>
+          <h2 className="text-xl font-bold text-gray-900">{t('departments.title')}</h2>
         </div>
         <button
           onClick={() => setShowAddModal(true)}
           className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
         >
           <Plus className="w-4 h-4" />
-          <span>Bölüm Ekle</span>
+          <span>{t('departments.addDepartment')}</span>
         </button>
       </div>
 
@@ -100,17 +139,25 @@ export default function DepartmentManagement() {
           <div key={dept.id} className="bg-white border border-gray-200 rounded-lg p-5">
             <div className="flex items-start justify-between mb-3">
               <div className="flex-1">
-                <h3 className="font-bold text-gray-900">{dept.name}</h3>
+                <h3 className="font-bold text-gray-900">{localizedName(dept, i18n.language)}</h3>
                 {dept.description && (
                   <p className="text-sm text-gray-600 mt-1">{dept.description}</p>
                 )}
               </div>
-              <button
-                onClick={() => handleDeleteDepartment(dept.id)}
-                className="text-red-600 hover:text-red-800 transition-colors"
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => openEditModal(dept)}
+                  className="text-blue-600 hover:text-blue-800 transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDeleteDepartment(dept)}
+                  className="text-red-600 hover:text-red-800 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
             </div>
           </div>
         ))}
@@ -118,11 +165,13 @@ export default function DepartmentManagement() {
 
       {showAddModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <h3 className="text-xl font-bold text-gray-900">Bölüm Ekle</h3>
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingDept ? t('departments.editDepartment') : t('departments.addDepartment')}
+              </h3>
               <button
-                onClick={() => setShowAddModal(false)}
+                onClick={closeModal}
                 className="text-gray-400 hover:text-gray-600"
               >
                 <X className="w-6 h-6" />
@@ -132,44 +181,50 @@ export default function DepartmentManagement() {
             <form onSubmit={handleAddDepartment} className="p-6 space-y-4">
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Bölüm Adı
+                  {t('departments.name')}
                 </label>
                 <input
                   type="text"
                   value={newDeptName}
                   onChange={(e) => setNewDeptName(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="e.g., Production Floor A"
+                  placeholder={t('departments.namePlaceholder')}
                   required
                 />
               </div>
 
+              <NameTranslationFields
+                name={newDeptName}
+                value={newDeptTranslations}
+                onChange={setNewDeptTranslations}
+              />
+
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Açıklama
+                  {t('departments.description')}
                 </label>
                 <textarea
                   value={newDeptDesc}
                   onChange={(e) => setNewDeptDesc(e.target.value)}
                   rows={3}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="Bu bölümle ilgili kısa bir açıklama"
+                  placeholder={t('departments.descriptionPlaceholder')}
                 />
               </div>
 
               <div className="flex space-x-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => setShowAddModal(false)}
+                  onClick={closeModal}
                   className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
                 >
-                  İptal
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="submit"
                   className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
                 >
-                  Bölüm Ekle
+                  {editingDept ? t('common.save') : t('departments.addDepartment')}
                 </button>
               </div>
             </form>
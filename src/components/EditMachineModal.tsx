@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, ArrowRight } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { formatDateTime } from '../lib/format';
+import { localizedName } from '../lib/nameTranslations';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+type Department = Database['public']['Tables']['departments']['Row'];
+type DepartmentMove = Database['public']['Tables']['machine_department_moves']['Row'];
+
+interface EditMachineModalProps {
+  machine: Machine;
+  // Departments the user may move the machine to
+  availableDepartments: Department[];
+  departments: Department[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function EditMachineModal({
+  machine,
+  availableDepartments,
+  departments,
+  onClose,
+  onSaved,
+}: EditMachineModalProps) {
+  const { t, i18n } = useTranslation();
+  const [formData, setFormData] = useState({
+    machine_code: machine.machine_code,
+    machine_name: machine.machine_name,
+    description: machine.description ?? '',
+    department_id: machine.department_id ?? '',
+  });
+  const [moves, setMoves] = useState<DepartmentMove[]>([]);
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMoves();
+  }, [machine.id]);
+
+  const loadMoves = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('machine_department_moves')
+        .select('*')
+        .eq('machine_id', machine.id)
+        .order('moved_at', { ascending: false });
+
+      if (error) throw error;
+      setMoves(data || []);
+
+      const userIds = [
+        ...new Set((data || []).map((m) => m.moved_by).filter((id): id is string => id !== null)),
+      ];
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase.from('profiles').select('id, full_name').in('id', userIds);
+        setUserNames(new Map(profiles?.map((p) => [p.id, p.full_name]) || []));
+      }
+    } catch (error) {
+      console.error('Error loading machine moves:', error);
+    }
+  };
+
+  const getDepartmentName = (deptId: string | null) => {
+    const department = deptId && departments.find((d) => d.id === deptId);
+    return department ? localizedName(department, i18n.language) : t('machines.noDepartment');
+  };
+
+  // Keep the current department selectable even if the user could not move a machine into it
+  const departmentOptions =
+    machine.department_id && !availableDepartments.some((d) => d.id === machine.department_id)
+      ? [...departments.filter((d) => d.id === machine.department_id), ...availableDepartments]
+      : availableDepartments;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const departmentChanged = formData.department_id !== (machine.department_id ?? '');
+    if (
+      departmentChanged &&
+      !confirm(
+        t('machines.moveConfirm', {
+          code: machine.machine_code,
+          from: getDepartmentName(machine.department_id),
+          to: getDepartmentName(formData.department_id),
+        })
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('machines')
+        .update({
+          machine_code: formData.machine_code.trim(),
+          machine_name: formData.machine_name.trim(),
+          description: formData.description,
+          department_id: formData.department_id || null,
+        })
+        .eq('id', machine.id);
+
+      if (error) throw error;
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-xl font-bold text-gray-900">{t('machines.editMachine')}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('machines.machineCode')}
+            </label>
+            <input
+              type="text"
+              value={formData.machine_code}
+              onChange={(e) => setFormData({ ...formData, machine_code: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('machines.machineName')}
+            </label>
+            <input
+              type="text"
+              value={formData.machine_name}
+              onChange={(e) => setFormData({ ...formData, machine_name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('machines.description')}
+            </label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('machines.department')}
+            </label>
+            <select
+              value={formData.department_id}
+              onChange={(e) => setFormData({ ...formData, department_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              required
+            >
+              <option value="">{t('machines.selectDepartment')}</option>
+              {departmentOptions.map((dept) => (
+                <option key={dept.id} value={dept.id}>
+                  {localizedName(dept, i18n.language)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {moves.length > 0 && (
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">{t('machines.moveHistory')}</p>
+              <ul className="space-y-1 text-xs text-gray-600">
+                {moves.map((move) => (
+                  <li key={move.id} className="flex flex-wrap items-center gap-1">
+                    <span>{formatDateTime(move.moved_at, i18n.language)}</span>
+                    <span>·</span>
+                    <span>{getDepartmentName(move.from_department_id)}</span>
+                    <ArrowRight className="w-3 h-3" />
+                    <span>{getDepartmentName(move.to_department_id)}</span>
+                    {move.moved_by && (
+                      <span className="text-gray-500">({userNames.get(move.moved_by) ?? t('history.unknownUser')})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+            >
+              {t('common.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
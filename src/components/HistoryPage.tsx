@@ -1,14 +1,17 @@
 import { useEffect, useState } from 'react';
-import { History, Filter, ArrowRight, Calendar, User as UserIcon, MessageSquare } from 'lucide-react';
+import { History, Filter, ArrowRight, Calendar, User as UserIcon, MessageSquare, Tag, Cpu } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
 import { useTranslation } from 'react-i18next';
+import { localizedName } from '../lib/nameTranslations';
+import { formatDate, formatTime } from '../lib/format';
 
 type StatusHistory = Database['public']['Tables']['status_history']['Row'];
 type Machine = Database['public']['Tables']['machines']['Row'];
 type Department = Database['public']['Tables']['departments']['Row'];
 type StatusType = Database['public']['Tables']['status_types']['Row'];
+type StatusReason = Database['public']['Tables']['status_reasons']['Row'];
 
 interface HistoryEntry extends StatusHistory {
   machine?: Machine;
@@ -20,20 +23,22 @@ export default function HistoryPage() {
   const [machines, setMachines] = useState<Machine[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [reasons, setReasons] = useState<StatusReason[]>([]);
   const [loading, setLoading] = useState(true);
   const [machineFilter, setMachineFilter] = useState<string>('All');
   const [departmentFilter, setDepartmentFilter] = useState<string>('All');
-  const { user, profile } = useAuth();
-  const { t } = useTranslation();
+  const [reasonFilter, setReasonFilter] = useState<string>('All');
+  const { user, permissions } = useAuth();
+  const { t, i18n } = useTranslation();
 
   useEffect(() => {
     loadData();
-  }, [profile?.role, user]);
+  }, [permissions, user]);
 
   const loadData = async () => {
     try {
       setLoading(true);
-      await Promise.all([loadHistory(), loadMachines(), loadDepartments(), loadStatusTypes()]);
+      await Promise.all([loadHistory(), loadMachines(), loadDepartments(), loadStatusTypes(), loadReasons()]);
     } catch (error) {
       console.error('Error loading history:', error);
     } finally {
@@ -74,7 +79,7 @@ export default function HistoryPage() {
       const { data, error } = await supabase
         .from('status_types')
         .select('*')
-        .eq('is_active', true)
+        // Inactive statuses still appear in the history
         .order('display_order');
 
       if (error) throw error;
@@ -84,6 +89,20 @@ export default function HistoryPage() {
     }
   };
 
+  const loadReasons = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('status_reasons')
+        .select('*')
+        .order('display_order');
+
+      if (error) throw error;
+      setReasons(data || []);
+    } catch (error) {
+      console.error('Error loading status reasons:', error);
+    }
+  };
+
   const loadHistory = async () => {
     try {
       let query = supabase
@@ -91,25 +110,15 @@ export default function HistoryPage() {
         .select('*')
         .order('changed_at', { ascending: false });
 
-      if (user && profile?.role === 'operator') {
-        const { data: assignments } = await supabase
-          .from('machine_operators')
-          .select('machine_id')
-          .eq('user_id', user.id);
-
-        const machineIds = assignments?.map(a => a.machine_id) || [];
+      if (user && permissions.role === 'operator') {
+        const machineIds = permissions.operatorMachineIds;
         if (machineIds.length > 0) {
           query = query.in('machine_id', machineIds);
         } else {
           query = query.eq('machine_id', '00000000-0000-0000-0000-000000000000');
         }
-      } else if (user && profile?.role === 'team_leader') {
-        const { data: myDepts } = await supabase
-          .from('department_leaders')
-          .select('department_id')
-          .eq('user_id', user.id);
-
-        const deptIds = myDepts?.map(d => d.department_id) || [];
+      } else if (user && permissions.isTeamLeader) {
+        const deptIds = permissions.leaderDepartmentIds;
 
         if (deptIds.length > 0) {
           const { data: deptMachines } = await supabase
@@ -133,7 +142,9 @@ export default function HistoryPage() {
       if (historyError) throw historyError;
 
       const machineIds = [...new Set(historyData?.map(h => h.machine_id) || [])];
-      const userIds = [...new Set(historyData?.map(h => h.changed_by) || [])];
+      const userIds = [
+        ...new Set(historyData?.map(h => h.changed_by).filter((id): id is string => id !== null) || []),
+      ];
 
       const [{ data: machinesData }, { data: profiles }] = await Promise.all([
         supabase.from('machines').select('*').in('id', machineIds),
@@ -146,7 +157,9 @@ export default function HistoryPage() {
       const enrichedHistory = historyData?.map(h => ({
         ...h,
         machine: machineMap.get(h.machine_id),
-        user_name: userMap.get(h.changed_by) || 'Bilinmeyen Kullanıcı',
+        user_name: h.source === 'automatic'
+          ? t('history.automatic')
+          : (h.changed_by && userMap.get(h.changed_by)) || t('history.unknownUser'),
       })) || [];
 
       setHistory(enrichedHistory);
@@ -167,8 +180,25 @@ export default function HistoryPage() {
     filteredHistory = filteredHistory.filter(h => h.machine_id === machineFilter);
   }
 
-  const getStatusColor = (status: string) => {
-    const statusType = statusTypes.find(st => st.name === status);
+  if (reasonFilter !== 'All') {
+    filteredHistory = filteredHistory.filter(
+      h => h.reason_id === reasonFilter || h.sub_reason_id === reasonFilter
+    );
+  }
+
+  const getReasonName = (reasonId: string | null) =>
+    reasons.find(r => r.id === reasonId)?.name;
+
+  const topLevelReasons = reasons.filter(r => !r.parent_id);
+
+  // Name of the status type in the current language; the snapshot name if it is not loaded
+  const getStatusName = (statusTypeId: string | null, snapshot: string | null) => {
+    const statusType = statusTypes.find(st => st.id === statusTypeId);
+    return statusType ? localizedName(statusType, i18n.language) : snapshot;
+  };
+
+  const getStatusColor = (statusTypeId: string | null) => {
+    const statusType = statusTypes.find(st => st.id === statusTypeId);
     if (!statusType) return 'bg-gray-100 text-gray-800 border-gray-200';
 
     const colorMap: Record<string, string> = {
@@ -185,19 +215,11 @@ export default function HistoryPage() {
     return colorMap[statusType.color] || colorMap.gray;
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return {
-      date: date.toLocaleDateString(),
-      time: date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-    };
-  };
-
   if (loading) {
     return (
       <div className="text-center py-12">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
-        <p className="mt-4 text-gray-600">Geçmiş yükleniyor...</p>
+        <p className="mt-4 text-gray-600">{t('history.loading')}</p>
       </div>
     );
   }
@@ -207,62 +229,94 @@ export default function HistoryPage() {
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <History className="w-8 h-8 text-gray-700" />
-          <h2 className="text-2xl font-bold text-gray-900">Durum Değişikliği Geçmişi</h2>
+          <h2 className="text-2xl font-bold text-gray-900">{t('history.title')}</h2>
         </div>
       </div>
 
       <div className="bg-white border border-gray-200 rounded-lg p-4">
         <div className="flex items-center space-x-2 mb-3">
           <Filter className="w-5 h-5 text-gray-700" />
-          <h3 className="font-semibold text-gray-900">Filtreler</h3>
+          <h3 className="font-semibold text-gray-900">{t('history.filters')}</h3>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Bölüm
+              {t('history.department')}
             </label>
             <select
               value={departmentFilter}
               onChange={(e) => setDepartmentFilter(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
             >
-              <option value="All">Tüm Bölümler</option>
+              <option value="All">{t('history.allDepartments')}</option>
               {departments.map((dept) => (
                 <option key={dept.id} value={dept.id}>
-                  {dept.name}
+                  {localizedName(dept, i18n.language)}
                 </option>
               ))}
             </select>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Makine
+              {t('history.machine')}
             </label>
             <select
               value={machineFilter}
               onChange={(e) => setMachineFilter(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
             >
-              <option value="All">Tüm Makineler</option>
+              <option value="All">{t('history.allMachines')}</option>
               {machines.map((machine) => (
                 <option key={machine.id} value={machine.id}>
                   {machine.machine_code} - {machine.machine_name}
+                  {machine.archived_at && ` ${t('machines.archivedSuffix')}`}
                 </option>
               ))}
             </select>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('reasons.reason')}
+            </label>
+            <select
+              value={reasonFilter}
+              onChange={(e) => setReasonFilter(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            >
+              <option value="All">{t('reasons.allReasons')}</option>
+              {statusTypes
+                .filter((statusType) => topLevelReasons.some((r) => r.status_type_id === statusType.id))
+                .map((statusType) => (
+                  <optgroup key={statusType.id} label={localizedName(statusType, i18n.language)}>
+                    {topLevelReasons
+                      .filter((r) => r.status_type_id === statusType.id)
+                      .flatMap((reason) => [
+                        <option key={reason.id} value={reason.id}>
+                          {reason.name}
+                        </option>,
+                        ...reasons
+                          .filter((sub) => sub.parent_id === reason.id)
+                          .map((sub) => (
+                            <option key={sub.id} value={sub.id}>
+                              {reason.name} › {sub.name}
+                            </option>
+                          )),
+                      ])}
+                  </optgroup>
+                ))}
+            </select>
+          </div>
         </div>
       </div>
 
       {filteredHistory.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
           <History className="w-12 h-12 mx-auto mb-3 text-gray-300" />
-          <p className="text-gray-600">Geçmiş kaydı bulunamadı</p>
+          <p className="text-gray-600">{t('history.noRecords')}</p>
         </div>
       ) : (
         <div className="space-y-4">
           {filteredHistory.map((entry) => {
-            // const { date, time } = formatDate(entry.changed_at);
             const lastUpdate = new Date(entry.changed_at);
             return (
               <div
@@ -273,7 +327,7 @@ export default function HistoryPage() {
                   <div className="flex-1">
                     <div className="flex items-center space-x-2 mb-2">
                       <h3 className="text-lg font-bold text-gray-900">
-                        {entry.machine?.machine_code || 'Bilinmeyen Makine'}
+                        {entry.machine?.machine_code || t('history.unknownMachine')}
                       </h3>
                       <span className="text-sm text-gray-500">
                         {entry.machine?.machine_name}
@@ -282,8 +336,8 @@ export default function HistoryPage() {
                     <div className="flex items-center space-x-2 text-sm text-gray-600">
                       <Calendar className="w-4 h-4" />
                       {t('machines.updatedAt', {
-                        date: lastUpdate.toLocaleDateString(),
-                        time: lastUpdate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                        date: formatDate(lastUpdate, i18n.language),
+                        time: formatTime(lastUpdate, i18n.language),
                       })}
                       {/* <span>
                         {date} at {time}
@@ -295,20 +349,33 @@ export default function HistoryPage() {
                 <div className="flex items-center space-x-3 mb-4">
                   {entry.previous_status && (
                     <>
-                      <div className={`px-3 py-1 rounded-full text-sm font-semibold border ${getStatusColor(entry.previous_status)}`}>
-                        {entry.previous_status}
+                      <div className={`px-3 py-1 rounded-full text-sm font-semibold border ${getStatusColor(entry.previous_status_type_id)}`}>
+                        {getStatusName(entry.previous_status_type_id, entry.previous_status)}
                       </div>
                       <ArrowRight className="w-5 h-5 text-gray-400" />
                     </>
                   )}
-                  <div className={`px-3 py-1 rounded-full text-sm font-semibold border ${getStatusColor(entry.status)}`}>
-                    {entry.status}
+                  <div className={`px-3 py-1 rounded-full text-sm font-semibold border ${getStatusColor(entry.status_type_id)}`}>
+                    {getStatusName(entry.status_type_id, entry.status)}
                   </div>
+                  {entry.reason_id && (
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Tag className="w-4 h-4 mr-1" />
+                      <span>
+                        {getReasonName(entry.reason_id)}
+                        {entry.sub_reason_id && ` › ${getReasonName(entry.sub_reason_id)}`}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center space-x-4 pt-3 border-t border-gray-200">
                   <div className="flex items-center text-sm text-gray-600">
-                    <UserIcon className="w-4 h-4 mr-2" />
+                    {entry.source === 'automatic' ? (
+                      <Cpu className="w-4 h-4 mr-2" />
+                    ) : (
+                      <UserIcon className="w-4 h-4 mr-2" />
+                    )}
                     <span>{entry.user_name}</span>
                   </div>
 
@@ -1,22 +1,28 @@
 import { Globe } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { LANGUAGES, LANGUAGE_NAMES } from '../i18n/config';
 
 export default function LanguageSwitcher() {
-  const { i18n } = useTranslation();
-
-  const toggleLanguage = () => {
-    const newLang = i18n.language === 'tr' ? 'en' : 'tr';
-    i18n.changeLanguage(newLang);
-  };
+  const { t, i18n } = useTranslation();
 
   return (
-    <button
-      onClick={toggleLanguage}
+    <label
       className="flex items-center space-x-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
-      title={i18n.language === 'tr' ? 'Switch to English' : 'Türkçeye Geç'}
+      title={t('common.language')}
     >
       <Globe className="w-4 h-4" />
-      <span className="text-sm font-medium uppercase">{i18n.language}</span>
-    </button>
+      <select
+        value={i18n.language}
+        onChange={(e) => i18n.changeLanguage(e.target.value)}
+        aria-label={t('common.language')}
+        className="bg-transparent text-sm font-medium focus:outline-none cursor-pointer"
+      >
+        {LANGUAGES.map((language) => (
+          <option key={language} value={language}>
+            {LANGUAGE_NAMES[language]}
+          </option>
+        ))}
+      </select>
+    </label>
   );
 }
@@ -1,6 +1,7 @@
-import { Clock, AlertCircle } from 'lucide-react';
+import { Clock, AlertCircle, CloudOff, CalendarClock } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { Database } from '../lib/database.types';
+import { formatDate, formatTime } from '../lib/format';
 
 type Machine = Database['public']['Tables']['machines']['Row'];
 
@@ -9,7 +10,13 @@ interface MachineCardProps {
   onClick: () => void;
   canUpdate: boolean;
   statusColor: string;
+  // Status type name in the current language; defaults to the stored name
+  statusLabel?: string;
   maxLines?: number; // NEW
+  pendingCount?: number;
+  hasConflict?: boolean;
+  // Most urgent preventive maintenance plan that is upcoming or overdue
+  maintenanceDue?: { planName: string; state: 'upcoming' | 'overdue' };
 }
 
 const colorMap: Record<string, { color: string; textColor: string; bgColor: string; borderColor: string }> = {
@@ -63,8 +70,8 @@ const colorMap: Record<string, { color: string; textColor: string; bgColor: stri
   },
 };
 
-export default function MachineCard({ machine, onClick, canUpdate, statusColor, maxLines=2, }: MachineCardProps) {
-  const { t } = useTranslation();
+export default function MachineCard({ machine, onClick, canUpdate, statusColor, statusLabel, maxLines=2, pendingCount = 0, hasConflict = false, maintenanceDue }: MachineCardProps) {
+  const { t, i18n } = useTranslation();
   const config = colorMap[statusColor] || colorMap.gray;
   const lastUpdate = new Date(machine.last_updated_at);
 
@@ -99,20 +106,48 @@ export default function MachineCard({ machine, onClick, canUpdate, statusColor,
 
       <div className="flex items-center justify-between">
         <div className={`px-3 py-1 rounded-full text-sm font-semibold ${config.textColor} ${config.bgColor} border ${config.borderColor}`}>
-          {machine.current_status}
+          {statusLabel ?? machine.current_status}
         </div>
+        {(pendingCount > 0 || hasConflict) && (
+          <div
+            className={`flex items-center px-2 py-1 rounded-full text-xs font-semibold border ${
+              hasConflict
+                ? 'bg-red-50 text-red-700 border-red-200'
+                : 'bg-amber-50 text-amber-700 border-amber-200'
+            }`}
+            title={t('outbox.title')}
+          >
+            <CloudOff className="w-3 h-3 mr-1" />
+            <span>
+              {hasConflict ? t('outbox.conflictBadge') : t('outbox.pendingBadge', { count: pendingCount })}
+            </span>
+          </div>
+        )}
       </div>
 
       <div className="mt-3 pt-3 border-t border-gray-200 flex items-center text-xs text-gray-500">
         <Clock className="w-3 h-3 mr-1" />
         <span>
           {t('machines.updatedAt', {
-            date: lastUpdate.toLocaleDateString(),
-            time: lastUpdate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            date: formatDate(lastUpdate, i18n.language),
+            time: formatTime(lastUpdate, i18n.language)
           })}
         </span>
       </div>
 
+      {maintenanceDue && (
+        <div
+          className={`mt-2 flex items-center text-xs ${
+            maintenanceDue.state === 'overdue' ? 'text-red-600' : 'text-amber-600'
+          }`}
+        >
+          <CalendarClock className="w-3 h-3 mr-1" />
+          <span>
+            {t(`maintenance.${maintenanceDue.state}`, { plan: maintenanceDue.planName })}
+          </span>
+        </div>
+      )}
+
       {statusColor === 'red' && (
         <div className="mt-2 flex items-center text-xs text-red-600">
           <AlertCircle className="w-3 h-3 mr-1" />
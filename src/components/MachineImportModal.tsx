@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { X, Upload, Download, AlertCircle, CheckCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { downloadCsv } from '../lib/reportExport';
+import {
+  ImportIssue,
+  MachineImportPreview,
+  MachineImportRow,
+  parseCsv,
+  validateMachineImport,
+} from '../lib/machineImport';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+type Department = Database['public']['Tables']['departments']['Row'];
+
+interface MachineImportModalProps {
+  machines: Machine[];
+  departments: Department[];
+  // Departments team leaders may import into; null for admins
+  allowedDepartmentIds: string[] | null;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// Outcome per file line once the import has run; null means it succeeded
+type ImportResults = Map<number, string | null>;
+
+export default function MachineImportModal({
+  machines,
+  departments,
+  allowedDepartmentIds,
+  onClose,
+  onImported,
+}: MachineImportModalProps) {
+  const { t } = useTranslation();
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<MachineImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<ImportResults | null>(null);
+
+  const describeIssue = (issue: ImportIssue) => t(`machineImport.errors.${issue.key}`, issue.params);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setResults(null);
+    const csvRows = parseCsv(await file.text());
+    const firstPass = validateMachineImport(csvRows, machines, departments, allowedDepartmentIds);
+
+    // Codes are unique across all departments, including those the user cannot see
+    const newCodes = firstPass.rows
+      .filter((r) => !r.existingMachine && r.machineCode)
+      .map((r) => r.machineCode);
+    if (newCodes.length === 0) {
+      setPreview(firstPass);
+      return;
+    }
+
+    const { data: otherCodes, error } = await supabase.rpc('existing_machine_codes', { p_codes: newCodes });
+    if (error) console.error('Error checking machine codes:', error);
+    setPreview(validateMachineImport(csvRows, machines, departments, allowedDepartmentIds, otherCodes ?? []));
+  };
+
+  const importRow = async (row: MachineImportRow) => {
+    const values = {
+      machine_name: row.machineName,
+      description: row.description,
+      department_id: row.departmentId,
+      ideal_cycle_time_seconds: row.idealCycleTimeSeconds,
+    };
+
+    // Codes match ignoring case; an existing machine keeps its code as stored
+    const { error } = row.existingMachine
+      ? await supabase.from('machines').update(values).eq('id', row.existingMachine.id)
+      : await supabase.from('machines').insert({ ...values, machine_code: row.machineCode });
+
+    return error ? error.message : null;
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setImporting(true);
+    const outcome: ImportResults = new Map();
+    // One request per row so that a failing row is reported without stopping the rest
+    for (const row of preview.rows.filter((r) => r.errors.length === 0)) {
+      try {
+        outcome.set(row.line, await importRow(row));
+      } catch (error) {
+        outcome.set(row.line, error instanceof Error ? error.message : t('errors.savingError'));
+      }
+    }
+    setResults(outcome);
+    setImporting(false);
+    onImported();
+  };
+
+  const rowProblems = (row: MachineImportRow) => {
+    const problems = row.errors.map(describeIssue);
+    const serverError = results?.get(row.line);
+    if (serverError) problems.push(serverError);
+    return problems;
+  };
+
+  const handleDownloadReport = () => {
+    if (!preview) return;
+
+    downloadCsv(
+      {
+        name: 'Import errors',
+        headers: [t('machineImport.line'), 'machine_code', t('machineImport.error')],
+        rows: preview.rows.flatMap((row) =>
+          rowProblems(row).map((problem) => [row.line, row.machineCode, problem])
+        ),
+      },
+      `${fileName.replace(/\.csv$/i, '')}-errors.csv`
+    );
+  };
+
+  const validRows = preview?.rows.filter((r) => r.errors.length === 0) ?? [];
+  const invalidCount = (preview?.rows.length ?? 0) - validRows.length;
+  const failedCount = results ? [...results.values()].filter(Boolean).length : 0;
+  const hasProblems = invalidCount > 0 || failedCount > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-xl font-bold text-gray-900">{t('machineImport.title')}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="flex items-center justify-center space-x-2 px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+              <Upload className="w-5 h-5 text-gray-500" />
+              <span className="text-sm text-gray-700">{fileName || t('machineImport.chooseFile')}</span>
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+            <p className="mt-2 text-xs text-gray-500">
+              {t('machineImport.formatHint', { columns: 'machine_code, machine_name, description, department, ideal_cycle_time_seconds' })}
+            </p>
+          </div>
+
+          {preview?.fileErrors.map((issue) => (
+            <div key={issue.key} className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-600">{describeIssue(issue)}</p>
+            </div>
+          ))}
+
+          {preview && preview.rows.length > 0 && (
+            <>
+              <div className="flex items-center justify-between text-sm">
+                <p className="text-gray-700">
+                  {results
+                    ? t('machineImport.resultSummary', {
+                        imported: results.size - failedCount,
+                        failed: failedCount,
+                        skipped: invalidCount,
+                      })
+                    : t('machineImport.previewSummary', {
+                        create: validRows.filter((r) => !r.existingMachine).length,
+                        update: validRows.filter((r) => r.existingMachine).length,
+                        invalid: invalidCount,
+                      })}
+                </p>
+                {hasProblems && (
+                  <button
+                    onClick={handleDownloadReport}
+                    className="flex items-center space-x-1 px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    <Download className="w-3 h-3" />
+                    <span>{t('machineImport.downloadErrors')}</span>
+                  </button>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                        {t('machineImport.line')}
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                        {t('machines.machineCode')}
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                        {t('machines.machineName')}
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                        {t('machines.department')}
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                        {t('machineImport.result')}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.rows.map((row) => {
+                      const problems = rowProblems(row);
+                      const done = results?.has(row.line) && problems.length === 0;
+                      return (
+                        <tr key={row.line} className={problems.length > 0 ? 'bg-red-50' : ''}>
+                          <td className="px-3 py-2 text-sm text-gray-500">{row.line}</td>
+                          <td className="px-3 py-2 text-sm font-medium text-gray-900">{row.machineCode}</td>
+                          <td className="px-3 py-2 text-sm text-gray-600">{row.machineName}</td>
+                          <td className="px-3 py-2 text-sm text-gray-600">{row.departmentName}</td>
+                          <td className="px-3 py-2 text-sm">
+                            {problems.length > 0 ? (
+                              <ul className="text-red-600 space-y-0.5">
+                                {problems.map((problem) => (
+                                  <li key={problem}>{problem}</li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <span className="flex items-center space-x-1 text-gray-700">
+                                {done && <CheckCircle className="w-4 h-4 text-green-600" />}
+                                <span>
+                                  {row.existingMachine ? t('machineImport.update') : t('machineImport.create')}
+                                </span>
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex space-x-3 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            {results ? t('common.close') : t('common.cancel')}
+          </button>
+          {!results && (
+            <button
+              onClick={handleImport}
+              disabled={importing || validRows.length === 0}
+              className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+            >
+              {importing
+                ? t('machineImport.importing')
+                : t('machineImport.importRows', { count: validRows.length })}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
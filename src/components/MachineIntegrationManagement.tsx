@@ -0,0 +1,460 @@
+import { useEffect, useState } from 'react';
+import { Cpu, KeyRound, Plus, Trash2, Copy, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDateTime } from '../lib/format';
+import { localizedName } from '../lib/nameTranslations';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+type ApiKey = Database['public']['Tables']['machine_api_keys']['Row'];
+type SignalMapping = Database['public']['Tables']['signal_mappings']['Row'];
+type SignalState = Database['public']['Tables']['machine_signal_states']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+
+export default function MachineIntegrationManagement() {
+  const { t, i18n } = useTranslation();
+  const { permissions } = useAuth();
+  const { isAdmin } = permissions;
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [selectedMachineId, setSelectedMachineId] = useState('');
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [mappings, setMappings] = useState<SignalMapping[]>([]);
+  const [signalState, setSignalState] = useState<SignalState | null>(null);
+  const [debounceSeconds, setDebounceSeconds] = useState('');
+  const [keyName, setKeyName] = useState('');
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [mappingForm, setMappingForm] = useState({ signal_value: '', status: '', global: false });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [permissions]);
+
+  useEffect(() => {
+    setNewKey(null);
+    setError(null);
+    if (selectedMachineId) loadMachineData(selectedMachineId);
+  }, [selectedMachineId]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+
+      let machineQuery = supabase.from('machines').select('*').order('machine_code');
+      if (permissions.isTeamLeader) {
+        machineQuery =
+          permissions.leaderDepartmentIds.length > 0
+            ? machineQuery.in('department_id', permissions.leaderDepartmentIds)
+            : machineQuery.eq('id', '00000000-0000-0000-0000-000000000000');
+      }
+
+      const [{ data: machinesData, error: machinesError }, { data: statusData, error: statusError }] =
+        await Promise.all([
+          machineQuery,
+          supabase.from('status_types').select('*').eq('is_active', true).order('display_order'),
+        ]);
+
+      if (machinesError) throw machinesError;
+      if (statusError) throw statusError;
+
+      setMachines(machinesData || []);
+      setStatusTypes(statusData || []);
+      if (!selectedMachineId && machinesData && machinesData.length > 0) {
+        setSelectedMachineId(machinesData[0].id);
+      }
+    } catch (error) {
+      console.error('Error loading machine integration:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMachineData = async (machineId: string) => {
+    try {
+      const [keysRes, mappingsRes, stateRes] = await Promise.all([
+        supabase.from('machine_api_keys').select('*').eq('machine_id', machineId).order('created_at'),
+        supabase
+          .from('signal_mappings')
+          .select('*')
+          .or(`machine_id.eq.${machineId},machine_id.is.null`)
+          .order('signal_value'),
+        supabase.from('machine_signal_states').select('*').eq('machine_id', machineId).maybeSingle(),
+      ]);
+
+      if (keysRes.error) throw keysRes.error;
+      if (mappingsRes.error) throw mappingsRes.error;
+      if (stateRes.error) throw stateRes.error;
+
+      setApiKeys(keysRes.data || []);
+      setMappings(mappingsRes.data || []);
+      setSignalState(stateRes.data);
+    } catch (error) {
+      console.error('Error loading machine integration:', error);
+    }
+  };
+
+  const selectedMachine = machines.find((m) => m.id === selectedMachineId);
+
+  useEffect(() => {
+    if (selectedMachine) setDebounceSeconds(String(selectedMachine.signal_debounce_seconds));
+  }, [selectedMachine?.id]);
+
+  const handleSaveDebounce = async () => {
+    setError(null);
+    const seconds = Number(debounceSeconds);
+    if (!Number.isInteger(seconds) || seconds < 0) {
+      setError(t('integration.invalidDebounce'));
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('machines')
+        .update({ signal_debounce_seconds: seconds })
+        .eq('id', selectedMachineId);
+
+      if (error) throw error;
+      setMachines((prev) =>
+        prev.map((m) => (m.id === selectedMachineId ? { ...m, signal_debounce_seconds: seconds } : m))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleCreateKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const { data, error } = await supabase.rpc('create_machine_api_key', {
+        p_machine_id: selectedMachineId,
+        p_name: keyName.trim(),
+      });
+
+      if (error) throw error;
+      setNewKey(data);
+      setKeyName('');
+      loadMachineData(selectedMachineId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleRevokeKey = async (key: ApiKey) => {
+    if (!confirm(t('integration.revokeConfirm', { name: key.name || key.key_prefix }))) return;
+
+    try {
+      const { error } = await supabase
+        .from('machine_api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', key.id);
+
+      if (error) throw error;
+      loadMachineData(selectedMachineId);
+    } catch (error) {
+      console.error('Error revoking api key:', error);
+    }
+  };
+
+  const handleAddMapping = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const { error } = await supabase.from('signal_mappings').insert({
+        machine_id: mappingForm.global ? null : selectedMachineId,
+        signal_value: mappingForm.signal_value.trim(),
+        status: mappingForm.status,
+      });
+
+      if (error) throw error;
+      setMappingForm({ signal_value: '', status: '', global: false });
+      loadMachineData(selectedMachineId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleDeleteMapping = async (mapping: SignalMapping) => {
+    try {
+      const { error } = await supabase.from('signal_mappings').delete().eq('id', mapping.id);
+      if (error) throw error;
+      loadMachineData(selectedMachineId);
+    } catch (error) {
+      console.error('Error deleting signal mapping:', error);
+    }
+  };
+
+  // A machine mapping hides the global mapping for the same value
+  const overridden = (mapping: SignalMapping) =>
+    mapping.machine_id === null &&
+    mappings.some((m) => m.machine_id !== null && m.signal_value === mapping.signal_value);
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Cpu className="w-6 h-6 text-gray-700" />
+          <h2 className="text-xl font-bold text-gray-900">{t('integration.title')}</h2>
+        </div>
+        <select
+          value={selectedMachineId}
+          onChange={(e) => setSelectedMachineId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+        >
+          {machines.map((machine) => (
+            <option key={machine.id} value={machine.id}>
+              {machine.machine_code} - {machine.machine_name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!selectedMachine ? (
+        <div className="text-center py-8 bg-white border border-gray-200 rounded-lg">
+          <p className="text-gray-600">{t('machines.noMachines')}</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-200">
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('integration.debounce')}
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={debounceSeconds}
+                  onChange={(e) => setDebounceSeconds(e.target.value)}
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                />
+                <button
+                  onClick={handleSaveDebounce}
+                  disabled={debounceSeconds === String(selectedMachine.signal_debounce_seconds)}
+                  className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{t('integration.debounceHint')}</p>
+            </div>
+            <div className="text-sm text-gray-600 space-y-1">
+              <p className="font-semibold text-gray-700">{t('integration.lastSignal')}</p>
+              {signalState?.last_signal_at ? (
+                <>
+                  <p>
+                    <span className="font-mono">{signalState.last_signal}</span> ·{' '}
+                    {formatDateTime(signalState.last_signal_at, i18n.language)}
+                  </p>
+                  {signalState.pending_status && (
+                    <p className="text-yellow-700">
+                      {t('integration.pending', { status: signalState.pending_status })}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p>{t('integration.noSignal')}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="flex items-center space-x-2">
+              <KeyRound className="w-5 h-5 text-gray-700" />
+              <h3 className="text-lg font-semibold text-gray-900">{t('integration.apiKeys')}</h3>
+            </div>
+
+            {newKey && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+                <p className="text-sm text-green-800">{t('integration.newKeyHint')}</p>
+                <div className="flex items-center space-x-2">
+                  <code className="flex-1 px-2 py-1 bg-white border border-green-200 rounded text-sm break-all">
+                    {newKey}
+                  </code>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(newKey)}
+                    className="p-2 text-green-700 hover:bg-green-100 rounded transition-colors"
+                    title={t('integration.copy')}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {apiKeys.length > 0 && (
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                      {t('integration.keyName')}
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                      {t('integration.key')}
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                      {t('integration.lastUsed')}
+                    </th>
+                    <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {apiKeys.map((key) => (
+                    <tr key={key.id} className={key.revoked_at ? 'opacity-60' : ''}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{key.name}</td>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-600">{key.key_prefix}…</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">
+                        {key.last_used_at ? formatDateTime(key.last_used_at, i18n.language) : t('integration.never')}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {key.revoked_at ? (
+                          <span className="text-xs text-gray-500">{t('integration.revoked')}</span>
+                        ) : (
+                          <button
+                            onClick={() => handleRevokeKey(key)}
+                            className="px-3 py-1 rounded text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200 transition-colors"
+                          >
+                            {t('integration.revoke')}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <form onSubmit={handleCreateKey} className="flex space-x-2">
+              <input
+                type="text"
+                value={keyName}
+                onChange={(e) => setKeyName(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                placeholder={t('integration.keyNamePlaceholder')}
+              />
+              <button
+                type="submit"
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>{t('integration.createKey')}</span>
+              </button>
+            </form>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">{t('integration.mappings')}</h3>
+
+            {mappings.length === 0 ? (
+              <p className="text-sm text-gray-600">{t('integration.noMappings')}</p>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                      {t('integration.signalValue')}
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                      {t('export.status')}
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                      {t('alerts.scope')}
+                    </th>
+                    <th className="px-4 py-2 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {mappings.map((mapping) => (
+                    <tr key={mapping.id} className={overridden(mapping) ? 'opacity-60' : ''}>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-900">{mapping.signal_value}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{mapping.status}</td>
+                      <td className="px-4 py-2 text-sm text-gray-600">
+                        {mapping.machine_id ? selectedMachine.machine_code : t('alerts.allMachines')}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {(mapping.machine_id || isAdmin) && (
+                          <button
+                            onClick={() => handleDeleteMapping(mapping)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <form onSubmit={handleAddMapping} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={mappingForm.signal_value}
+                onChange={(e) => setMappingForm({ ...mappingForm, signal_value: e.target.value })}
+                className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                placeholder={t('integration.signalValue')}
+                required
+              />
+              <select
+                value={mappingForm.status}
+                onChange={(e) => setMappingForm({ ...mappingForm, status: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                required
+              >
+                <option value="">{t('status.selectStatus')}</option>
+                {statusTypes.map((statusType) => (
+                  <option key={statusType.id} value={statusType.name}>
+                    {localizedName(statusType, i18n.language)}
+                  </option>
+                ))}
+              </select>
+              {isAdmin && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={mappingForm.global}
+                    onChange={(e) => setMappingForm({ ...mappingForm, global: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  <span>{t('integration.allMachinesMapping')}</span>
+                </label>
+              )}
+              <button
+                type="submit"
+                className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>{t('integration.addMapping')}</span>
+              </button>
+            </form>
+          </div>
+
+          {error && (
+            <div className="p-6">
+              <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,47 @@
 import { useEffect, useState } from 'react';
-import { Settings, Plus, X, Trash2 } from 'lucide-react';
+import { Settings, Plus, X, Trash2, Edit2, Upload, Download, Archive, ArchiveRestore } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
+import { downloadCsv } from '../lib/reportExport';
+import { machinesToExportTable } from '../lib/machineImport';
+import MachineImportModal from './MachineImportModal';
+import EditMachineModal from './EditMachineModal';
+import { localizedName } from '../lib/nameTranslations';
 
 type Machine = Database['public']['Tables']['machines']['Row'];
 type Department = Database['public']['Tables']['departments']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
 
 export default function MachineManagement() {
+  const { t, i18n } = useTranslation();
   const [machines, setMachines] = useState<Machine[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [editingMachine, setEditingMachine] = useState<Machine | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const [formData, setFormData] = useState({
     machine_code: '',
     machine_name: '',
     description: '',
     department_id: '',
+    ideal_cycle_time_seconds: '',
   });
-  const { user, profile } = useAuth();
+  const { user, permissions } = useAuth();
 
   // useEffect(() => {
   //   loadData();
   // }, []);
   
-  const [teamLeaderDepartments, setTeamLeaderDepartments] = useState<string[]>([]); // NEW
+  const teamLeaderDepartments = permissions.leaderDepartmentIds;
   useEffect(() => {
     loadData();
   // profile değiştiğinde erişim kapsamı da değişebilir
-  }, [profile?.role, user?.id]);
+  }, [permissions]);
   
 
   const loadData = async () => {
@@ -38,20 +51,15 @@ export default function MachineManagement() {
       const { data: depts } = await supabase.from('departments').select('*').order('name');
       setDepartments(depts || []);
 
-      // let machineQuery = supabase.from('machines').select('*').order('machine_code');
-      if (profile?.role === 'team_leader') {
-        const { data: myDepts } = await supabase
-          .from('department_leaders')
-          .select('department_id')
-          .eq('user_id', user?.id);
-
-        const deptIds = myDepts?.map(d => d.department_id) || [];
-        setTeamLeaderDepartments(deptIds);
+      const { data: statusTypesData } = await supabase.from('status_types').select('*');
+      setStatusTypes(statusTypesData || []);
 
+      // let machineQuery = supabase.from('machines').select('*').order('machine_code');
+      if (permissions.isTeamLeader) {
         // Makineleri sadece kendi bölümlerine göre göster
         let machineQuery = supabase.from('machines').select('*').order('machine_code');
-        if (deptIds.length > 0) {
-          machineQuery = machineQuery.in('department_id', deptIds);
+        if (teamLeaderDepartments.length > 0) {
+          machineQuery = machineQuery.in('department_id', teamLeaderDepartments);
         } else {
           // Hiç bölümü yoksa boş sonuç
           machineQuery = machineQuery.eq('id', '00000000-0000-0000-0000-000000000000');
@@ -91,27 +99,30 @@ export default function MachineManagement() {
 
   // --- Bölüm listesi: admin tümünü görür, team_leader sadece kendi bölümlerini ---
   const availableDepartments: Department[] =
-    profile?.role === 'admin'
+    permissions.isAdmin
       ? departments
-      : departments.filter(dept => teamLeaderDepartments.includes(dept.id));
+      : departments.filter(dept => permissions.canManageDepartment(dept.id));
 
   // Modal açıldığında ve yalnızca 1 uygun bölüm varsa otomatik seç
   useEffect(() => {
-    if (showModal && profile?.role === 'team_leader' && availableDepartments.length === 1) {
+    if (showModal && permissions.isTeamLeader && availableDepartments.length === 1) {
       setFormData(prev => ({ ...prev, department_id: availableDepartments[0].id }));
     }
-  }, [showModal, profile?.role, availableDepartments]);
+  }, [showModal, permissions.isTeamLeader, availableDepartments]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     try {
+      // The database starts new machines in the initial status type
       const { error } = await supabase.from('machines').insert({
         machine_code: formData.machine_code,
         machine_name: formData.machine_name,
         description: formData.description,
-        current_status: 'Beklemede',
         department_id: formData.department_id || null,
+        ideal_cycle_time_seconds: formData.ideal_cycle_time_seconds
+          ? Number(formData.ideal_cycle_time_seconds)
+          : null,
       });
 
       if (error) throw error;
@@ -121,6 +132,7 @@ export default function MachineManagement() {
         machine_name: '',
         description: '',
         department_id: '',
+        ideal_cycle_time_seconds: '',
       });
       setShowModal(false);
       loadData();
@@ -129,11 +141,46 @@ export default function MachineManagement() {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this machine?')) return;
+  const handleArchive = async (machine: Machine) => {
+    if (!confirm(t('machines.archiveConfirm', { code: machine.machine_code }))) return;
+
+    try {
+      const { error } = await supabase
+        .from('machines')
+        .update({ archived_at: new Date().toISOString(), archived_by: user?.id ?? null })
+        .eq('id', machine.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error archiving machine:', error);
+    }
+  };
 
+  const handleRestore = async (machine: Machine) => {
     try {
-      const { error } = await supabase.from('machines').delete().eq('id', id);
+      const { error } = await supabase
+        .from('machines')
+        .update({ archived_at: null, archived_by: null })
+        .eq('id', machine.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error restoring machine:', error);
+    }
+  };
+
+  // Deleting cascades to the machine's history, so the admin is told how much is lost
+  const handleDelete = async (machine: Machine) => {
+    try {
+      const { count, error: countError } = await supabase
+        .from('status_history')
+        .select('id', { count: 'exact', head: true })
+        .eq('machine_id', machine.id);
+      if (countError) throw countError;
+
+      if (!confirm(t('machines.hardDeleteConfirm', { code: machine.machine_code, count: count ?? 0 }))) return;
+
+      const { error } = await supabase.from('machines').delete().eq('id', machine.id);
       if (error) throw error;
       loadData();
     } catch (error) {
@@ -141,9 +188,41 @@ export default function MachineManagement() {
     }
   };
 
+  const handleCycleTimeChange = async (machine: Machine, value: string) => {
+    const seconds = value ? Number(value) : null;
+    if (seconds === machine.ideal_cycle_time_seconds) return;
+    if (seconds !== null && !(seconds > 0)) return;
+
+    try {
+      const { error } = await supabase
+        .from('machines')
+        .update({ ideal_cycle_time_seconds: seconds })
+        .eq('id', machine.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error updating ideal cycle time:', error);
+    }
+  };
+
+  const activeMachines = machines.filter((m) => !m.archived_at);
+  const archivedMachines = machines.filter((m) => m.archived_at);
+  const visibleMachines = showArchived ? archivedMachines : activeMachines;
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadCsv(machinesToExportTable(activeMachines, departments), `machines-${date}.csv`);
+  };
+
   const getDepartmentName = (deptId: string | null) => {
-    if (!deptId) return 'Unassigned';
-    return departments.find((d) => d.id === deptId)?.name || 'Unknown';
+    if (!deptId) return t('machines.noDepartment');
+    const dept = departments.find((d) => d.id === deptId);
+    return dept ? localizedName(dept, i18n.language) : t('common.unknown');
+  };
+
+  const getStatusName = (statusTypeId: string, snapshot: string) => {
+    const statusType = statusTypes.find((st) => st.id === statusTypeId);
+    return statusType ? localizedName(statusType, i18n.language) : snapshot;
   };
 
 
@@ -185,16 +264,45 @@ export default function MachineManagement() {
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <Settings className="w-6 h-6 text-gray-700" />
-          <h2 className="text-xl font-bold text-gray-900">Makine Yönetimi</h2>
+          <h2 className="text-xl font-bold text-gray-900">{t('machines.management')}</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className={`flex items-center space-x-2 px-4 py-2 border rounded-lg transition-colors ${
+              showArchived
+                ? 'bg-gray-100 border-gray-400 text-gray-900'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <Archive className="w-4 h-4" />
+            <span>{t('machines.archived', { count: archivedMachines.length })}</span>
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={activeMachines.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            <span>{t('machineImport.export')}</span>
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={permissions.isTeamLeader && availableDepartments.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{t('machineImport.import')}</span>
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            disabled={permissions.isTeamLeader && availableDepartments.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t('machines.addMachine')}</span>
+          </button>
         </div>
-        <button
-          onClick={() => setShowModal(true)}
-          disabled={profile?.role === 'team_leader' && availableDepartments.length === 0}
-          className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Makine Ekle</span>
-        </button>
         {/* <button
           onClick={() => setShowModal(true)}
           className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
@@ -209,26 +317,29 @@ export default function MachineManagement() {
           <thead className="bg-gray-50 border-b border-gray-200">
             <tr>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                Kod
+                {t('machines.machineCode')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                Ad
+                {t('machines.machineName')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                Bölüm
+                {t('machines.department')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                Durum
+                {t('machines.currentStatus')}
               </th>
-              {profile?.role === 'admin' && (
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                {t('oee.idealCycleTime')}
+              </th>
+              {permissions.canAccessManagement && (
                 <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase">
-                  İşlemler
+                  {t('common.actions')}
                 </th>
               )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
-            {machines.map((machine) => (
+            {visibleMachines.map((machine) => (
               <tr key={machine.id} className="hover:bg-gray-50">
                 <td className="px-6 py-4 text-sm font-medium text-gray-900">
                   {machine.machine_code}
@@ -237,15 +348,58 @@ export default function MachineManagement() {
                 <td className="px-6 py-4 text-sm text-gray-600">
                   {getDepartmentName(machine.department_id)}
                 </td>
-                <td className="px-6 py-4 text-sm">{machine.current_status}</td>
-                {profile?.role === 'admin' && (
+                <td className="px-6 py-4 text-sm">
+                  {getStatusName(machine.current_status_id, machine.current_status)}
+                </td>
+                <td className="px-6 py-4 text-sm">
+                  <input
+                    key={machine.ideal_cycle_time_seconds ?? ''}
+                    type="number"
+                    min="0"
+                    step="any"
+                    defaultValue={machine.ideal_cycle_time_seconds ?? ''}
+                    onBlur={(e) => handleCycleTimeChange(machine, e.target.value)}
+                    className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                    placeholder={t('oee.seconds')}
+                  />
+                </td>
+                {permissions.canAccessManagement && (
                   <td className="px-6 py-4 text-right">
-                    <button
-                      onClick={() => handleDelete(machine.id)}
-                      className="text-red-600 hover:text-red-800 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    <div className="flex items-center justify-end space-x-3">
+                      {machine.archived_at ? (
+                        <button
+                          onClick={() => handleRestore(machine)}
+                          className="text-green-600 hover:text-green-800 transition-colors"
+                          title={t('machines.restore')}
+                        >
+                          <ArchiveRestore className="w-4 h-4" />
+                        </button>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => setEditingMachine(machine)}
+                            className="text-blue-600 hover:text-blue-800 transition-colors"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleArchive(machine)}
+                            className="text-gray-600 hover:text-gray-800 transition-colors"
+                            title={t('machines.archive')}
+                          >
+                            <Archive className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {permissions.isAdmin && (
+                        <button
+                          onClick={() => handleDelete(machine)}
+                          className="text-red-600 hover:text-red-800 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
                   </td>
                 )}
               </tr>
@@ -258,7 +412,7 @@ export default function MachineManagement() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <h3 className="text-xl font-bold text-gray-900">Makine Ekle</h3>
+              <h3 className="text-xl font-bold text-gray-900">{t('machines.addMachine')}</h3>
               <button
                 onClick={() => setShowModal(false)}
                 className="text-gray-400 hover:text-gray-600"
@@ -270,48 +424,48 @@ export default function MachineManagement() {
             <form onSubmit={handleSubmit} className="p-6 space-y-4">
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Makine Kodu
+                  {t('machines.machineCode')}
                 </label>
                 <input
                   type="text"
                   value={formData.machine_code}
                   onChange={(e) => setFormData({ ...formData, machine_code: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="e.g., M006"
+                  placeholder={t('machines.machineCodePlaceholder')}
                   required
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Makine Adı
+                  {t('machines.machineName')}
                 </label>
                 <input
                   type="text"
                   value={formData.machine_name}
                   onChange={(e) => setFormData({ ...formData, machine_name: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="e.g., CNC Machine B"
+                  placeholder={t('machines.machineNamePlaceholder')}
                   required
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Açıklama
+                  {t('machines.description')}
                 </label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                   rows={2}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="Kısa açıklama"
+                  placeholder={t('machines.descriptionPlaceholder')}
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Bölüm
+                  {t('machines.department')}
                 </label>
                 <select
                   value={formData.department_id}
@@ -319,34 +473,71 @@ export default function MachineManagement() {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
                   required
                 >
-                  <option value="">Bölüm Seç</option>
+                  <option value="">{t('machines.selectDepartment')}</option>
                   {availableDepartments.map((dept) => (
                     <option key={dept.id} value={dept.id}>
-                      {dept.name}
+                      {localizedName(dept, i18n.language)}
                     </option>
                   ))}
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('oee.idealCycleTimeSeconds')}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={formData.ideal_cycle_time_seconds}
+                  onChange={(e) =>
+                    setFormData({ ...formData, ideal_cycle_time_seconds: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  placeholder={t('oee.optional')}
+                />
+              </div>
+
               <div className="flex space-x-3 pt-4">
                 <button
                   type="button"
                   onClick={() => setShowModal(false)}
                   className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
                 >
-                  İptal
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="submit"
                   className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
                 >
-                  Makine Ekle
+                  {t('machines.addMachine')}
                 </button>
               </div>
             </form>
           </div>
         </div>
       )}
+
+      {editingMachine && (
+        <EditMachineModal
+          machine={editingMachine}
+          availableDepartments={availableDepartments}
+          departments={departments}
+          onClose={() => setEditingMachine(null)}
+          onSaved={loadData}
+        />
+      )}
+
+      {showImport && (
+        <MachineImportModal
+          machines={machines}
+          departments={departments}
+          allowedDepartmentIds={permissions.isAdmin ? null : teamLeaderDepartments}
+          onClose={() => setShowImport(false)}
+          onImported={loadData}
+        />
+      )}
     </div>
   );
 }
@@ -1,31 +1,38 @@
 import { useEffect, useState } from 'react';
 import { Activity, RefreshCw, Filter } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import MachineCard from './MachineCard';
 import { useAuth } from '../contexts/AuthContext';
+import { useOutbox } from '../contexts/OutboxContext';
+import { fetchPmPlanStatus, pmState, PmPlanStatus } from '../lib/preventiveMaintenance';
+import { localizedName } from '../lib/nameTranslations';
 
 type Machine = Database['public']['Tables']['machines']['Row'];
 type Department = Database['public']['Tables']['departments']['Row'];
 type StatusType = Database['public']['Tables']['status_types']['Row'];
+type PmPlan = Database['public']['Tables']['pm_plans']['Row'];
 
 interface MachineOverviewProps {
   onMachineSelect: (machine: Machine) => void;
 }
 
 export default function MachineOverview({ onMachineSelect }: MachineOverviewProps) {
+  const { t, i18n } = useTranslation();
   const [machines, setMachines] = useState<Machine[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [pmPlans, setPmPlans] = useState<PmPlan[]>([]);
+  const [pmStatus, setPmStatus] = useState<PmPlanStatus[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>('All');
   const [departmentFilter, setDepartmentFilter] = useState<string>('All');
   const [machineFilter, setMachineFilter] = useState<string>('');
-  const { profile, user } = useAuth();
+  const { user, permissions } = useAuth();
+  const { entriesForMachine } = useOutbox();
 
-  const canUpdate = profile?.role === 'admin' || profile?.role === 'team_leader' || profile?.role === 'operator';
-  const isAdmin = profile?.role === 'admin';
-  const showFilters = !user || isAdmin;
+  const showFilters = !user || permissions.isAdmin;
 
   useEffect(() => {
     loadData();
@@ -48,10 +55,10 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [profile?.role]);
+  }, [permissions.role]);
 
   const loadData = async () => {
-    await Promise.all([loadMachines(), loadDepartments(), loadStatusTypes()]);
+    await Promise.all([loadMachines(), loadDepartments(), loadStatusTypes(), loadMaintenance()]);
   };
 
   const loadDepartments = async () => {
@@ -83,12 +90,28 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
     }
   };
 
+  const loadMaintenance = async () => {
+    try {
+      const [{ data, error }, status] = await Promise.all([
+        supabase.from('pm_plans').select('*').eq('is_active', true),
+        fetchPmPlanStatus(!!user),
+      ]);
+
+      if (error) throw error;
+      setPmPlans(data || []);
+      setPmStatus(status);
+    } catch (error) {
+      console.error('Error loading maintenance plans:', error);
+    }
+  };
+
   const loadMachines = async () => {
     try {
       setLoading(true);
       const { data, error } = await supabase
         .from('machines')
         .select('*')
+        .is('archived_at', null)
         .order('machine_code');
 
       if (error) throw error;
@@ -103,7 +126,7 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
   let filteredMachines = machines;
 
   if (statusFilter !== 'All') {
-    filteredMachines = filteredMachines.filter(m => m.current_status === statusFilter);
+    filteredMachines = filteredMachines.filter(m => m.current_status_id === statusFilter);
   }
 
   if (departmentFilter !== 'All') {
@@ -124,16 +147,27 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
   };
 
   statusTypes.forEach(statusType => {
-    statusCounts[statusType.name] = machines.filter(m => m.current_status === statusType.name).length;
+    statusCounts[statusType.id] = machines.filter(m => m.current_status_id === statusType.id).length;
   });
 
   const getDepartmentName = (deptId: string | null) => {
-    if (!deptId) return 'Unassigned';
-    return departments.find(d => d.id === deptId)?.name || 'Unknown';
+    if (!deptId) return t('machines.noDepartment');
+    const dept = departments.find(d => d.id === deptId);
+    return dept ? localizedName(dept, i18n.language) : t('common.unknown');
+  };
+
+  const getMaintenanceDue = (machineId: string) => {
+    const due = pmStatus
+      .filter(ps => ps.machine_id === machineId && pmState(ps) !== 'ok')
+      .sort((a, b) => b.progress - a.progress)[0];
+    if (!due) return undefined;
+
+    const state = pmState(due) === 'overdue' ? 'overdue' : 'upcoming';
+    return { planName: pmPlans.find(p => p.id === due.plan_id)?.name || '', state } as const;
   };
 
-  const getStatusColor = (statusName: string) => {
-    const statusType = statusTypes.find(st => st.name === statusName);
+  const getStatusColor = (statusTypeId: string) => {
+    const statusType = statusTypes.find(st => st.id === statusTypeId);
     if (!statusType) return { bg: 'bg-gray-100', text: 'text-gray-700', border: 'border-gray-300' };
 
     const colorMap: Record<string, { bg: string; text: string; border: string }> = {
@@ -155,7 +189,7 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <Activity className="w-8 h-8 text-gray-700" />
-          <h2 className="text-2xl font-bold text-gray-900">Makine Durum Panosu</h2>
+          <h2 className="text-2xl font-bold text-gray-900">{t('overview.title')}</h2>
         </div>
         <button
           onClick={loadData}
@@ -163,7 +197,7 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
           className="flex items-center space-x-2 px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
         >
           <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-          <span>Yenile</span>
+          <span>{t('common.refresh')}</span>
         </button>
       </div>
 
@@ -171,35 +205,35 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
         <div className="bg-white border border-gray-200 rounded-lg p-4">
           <div className="flex items-center space-x-2 mb-3">
             <Filter className="w-5 h-5 text-gray-700" />
-            <h3 className="font-semibold text-gray-900">Filteler</h3>
+            <h3 className="font-semibold text-gray-900">{t('history.filters')}</h3>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Bölüm
+                {t('history.department')}
               </label>
               <select
                 value={departmentFilter}
                 onChange={(e) => setDepartmentFilter(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
               >
-                <option value="All">Tüm Bölümler</option>
+                <option value="All">{t('history.allDepartments')}</option>
                 {departments.map((dept) => (
                   <option key={dept.id} value={dept.id}>
-                    {dept.name}
+                    {localizedName(dept, i18n.language)}
                   </option>
                 ))}
               </select>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Makine Ara
+                {t('overview.searchMachine')}
               </label>
               <input
                 type="text"
                 value={machineFilter}
                 onChange={(e) => setMachineFilter(e.target.value)}
-                placeholder="Kod veya ad ile ara..."
+                placeholder={t('machines.searchPlaceholder')}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
               />
             </div>
@@ -209,6 +243,7 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
 
       <div className="flex flex-wrap gap-2">
         {Object.entries(statusCounts).map(([status, count]) => {
+          const statusType = statusTypes.find(st => st.id === status);
           const colors = status === 'All'
             ? { bg: 'bg-white', text: 'text-gray-700', border: 'border-gray-300' }
             : getStatusColor(status);
@@ -223,7 +258,7 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
                   : `${colors.bg} ${colors.text} ${colors.border} hover:opacity-80`
               }`}
             >
-              {status} ({count})
+              {status === 'All' ? t('common.all') : statusType && localizedName(statusType, i18n.language)} ({count})
             </button>
           );
         })}
@@ -232,23 +267,28 @@ export default function MachineOverview({ onMachineSelect }: MachineOverviewProp
       {loading && machines.length === 0 ? (
         <div className="text-center py-12">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Makineler yükleniyor...</p>
+          <p className="mt-4 text-gray-600">{t('overview.loadingMachines')}</p>
         </div>
       ) : filteredMachines.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
-          <p className="text-gray-600">Filtrelerinle eşleşen makine bulunamadı</p>
+          <p className="text-gray-600">{t('overview.noMatches')}</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {filteredMachines.map((machine) => {
-            const statusType = statusTypes.find(st => st.name === machine.current_status);
+            const statusType = statusTypes.find(st => st.id === machine.current_status_id);
+            const outboxEntries = entriesForMachine(machine.id);
             return (
               <MachineCard
                 key={machine.id}
                 machine={machine}
                 onClick={() => onMachineSelect(machine)}
-                canUpdate={canUpdate}
+                canUpdate={!!user && permissions.canUpdateMachine(machine)}
                 statusColor={statusType?.color || 'gray'}
+                statusLabel={statusType && localizedName(statusType, i18n.language)}
+                pendingCount={outboxEntries.filter(e => e.state === 'pending').length}
+                hasConflict={outboxEntries.some(e => e.state !== 'pending')}
+                maintenanceDue={getMaintenanceDue(machine.id)}
               />
             );
           })}
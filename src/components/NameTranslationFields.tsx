@@ -0,0 +1,38 @@
+import { useTranslation } from 'react-i18next';
+import { LANGUAGES } from '../i18n/config';
+import { NameTranslations } from '../lib/nameTranslations';
+
+interface NameTranslationFieldsProps {
+  name: string;
+  value: NameTranslations;
+  onChange: (value: NameTranslations) => void;
+}
+
+export default function NameTranslationFields({ name, value, onChange }: NameTranslationFieldsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-gray-700 mb-2">
+        {t('nameTranslations.title')}
+      </label>
+      <div className="space-y-2">
+        {LANGUAGES.map((language) => (
+          <div key={language} className="flex items-center space-x-3">
+            <span className="w-20 text-xs font-medium text-gray-600">
+              {t(`nameTranslations.languages.${language}`)}
+            </span>
+            <input
+              type="text"
+              value={value[language] ?? ''}
+              onChange={(e) => onChange({ ...value, [language]: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              placeholder={name}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">{t('nameTranslations.hint')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+import { useEffect, useState } from 'react';
+import { Mail, Webhook, Plus, X, Edit2, Trash2, Send, RotateCw, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDateTime } from '../lib/format';
+import { localizedName } from '../lib/nameTranslations';
+
+type Channel = Database['public']['Tables']['notification_channels']['Row'];
+type ChannelType = Channel['channel_type'];
+type Delivery = Database['public']['Tables']['notification_deliveries']['Row'];
+type DeliveryState = Delivery['state'];
+type Department = Database['public']['Tables']['departments']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+
+const CHANNEL_TYPES: ChannelType[] = ['email', 'webhook'];
+
+const DELIVERY_STATE_COLORS: Record<DeliveryState, string> = {
+  pending: 'bg-gray-100 text-gray-800 border-gray-200',
+  sending: 'bg-blue-100 text-blue-800 border-blue-200',
+  sent: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const emptyForm = () => ({
+  channel_type: 'email' as ChannelType,
+  target: '',
+  department_ids: [] as string[],
+  status_names: [] as string[],
+});
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+export default function NotificationSettings() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<Channel | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [channelsRes, deliveriesRes, departmentsRes, statusTypesRes] = await Promise.all([
+        supabase.from('notification_channels').select('*').order('created_at'),
+        supabase
+          .from('notification_deliveries')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(50),
+        supabase.from('departments').select('*').order('name'),
+        supabase.from('status_types').select('*').eq('is_active', true).order('display_order'),
+      ]);
+
+      if (channelsRes.error) throw channelsRes.error;
+      if (deliveriesRes.error) throw deliveriesRes.error;
+      if (departmentsRes.error) throw departmentsRes.error;
+      if (statusTypesRes.error) throw statusTypesRes.error;
+
+      setChannels(channelsRes.data || []);
+      setDeliveries(deliveriesRes.data || []);
+      setDepartments(departmentsRes.data || []);
+      setStatusTypes(statusTypesRes.data || []);
+    } catch (error) {
+      console.error('Error loading notification channels:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const target = formData.target.trim();
+    if (formData.channel_type === 'webhook' && !/^https?:\/\//i.test(target)) {
+      setError(t('notifications.invalidUrl'));
+      return;
+    }
+
+    const values = {
+      channel_type: formData.channel_type,
+      target,
+      department_ids: formData.department_ids,
+      status_names: formData.status_names,
+    };
+
+    try {
+      if (editingChannel) {
+        const { error } = await supabase
+          .from('notification_channels')
+          .update(values)
+          .eq('id', editingChannel.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('notification_channels')
+          .insert({ ...values, user_id: user!.id });
+        if (error) throw error;
+      }
+
+      closeModal();
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleToggleActive = async (channel: Channel) => {
+    try {
+      const { error } = await supabase
+        .from('notification_channels')
+        .update({ is_active: !channel.is_active })
+        .eq('id', channel.id);
+
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error toggling notification channel:', error);
+    }
+  };
+
+  const handleDelete = async (channel: Channel) => {
+    if (!confirm(t('notifications.deleteConfirm', { target: channel.target }))) return;
+
+    try {
+      const { error } = await supabase.from('notification_channels').delete().eq('id', channel.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting notification channel:', error);
+    }
+  };
+
+  const handleSendTest = async (channel: Channel) => {
+    setBusyId(channel.id);
+    try {
+      const { error } = await supabase.rpc('send_test_notification', { p_channel_id: channel.id });
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error sending test notification:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetry = async (delivery: Delivery) => {
+    setBusyId(delivery.id);
+    try {
+      const { error } = await supabase.rpc('retry_notification_delivery', {
+        p_delivery_id: delivery.id,
+      });
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error retrying notification delivery:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openEditModal = (channel: Channel) => {
+    setEditingChannel(channel);
+    setFormData({
+      channel_type: channel.channel_type,
+      target: channel.target,
+      department_ids: channel.department_ids,
+      status_names: channel.status_names,
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingChannel(null);
+    setFormData(emptyForm());
+    setError(null);
+  };
+
+  const describeFilter = (channel: Channel) => {
+    const departmentNames = channel.department_ids
+      .map((id) => departments.find((d) => d.id === id))
+      .filter((d): d is Department => !!d)
+      .map((d) => localizedName(d, i18n.language));
+    // Channels keep the statuses by name
+    const statusNames = channel.status_names.map((name) => {
+      const statusType = statusTypes.find((st) => st.name === name);
+      return statusType ? localizedName(statusType, i18n.language) : name;
+    });
+    return [
+      departmentNames.length > 0 ? departmentNames.join(', ') : t('history.allDepartments'),
+      statusNames.length > 0 ? statusNames.join(', ') : t('notifications.allStatuses'),
+    ].join(' · ');
+  };
+
+  const ownChannels = channels.filter((c) => c.user_id === user?.id);
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Mail className="w-6 h-6 text-gray-700" />
+          <h2 className="text-xl font-bold text-gray-900">{t('notifications.title')}</h2>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('notifications.addChannel')}</span>
+        </button>
+      </div>
+
+      {ownChannels.length === 0 ? (
+        <div className="text-center py-8 bg-white border border-gray-200 rounded-lg">
+          <p className="text-gray-600">{t('notifications.noChannels')}</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('notifications.target')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('notifications.filter')}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {ownChannels.map((channel) => (
+                <tr key={channel.id} className={channel.is_active ? 'hover:bg-gray-50' : 'bg-gray-50 opacity-60'}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    <div className="flex items-center space-x-2">
+                      {channel.channel_type === 'email' ? (
+                        <Mail className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      ) : (
+                        <Webhook className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      )}
+                      <span className="break-all">{channel.target}</span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeFilter(channel)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => handleSendTest(channel)}
+                        disabled={busyId === channel.id || !channel.is_active}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                        title={t('notifications.sendTest')}
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(channel)}
+                        className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                          channel.is_active
+                            ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                            : 'bg-green-100 text-green-800 hover:bg-green-200'
+                        }`}
+                      >
+                        {channel.is_active ? t('maintenance.deactivate') : t('maintenance.activate')}
+                      </button>
+                      <button
+                        onClick={() => openEditModal(channel)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(channel)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('notifications.deliveryLog')}</h3>
+        {deliveries.length === 0 ? (
+          <div className="text-center py-8 bg-white border border-gray-200 rounded-lg">
+            <p className="text-gray-600">{t('notifications.noDeliveries')}</p>
+          </div>
+        ) : (
+          <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                    {t('notifications.queuedAt')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                    {t('notifications.target')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                    {t('notifications.state')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                    {t('notifications.lastError')}
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {deliveries.map((delivery) => {
+                  const channel = channels.find((c) => c.id === delivery.channel_id);
+                  return (
+                    <tr key={delivery.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                        {formatDateTime(delivery.created_at, i18n.language)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 break-all">{channel?.target}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <span
+                          className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold border ${DELIVERY_STATE_COLORS[delivery.state]}`}
+                        >
+                          {t(`notifications.states.${delivery.state}`)}
+                        </span>
+                        {delivery.attempts > 0 && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {t('notifications.attempts', { count: delivery.attempts })}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-red-600">{delivery.last_error}</td>
+                      <td className="px-6 py-4 text-right">
+                        {delivery.state === 'failed' && (
+                          <button
+                            onClick={() => handleRetry(delivery)}
+                            disabled={busyId === delivery.id}
+                            className="flex items-center space-x-1 ml-auto px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            <RotateCw className="w-3 h-3" />
+                            <span>{t('notifications.retry')}</span>
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingChannel ? t('notifications.editChannel') : t('notifications.addChannel')}
+              </h3>
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('notifications.channelType')}
+                </label>
+                <select
+                  value={formData.channel_type}
+                  onChange={(e) => setFormData({ ...formData, channel_type: e.target.value as ChannelType })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                >
+                  {CHANNEL_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {t(`notifications.channelTypes.${type}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {formData.channel_type === 'email' ? t('notifications.emailAddress') : t('notifications.webhookUrl')}
+                </label>
+                <input
+                  type={formData.channel_type === 'email' ? 'email' : 'url'}
+                  value={formData.target}
+                  onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  placeholder={
+                    formData.channel_type === 'email' ? 'name@example.com' : 'https://hooks.example.com/...'
+                  }
+                  required
+                />
+                {formData.channel_type === 'webhook' && (
+                  <p className="mt-1 text-xs text-gray-500">{t('notifications.webhookHint')}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('history.department')}
+                </label>
+                <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg p-2 space-y-1">
+                  {departments.map((dept) => (
+                    <label key={dept.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.department_ids.includes(dept.id)}
+                        onChange={() =>
+                          setFormData({ ...formData, department_ids: toggle(formData.department_ids, dept.id) })
+                        }
+                        className="rounded border-gray-300"
+                      />
+                      <span>{localizedName(dept, i18n.language)}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">{t('notifications.emptyMeansAll')}</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('export.status')}
+                </label>
+                <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg p-2 space-y-1">
+                  {statusTypes.map((statusType) => (
+                    <label key={statusType.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.status_names.includes(statusType.name)}
+                        onChange={() =>
+                          setFormData({ ...formData, status_names: toggle(formData.status_names, statusType.name) })
+                        }
+                        className="rounded border-gray-300"
+                      />
+                      <span>{localizedName(statusType, i18n.language)}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">{t('notifications.emptyMeansAll')}</p>
+              </div>
+
+              {error && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
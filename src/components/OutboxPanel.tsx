@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { CloudOff, AlertTriangle, RefreshCw, Trash2, ArrowRight } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useOutbox } from '../contexts/OutboxContext';
+import { OutboxEntry } from '../lib/statusOutbox';
+import { formatDate, formatTime } from '../lib/format';
+import { localizedName } from '../lib/nameTranslations';
+
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+
+// Status types as last loaded by StatusUpdateModal, which is where entries are queued from,
+// so they are available offline
+const STATUS_TYPES_CACHE_KEY = 'statusTypesCache';
+
+export default function OutboxPanel() {
+  const { t, i18n } = useTranslation();
+  const { entries, isOnline, flush, discard, retry } = useOutbox();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [flushing, setFlushing] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  const statusTypes: StatusType[] = JSON.parse(localStorage.getItem(STATUS_TYPES_CACHE_KEY) ?? '[]');
+
+  // Only the target status is queued with its id; the others are names
+  const getStatusName = (name: string, statusTypeId?: string) => {
+    const statusType = statusTypes.find((st) =>
+      statusTypeId ? st.id === statusTypeId : st.name === name
+    );
+    return statusType ? localizedName(statusType, i18n.language) : name;
+  };
+
+  const handleFlush = async () => {
+    setFlushing(true);
+    try {
+      await flush();
+    } finally {
+      setFlushing(false);
+    }
+  };
+
+  // Applying a conflicting entry anyway re-bases it on the machine's current server state
+  const handleApplyAnyway = async (entry: OutboxEntry) => {
+    setBusyId(entry.id);
+    try {
+      const { data, error } = await supabase
+        .from('machines')
+        .select('last_updated_at')
+        .eq('id', entry.machineId)
+        .maybeSingle();
+
+      if (error) throw error;
+      await retry(entry.id, data?.last_updated_at);
+    } catch (error) {
+      console.error('Error retrying status change:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (!confirm(t('outbox.discardConfirm', { machine: entry.machineCode }))) return;
+    setBusyId(entry.id);
+    try {
+      await discard(entry.id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pendingCount = entries.filter((e) => e.state === 'pending').length;
+
+  return (
+    <div className="bg-white border border-amber-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <CloudOff className="w-5 h-5 text-amber-600" />
+          <h3 className="font-semibold text-gray-900">{t('outbox.title')}</h3>
+          {pendingCount > 0 && (
+            <span className="text-sm text-gray-500">
+              {t('outbox.pendingBadge', { count: pendingCount })}
+            </span>
+          )}
+        </div>
+        {pendingCount > 0 && (
+          <button
+            onClick={handleFlush}
+            disabled={!isOnline || flushing}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${flushing ? 'animate-spin' : ''}`} />
+            <span>{t('outbox.sendNow')}</span>
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {entries.map((entry) => {
+          const changedAt = new Date(entry.changedAt);
+          return (
+            <li key={entry.id} className="py-2 flex items-start justify-between gap-4">
+              <div className="text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className="font-semibold text-gray-900">{entry.machineCode}</span>
+                  <span className="text-gray-500">{getStatusName(entry.previousStatus)}</span>
+                  <ArrowRight className="w-3 h-3 text-gray-400" />
+                  <span className="font-medium text-gray-900">
+                    {getStatusName(entry.status, entry.statusTypeId)}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {t('history.changedAt', {
+                    date: formatDate(changedAt, i18n.language),
+                    time: formatTime(changedAt, i18n.language),
+                  })}
+                </p>
+                {entry.state !== 'pending' && (
+                  <p className="mt-1 flex items-center text-xs text-red-600">
+                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {entry.state === 'conflict'
+                      ? t('outbox.conflictMessage', {
+                          status: entry.serverStatus ? getStatusName(entry.serverStatus) : '?',
+                        })
+                      : entry.error}
+                  </p>
+                )}
+              </div>
+
+              {entry.state !== 'pending' && (
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleApplyAnyway(entry)}
+                    disabled={busyId === entry.id || !isOnline}
+                    className="px-3 py-1 text-xs font-medium bg-gray-900 text-white rounded hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    {entry.state === 'conflict' ? t('outbox.applyAnyway') : t('outbox.retry')}
+                  </button>
+                  <button
+                    onClick={() => handleDiscard(entry)}
+                    disabled={busyId === entry.id}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                    title={t('outbox.discard')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
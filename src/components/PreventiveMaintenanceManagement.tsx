@@ -0,0 +1,455 @@
+import { useEffect, useState } from 'react';
+import { CalendarClock, Plus, X, Edit2, Trash2, AlertCircle, RefreshCw } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchPmPlanStatus, pmState, PmPlanStatus, PmState } from '../lib/preventiveMaintenance';
+import { formatDate, formatNumber } from '../lib/format';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+type PmPlan = Database['public']['Tables']['pm_plans']['Row'];
+type TriggerType = PmPlan['trigger_type'];
+
+const stateColors: Record<PmState, string> = {
+  ok: 'bg-green-100 text-green-800 border-green-200',
+  upcoming: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  overdue: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const toDateInput = (iso: string) => iso.slice(0, 10);
+
+const emptyForm = () => ({
+  machine_id: '',
+  name: '',
+  description: '',
+  trigger_type: 'calendar' as TriggerType,
+  interval: '',
+  last_done_at: toDateInput(new Date().toISOString()),
+});
+
+export default function PreventiveMaintenanceManagement() {
+  const { t, i18n } = useTranslation();
+  const { user, permissions } = useAuth();
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [plans, setPlans] = useState<PmPlan[]>([]);
+  const [planStatus, setPlanStatus] = useState<PmPlanStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<PmPlan | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [permissions]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+
+      let machineQuery = supabase.from('machines').select('*').order('machine_code');
+      if (permissions.isTeamLeader) {
+        machineQuery =
+          permissions.leaderDepartmentIds.length > 0
+            ? machineQuery.in('department_id', permissions.leaderDepartmentIds)
+            : machineQuery.eq('id', '00000000-0000-0000-0000-000000000000');
+      }
+
+      const [{ data: machinesData, error: machinesError }, { data: plansData, error: plansError }, status] =
+        await Promise.all([
+          machineQuery,
+          supabase.from('pm_plans').select('*').order('name'),
+          fetchPmPlanStatus(true),
+        ]);
+
+      if (machinesError) throw machinesError;
+      if (plansError) throw plansError;
+
+      const machineIds = new Set((machinesData || []).map((m) => m.id));
+      setMachines(machinesData || []);
+      setPlans((plansData || []).filter((plan) => machineIds.has(plan.machine_id)));
+      setPlanStatus(status);
+    } catch (error) {
+      console.error('Error loading maintenance plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const interval = Number(formData.interval);
+    if (!(interval > 0) || (formData.trigger_type === 'calendar' && !Number.isInteger(interval))) {
+      setError(t('maintenance.invalidInterval'));
+      return;
+    }
+
+    const values = {
+      machine_id: formData.machine_id,
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      trigger_type: formData.trigger_type,
+      interval_days: formData.trigger_type === 'calendar' ? interval : null,
+      interval_hours: formData.trigger_type === 'runtime' ? interval : null,
+      // Keep the exact time unless the date was changed
+      last_done_at:
+        editingPlan && formData.last_done_at === toDateInput(editingPlan.last_done_at)
+          ? editingPlan.last_done_at
+          : new Date(formData.last_done_at).toISOString(),
+    };
+
+    try {
+      if (editingPlan) {
+        const { error } = await supabase.from('pm_plans').update(values).eq('id', editingPlan.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('pm_plans').insert({ ...values, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      closeModal();
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleToggleActive = async (plan: PmPlan) => {
+    try {
+      const { error } = await supabase
+        .from('pm_plans')
+        .update({ is_active: !plan.is_active })
+        .eq('id', plan.id);
+
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error toggling maintenance plan:', error);
+    }
+  };
+
+  const handleDelete = async (plan: PmPlan) => {
+    if (!confirm(t('maintenance.deleteConfirm', { name: plan.name }))) return;
+
+    try {
+      const { error } = await supabase.from('pm_plans').delete().eq('id', plan.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting maintenance plan:', error);
+    }
+  };
+
+  const openEditModal = (plan: PmPlan) => {
+    setEditingPlan(plan);
+    setFormData({
+      machine_id: plan.machine_id,
+      name: plan.name,
+      description: plan.description,
+      trigger_type: plan.trigger_type,
+      interval: String((plan.trigger_type === 'calendar' ? plan.interval_days : plan.interval_hours) ?? ''),
+      last_done_at: toDateInput(plan.last_done_at),
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingPlan(null);
+    setFormData(emptyForm());
+    setError(null);
+  };
+
+  const getMachineLabel = (machineId: string) => {
+    const machine = machines.find((m) => m.id === machineId);
+    return machine ? `${machine.machine_code} - ${machine.machine_name}` : t('history.unknownMachine');
+  };
+
+  const describeInterval = (plan: PmPlan) =>
+    plan.trigger_type === 'calendar'
+      ? t('maintenance.everyDays', { count: plan.interval_days ?? 0 })
+      : t('maintenance.everyHours', { count: Number(plan.interval_hours ?? 0) });
+
+  const describeProgress = (plan: PmPlan, status: PmPlanStatus) =>
+    plan.trigger_type === 'calendar' && status.due_at
+      ? t('maintenance.dueOn', { date: formatDate(status.due_at, i18n.language) })
+      : t('maintenance.runtimeProgress', {
+          hours: formatNumber(status.runtime_hours, i18n.language, { maximumFractionDigits: 1 }),
+          interval: formatNumber(Number(plan.interval_hours ?? 0), i18n.language),
+        });
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <CalendarClock className="w-6 h-6 text-gray-700" />
+          <h2 className="text-xl font-bold text-gray-900">{t('maintenance.title')}</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={loadData}
+            className="p-2 text-gray-600 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            title={t('common.refresh')}
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            disabled={machines.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t('maintenance.addPlan')}</span>
+          </button>
+        </div>
+      </div>
+
+      {plans.length === 0 ? (
+        <div className="text-center py-8 bg-white border border-gray-200 rounded-lg">
+          <p className="text-gray-600">{t('maintenance.noPlans')}</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('history.machine')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('maintenance.plan')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('maintenance.interval')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('maintenance.lastDone')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('maintenance.nextDue')}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {plans.map((plan) => {
+                const status = planStatus.find((ps) => ps.plan_id === plan.id);
+                const state = status ? pmState(status) : null;
+                return (
+                  <tr key={plan.id} className={plan.is_active ? 'hover:bg-gray-50' : 'bg-gray-50 opacity-60'}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {getMachineLabel(plan.machine_id)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      <p className="font-medium text-gray-900">{plan.name}</p>
+                      {plan.description && <p className="text-xs text-gray-500">{plan.description}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{describeInterval(plan)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {formatDate(plan.last_done_at, i18n.language)}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {status && state ? (
+                        <div className="space-y-1">
+                          <span
+                            className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold border ${stateColors[state]}`}
+                          >
+                            {t(`maintenance.states.${state}`)}
+                          </span>
+                          <p className="text-xs text-gray-500">{describeProgress(plan, status)}</p>
+                          {status.open_work_order_id && (
+                            <p className="text-xs text-blue-600">{t('maintenance.workOrderOpen')}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">{t('maintenance.inactive')}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={() => handleToggleActive(plan)}
+                          className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                            plan.is_active
+                              ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                              : 'bg-green-100 text-green-800 hover:bg-green-200'
+                          }`}
+                        >
+                          {plan.is_active ? t('maintenance.deactivate') : t('maintenance.activate')}
+                        </button>
+                        <button
+                          onClick={() => openEditModal(plan)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(plan)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingPlan ? t('maintenance.editPlan') : t('maintenance.addPlan')}
+              </h3>
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('history.machine')}
+                </label>
+                <select
+                  value={formData.machine_id}
+                  onChange={(e) => setFormData({ ...formData, machine_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  required
+                >
+                  <option value="">{t('maintenance.selectMachine')}</option>
+                  {machines.map((machine) => (
+                    <option key={machine.id} value={machine.id}>
+                      {machine.machine_code} - {machine.machine_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('maintenance.plan')}
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  placeholder={t('maintenance.planPlaceholder')}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('workOrders.description')}
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('maintenance.triggerType')}
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['calendar', 'runtime'] as const).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, trigger_type: type })}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                        formData.trigger_type === type
+                          ? 'bg-gray-900 text-white border-gray-900'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {t(`maintenance.triggers.${type}`)}
+                    </button>
+                  ))}
+                </div>
+                {formData.trigger_type === 'runtime' && (
+                  <p className="mt-1 text-xs text-gray-500">{t('maintenance.runtimeHint')}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    {formData.trigger_type === 'calendar'
+                      ? t('maintenance.intervalDays')
+                      : t('maintenance.intervalHours')}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    step={formData.trigger_type === 'calendar' ? '1' : 'any'}
+                    value={formData.interval}
+                    onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    {t('maintenance.lastDone')}
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.last_done_at}
+                    onChange={(e) => setFormData({ ...formData, last_done_at: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
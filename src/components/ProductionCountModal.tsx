@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+
+interface ProductionCountModalProps {
+  machine: Machine;
+  onClose: () => void;
+}
+
+export default function ProductionCountModal({ machine, onClose }: ProductionCountModalProps) {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [produced, setProduced] = useState('');
+  const [scrap, setScrap] = useState('0');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) {
+      setError(t('errors.mustBeLoggedIn'));
+      return;
+    }
+
+    const producedCount = Number(produced);
+    const scrapCount = Number(scrap || 0);
+    if (!Number.isInteger(producedCount) || !Number.isInteger(scrapCount) || producedCount < 0 || scrapCount < 0) {
+      setError(t('production.invalidCounts'));
+      return;
+    }
+    if (scrapCount > producedCount) {
+      setError(t('production.scrapExceedsProduced'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { error } = await supabase.from('production_counts').insert({
+        machine_id: machine.id,
+        produced_count: producedCount,
+        scrap_count: scrapCount,
+        comment: comment.trim(),
+        recorded_by: user.id,
+      });
+
+      if (error) throw error;
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">{t('production.title')}</h3>
+            <p className="text-sm text-gray-500">
+              {machine.machine_code} - {machine.machine_name}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <p className="text-sm text-gray-600">{t('production.hint')}</p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="produced" className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('production.produced')}
+              </label>
+              <input
+                id="produced"
+                type="number"
+                min="0"
+                step="1"
+                value={produced}
+                onChange={(e) => setProduced(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="scrap" className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('production.scrap')}
+              </label>
+              <input
+                id="scrap"
+                type="number"
+                min="0"
+                step="1"
+                value={scrap}
+                onChange={(e) => setScrap(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="productionComment" className="block text-sm font-semibold text-gray-700 mb-2">
+              {t('status.commentOptional')}
+            </label>
+            <textarea
+              id="productionComment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? t('common.loading') : t('common.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
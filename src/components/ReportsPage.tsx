@@ -1,20 +1,55 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { FileText, Calendar, Filter, BarChart3, ChevronDown, X } from 'lucide-react';
+import { FileText, Calendar, Filter, BarChart3, ChevronDown, X, Gauge, Download, Printer } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
+import { useTranslation } from 'react-i18next';
+import {
+  addOeeTotals,
+  dayBuckets,
+  emptyOeeTotals,
+  machineOeeTotals,
+  MachineOeeInput,
+  OeeCategory,
+  oeeFigures,
+  OeeFigures,
+} from '../lib/oee';
+import {
+  overlapDuration,
+  scheduledIntervals,
+  shiftOccurrenceOn,
+  shiftOccurrences,
+  shiftsForDepartment,
+} from '../lib/shifts';
+import { fetchStatusSegments, StatusSegmentRow } from '../lib/statusSegments';
+import { downloadCsv, downloadXlsx, ExportTable, msToHours, msToSeconds } from '../lib/reportExport';
+import { localizedName } from '../lib/nameTranslations';
+import * as format from '../lib/format';
+import ShiftReportPrint from './ShiftReportPrint';
 
 type Machine = Database['public']['Tables']['machines']['Row'];
 type Department = Database['public']['Tables']['departments']['Row'];
 type StatusType = Database['public']['Tables']['status_types']['Row'];
 type StatusHistory = Database['public']['Tables']['status_history']['Row'];
+type StatusReason = Database['public']['Tables']['status_reasons']['Row'];
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type Holiday = Database['public']['Tables']['holidays']['Row'];
 
 interface StatusDuration {
-  status: string;
+  statusTypeId: string;
   duration: number;
   percentage: number;
 }
 
+interface ReasonDuration {
+  statusTypeId: string;
+  reasonId: string;
+  subReasonId: string | null;
+  duration: number;
+  occurrences: number;
+  percentage: number;
+}
+
 interface MachineReport {
   machineId: string;
   machineCode: string;
@@ -24,13 +59,18 @@ interface MachineReport {
 }
 
 interface DepartmentReport {
+  // Window the report was generated for; filters may have changed since
+  period: { start: number; end: number };
   statusDurations: StatusDuration[];
+  reasonDurations: ReasonDuration[];
+  // Time per status type within each shift, in shift display order
+  shiftDurations: { shift: string; durations: Record<string, number> }[];
   totalTime: number;
   machineReports: MachineReport[];
 }
 
 interface TimelineSegment {
-  status: string;
+  statusTypeId: string;
   startTime: number;
   endTime: number;
   duration: number;
@@ -43,6 +83,23 @@ interface MachineTimeline {
   segments: TimelineSegment[];
 }
 
+interface MachineOee {
+  machineId: string;
+  machineCode: string;
+  machineName: string;
+  hasIdealCycleTime: boolean;
+  figures: OeeFigures;
+}
+
+interface OeeReport {
+  overall: OeeFigures;
+  // Whether availability was limited to scheduled shift time
+  scheduled: boolean;
+  departments: { departmentId: string | null; figures: OeeFigures }[];
+  machines: MachineOee[];
+  trend: { start: number; figures: OeeFigures }[];
+}
+
 // ---- helpers ----
 // const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 const ONE_DAY_MS = 24 * 60 * 60 * 1000;
@@ -58,15 +115,20 @@ const formatLocalDateTimeForInput = (date: Date) => {
 };
 
 export default function ReportsPage() {
-  const { profile, user } = useAuth();
+  const { t, i18n } = useTranslation();
+  const { permissions } = useAuth();
   const [machines, setMachines] = useState<Machine[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [reasons, setReasons] = useState<StatusReason[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
   const [loading, setLoading] = useState(false);
-  const [teamLeaderDepartments, setTeamLeaderDepartments] = useState<string[]>([]);
   const [report, setReport] = useState<DepartmentReport | null>(null);
   const [timeline, setTimeline] = useState<MachineTimeline[]>([]);
-  const [activeTab, setActiveTab] = useState<'summary' | 'timeline'>('summary');
+  const [oeeReport, setOeeReport] = useState<OeeReport | null>(null);
+  const [activeTab, setActiveTab] = useState<'summary' | 'timeline' | 'oee'>('summary');
+  const [showPrint, setShowPrint] = useState(false);
 
   const [hoveredSegment, setHoveredSegment] = useState<{
     segment: TimelineSegment;
@@ -89,6 +151,10 @@ export default function ReportsPage() {
       endDate: formatLocalDateTimeForInput(now),
     };
   });
+  const [shiftPicker, setShiftPicker] = useState(() => ({
+    date: formatLocalDateTimeForInput(new Date()).slice(0, 10),
+    shiftId: '',
+  }));
 
   // ---- derived values ----
 
@@ -100,27 +166,21 @@ export default function ReportsPage() {
 
   const availableDepartments = useMemo(
     () =>
-      profile?.role === 'team_leader'
-        ? departments.filter((d) => teamLeaderDepartments.includes(d.id))
+      permissions.isTeamLeader
+        ? departments.filter((d) => permissions.canManageDepartment(d.id))
         : departments,
-    [departments, profile?.role, teamLeaderDepartments]
+    [departments, permissions]
   );
 
   const availableMachines = useMemo(() => {
     const source =
-      profile?.role === 'team_leader'
-        ? machines.filter(
-            (m) => m.department_id && teamLeaderDepartments.includes(m.department_id)
-          )
-        : machines;
+      permissions.isTeamLeader ? machines.filter((m) => permissions.canManageMachine(m)) : machines;
 
     if (filters.departmentId !== 'all') {
       return source.filter((m) => m.department_id === filters.departmentId);
     }
     return source;
-  }, [machines, filters.departmentId, profile?.role, teamLeaderDepartments]);
-
-  const endForDisplay = () => new Date(effectiveEndTime).toLocaleString();
+  }, [machines, filters.departmentId, permissions]);
 
   // ---- click outside for machine dropdown ----
   useEffect(() => {
@@ -157,22 +217,33 @@ export default function ReportsPage() {
             .then(({ data }) => {
               setMachines(data || []);
             }),
+          // Inactive types are kept: history may still reference them
           supabase
             .from('status_types')
             .select('*')
-            .eq('is_active', true)
             .order('display_order')
             .then(({ data }) => {
               setStatusTypes(data || []);
             }),
-          (async () => {
-            if (profile?.role !== 'team_leader' || !user?.id) return;
-            const { data } = await supabase
-              .from('department_leaders')
-              .select('department_id')
-              .eq('user_id', user.id);
-            setTeamLeaderDepartments(data?.map((d) => d.department_id) || []);
-          })(),
+          supabase
+            .from('status_reasons')
+            .select('*')
+            .then(({ data }) => {
+              setReasons(data || []);
+            }),
+          supabase
+            .from('shifts')
+            .select('*')
+            .order('display_order')
+            .then(({ data }) => {
+              setShifts(data || []);
+            }),
+          supabase
+            .from('holidays')
+            .select('*')
+            .then(({ data }) => {
+              setHolidays(data || []);
+            }),
         ]);
       } catch (err) {
         console.error('Error loading initial data:', err);
@@ -180,7 +251,7 @@ export default function ReportsPage() {
     };
 
     loadInitialData();
-  }, [profile?.role, user?.id]);
+  }, [permissions.role]);
 
   // ---- report generation ----
 
@@ -203,105 +274,72 @@ export default function ReportsPage() {
         targetMachines = machines;
       }
 
-      if (profile?.role === 'team_leader') {
-        targetMachines = targetMachines.filter(
-          (m) => m.department_id && teamLeaderDepartments.includes(m.department_id)
-        );
+      if (permissions.isTeamLeader) {
+        targetMachines = targetMachines.filter((m) => permissions.canManageMachine(m));
       }
 
       const machineReports: MachineReport[] = [];
       const departmentStatusTotals: Record<string, number> = {};
+      const departmentReasonTotals: Record<string, Omit<ReasonDuration, 'percentage'>> = {};
+      const departmentShiftTotals: Record<string, Record<string, number>> = {};
       const machineTimelines: MachineTimeline[] = [];
 
-      for (const machine of targetMachines) {
-        const machineCreatedAt = new Date(machine.created_at).getTime();
-
-        const { data: historyData, error } = await supabase
-          .from('status_history')
-          .select('*')
-          .eq('machine_id', machine.id)
-          .order('changed_at', { ascending: true });
-
-        if (error) throw error;
-
-        const history = (historyData || []).filter(
-          (h) => new Date(h.changed_at).getTime() >= machineCreatedAt
-        );
-
-        const reportStartTime = Math.max(startTime, machineCreatedAt);
-
-        if (reportStartTime >= endTime || history.length === 0) {
-          continue;
-        }
+      // Time per reason code, keyed by reason/sub-reason, for the Pareto breakdown. Each
+      // segment is one occurrence of its status change.
+      const addReasonDuration = (
+        entry: Pick<StatusHistory, 'status_type_id' | 'reason_id' | 'sub_reason_id'> | null,
+        duration: number
+      ) => {
+        if (!entry?.reason_id) return;
+        const key = `${entry.reason_id}:${entry.sub_reason_id ?? ''}`;
+        const totals = (departmentReasonTotals[key] ??= {
+          statusTypeId: entry.status_type_id,
+          reasonId: entry.reason_id,
+          subReasonId: entry.sub_reason_id,
+          duration: 0,
+          occurrences: 0,
+        });
+        totals.duration += duration;
+        totals.occurrences += 1;
+      };
 
-        const relevantHistory = history.filter(
-          (h) => new Date(h.changed_at).getTime() < endTime
-        );
+      // Segments for all machines in one call, already clipped to the window by the database
+      const segmentRows = await fetchStatusSegments(
+        targetMachines.map((m) => m.id),
+        startTime,
+        endTime
+      );
+      const segmentRowsByMachine = new Map<string, StatusSegmentRow[]>();
+      for (const row of segmentRows) {
+        const rows = segmentRowsByMachine.get(row.machine_id) ?? [];
+        rows.push(row);
+        segmentRowsByMachine.set(row.machine_id, rows);
+      }
 
-        if (relevantHistory.length === 0) {
-          continue;
-        }
+      for (const machine of targetMachines) {
+        const machineRows = segmentRowsByMachine.get(machine.id);
+        if (!machineRows) continue;
 
+        const reportStartTime = Math.max(startTime, new Date(machine.created_at).getTime());
         const statusDurations: Record<string, number> = {};
         const segments: TimelineSegment[] = [];
 
-        let currentPeriodStart = reportStartTime;
-        let currentStatus: string | null = null;
-
-        const firstChangeTime = new Date(relevantHistory[0].changed_at).getTime();
-        if (firstChangeTime > reportStartTime) {
-          const beforeFirstChange = history.find(
-            (h) => new Date(h.changed_at).getTime() <= reportStartTime
-          );
-          if (beforeFirstChange) {
-            currentStatus = beforeFirstChange.status;
-          }
-        }
-
-        for (let i = 0; i < relevantHistory.length; i++) {
-          const current = relevantHistory[i];
-          const changeTime = new Date(current.changed_at).getTime();
-
-          if (currentStatus && changeTime > currentPeriodStart) {
-            const periodEnd = Math.min(changeTime, endTime);
-            const duration = periodEnd - currentPeriodStart;
-
-            if (duration > 0) {
-              statusDurations[currentStatus] =
-                (statusDurations[currentStatus] || 0) + duration;
-              departmentStatusTotals[currentStatus] =
-                (departmentStatusTotals[currentStatus] || 0) + duration;
-
-              // timeline segmenti
-              segments.push({
-                status: currentStatus,
-                startTime: currentPeriodStart,
-                endTime: periodEnd,
-                duration,
-              });
-            }
-          }
+        for (const row of machineRows) {
+          const segmentStart = new Date(row.started_at).getTime();
+          const segmentEnd = new Date(row.ended_at).getTime();
+          const duration = segmentEnd - segmentStart;
 
-          // yine "status" kolonu
-          currentStatus = current.status;
-          currentPeriodStart = Math.max(changeTime, reportStartTime);
-        }
+          statusDurations[row.status_type_id] = (statusDurations[row.status_type_id] || 0) + duration;
+          departmentStatusTotals[row.status_type_id] =
+            (departmentStatusTotals[row.status_type_id] || 0) + duration;
+          addReasonDuration(row, duration);
 
-        if (currentStatus && currentPeriodStart < endTime) {
-          const duration = endTime - currentPeriodStart;
-          if (duration > 0) {
-            statusDurations[currentStatus] =
-              (statusDurations[currentStatus] || 0) + duration;
-            departmentStatusTotals[currentStatus] =
-              (departmentStatusTotals[currentStatus] || 0) + duration;
-
-            segments.push({
-              status: currentStatus,
-              startTime: currentPeriodStart,
-              endTime: endTime,
-              duration,
-            });
-          }
+          segments.push({
+            statusTypeId: row.status_type_id,
+            startTime: segmentStart,
+            endTime: segmentEnd,
+            duration,
+          });
         }
 
         const machineTotal = Object.values(statusDurations).reduce(
@@ -312,13 +350,30 @@ export default function ReportsPage() {
         const statusDurationArray: StatusDuration[] = Object.entries(
           statusDurations
         )
-          .map(([status, duration]) => ({
-            status,
+          .map(([statusTypeId, duration]) => ({
+            statusTypeId,
             duration,
             percentage: machineTotal > 0 ? (duration / machineTotal) * 100 : 0,
           }))
           .sort((a, b) => b.duration - a.duration);
 
+        // Split the segments over the shifts of the machine's department
+        for (const occurrence of shiftOccurrences(
+          shifts,
+          holidays,
+          machine.department_id,
+          reportStartTime,
+          endTime
+        )) {
+          const shiftTotals = (departmentShiftTotals[occurrence.name] ??= {});
+          for (const segment of segments) {
+            const duration = overlapDuration(segment.startTime, segment.endTime, [occurrence]);
+            if (duration > 0) {
+              shiftTotals[segment.statusTypeId] = (shiftTotals[segment.statusTypeId] || 0) + duration;
+            }
+          }
+        }
+
         machineReports.push({
           machineId: machine.id,
           machineCode: machine.machine_code,
@@ -342,19 +397,95 @@ export default function ReportsPage() {
       const departmentStatusArray: StatusDuration[] = Object.entries(
         departmentStatusTotals
       )
-        .map(([status, duration]) => ({
-          status,
+        .map(([statusTypeId, duration]) => ({
+          statusTypeId,
           duration,
           percentage: departmentTotal > 0 ? (duration / departmentTotal) * 100 : 0,
         }))
         .sort((a, b) => b.duration - a.duration);
 
+      const reasonTotal = Object.values(departmentReasonTotals).reduce(
+        (sum, r) => sum + r.duration,
+        0
+      );
+      const reasonDurationArray: ReasonDuration[] = Object.values(departmentReasonTotals)
+        .map((r) => ({
+          ...r,
+          percentage: reasonTotal > 0 ? (r.duration / reasonTotal) * 100 : 0,
+        }))
+        .sort((a, b) => b.duration - a.duration);
+
+      // OEE: production counts recorded in the window, combined with the timeline segments
+      const { data: countsData, error: countsError } = await supabase
+        .from('production_counts')
+        .select('machine_id, recorded_at, produced_count, scrap_count')
+        .in('machine_id', machineTimelines.map((mt) => mt.machineId))
+        .gte('recorded_at', new Date(startTime).toISOString())
+        .lt('recorded_at', new Date(endTime).toISOString());
+
+      if (countsError) throw countsError;
+
+      const oeeCategories: Record<string, OeeCategory> = Object.fromEntries(
+        statusTypes.map((st) => [st.id, st.oee_category])
+      );
+      const oeeInputs: (MachineOeeInput & {
+        timeline: MachineTimeline;
+        departmentId: string | null;
+      })[] = machineTimelines.map((mt) => {
+        const machine = machines.find((m) => m.id === mt.machineId);
+        const departmentId = machine?.department_id ?? null;
+        return {
+          timeline: mt,
+          departmentId,
+          segments: mt.segments,
+          schedule: scheduledIntervals(shifts, holidays, departmentId, startTime, endTime),
+          counts: (countsData || []).filter((c) => c.machine_id === mt.machineId),
+          idealCycleTimeSeconds: machine?.ideal_cycle_time_seconds ?? null,
+        };
+      });
+      const sumOeeTotals = (inputs: typeof oeeInputs, from: number, to: number) =>
+        inputs.reduce(
+          (totals, input) => addOeeTotals(totals, machineOeeTotals(input, oeeCategories, from, to)),
+          emptyOeeTotals()
+        );
+      const oeeDepartmentIds = [...new Set(oeeInputs.map((input) => input.departmentId))];
+
       setReport({
+        period: { start: startTime, end: endTime },
         statusDurations: departmentStatusArray,
+        reasonDurations: reasonDurationArray,
+        shiftDurations: [...new Set(shifts.map((s) => s.name))]
+          .filter((name) => departmentShiftTotals[name])
+          .map((name) => ({ shift: name, durations: departmentShiftTotals[name] })),
         totalTime: departmentTotal,
         machineReports,
       });
       setTimeline(machineTimelines);
+      setOeeReport({
+        overall: oeeFigures(sumOeeTotals(oeeInputs, startTime, endTime)),
+        scheduled: oeeInputs.some((input) => input.schedule),
+        departments: oeeDepartmentIds.map((departmentId) => ({
+          departmentId,
+          figures: oeeFigures(
+            sumOeeTotals(
+              oeeInputs.filter((input) => input.departmentId === departmentId),
+              startTime,
+              endTime
+            )
+          ),
+        })),
+        machines: oeeInputs.map((input) => ({
+          machineId: input.timeline.machineId,
+          machineCode: input.timeline.machineCode,
+          machineName: input.timeline.machineName,
+          hasIdealCycleTime: input.idealCycleTimeSeconds !== null,
+          figures: oeeFigures(machineOeeTotals(input, oeeCategories, startTime, endTime)),
+        })),
+        trend: dayBuckets(startTime, endTime).map((bucket) => ({
+          start: bucket.start,
+          figures: oeeFigures(sumOeeTotals(oeeInputs, bucket.start, bucket.end)),
+        })),
+      });
     } catch (error) {
       console.error('Error generating report:', error);
     } finally {
@@ -362,18 +493,25 @@ export default function ReportsPage() {
     }
   };
 
-  const formatDuration = (ms: number): string => {
-    const hours = Math.floor(ms / (1000 * 60 * 60));
-    const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
+  const formatDuration = (ms: number) => format.formatDuration(ms, i18n.language);
+
+  const formatPercent = (ratio: number | null): string =>
+    ratio === null ? '—' : format.formatPercent(ratio, i18n.language);
+
+  const formatDateTime = (time: string | number) => format.formatDateTime(time, i18n.language);
+
+  const getStatusName = (statusTypeId: string) => {
+    const statusType = statusTypes.find((st) => st.id === statusTypeId);
+    return statusType ? localizedName(statusType, i18n.language) : '';
   };
 
-  const formatDateTime = (timestamp: number): string => {
-    return new Date(timestamp).toLocaleString();
+  const getDepartmentName = (departmentId: string | null) => {
+    const department = departments.find((d) => d.id === departmentId);
+    return department && localizedName(department, i18n.language);
   };
 
-  const getStatusColor = (statusName: string) => {
-    const statusType = statusTypes.find((st) => st.name === statusName);
+  const getStatusColor = (statusTypeId: string) => {
+    const statusType = statusTypes.find((st) => st.id === statusTypeId);
     if (!statusType)
       return {
         bg: 'bg-gray-100',
@@ -439,6 +577,9 @@ export default function ReportsPage() {
     return colorMap[statusType.color] || colorMap.gray;
   };
 
+  const getReasonName = (reasonId: string | null) =>
+    reasons.find((r) => r.id === reasonId)?.name ?? '?';
+
   const toggleMachineSelection = (machineId: string) => {
     setFilters((prev) => ({
       ...prev,
@@ -448,6 +589,115 @@ export default function ReportsPage() {
     }));
   };
 
+  // Shifts offered by the picker: those of the selected department, or all of them
+  const pickerShifts =
+    filters.departmentId === 'all'
+      ? shifts.filter((s) => s.is_active)
+      : shiftsForDepartment(shifts, filters.departmentId);
+
+  const applyShift = (shiftId: string, date: string) => {
+    setShiftPicker({ shiftId, date });
+    const shift = shifts.find((s) => s.id === shiftId);
+    if (!shift || !date) return;
+
+    const [year, month, day] = date.split('-').map(Number);
+    const occurrence = shiftOccurrenceOn(shift, new Date(year, month - 1, day));
+    setFilters((prev) => ({
+      ...prev,
+      startDate: formatLocalDateTimeForInput(new Date(occurrence.start)),
+      endDate: formatLocalDateTimeForInput(new Date(occurrence.end)),
+    }));
+  };
+
+  // ---- export ----
+
+  const buildExportTables = (source: DepartmentReport): Record<'summary' | 'machines' | 'timeline', ExportTable> => {
+    const durationHeaders = [t('export.durationHours'), t('export.durationSeconds')];
+    const durationCells = (ms: number) => [msToHours(ms), msToSeconds(ms)];
+    const roundPercentage = (percentage: number) => Math.round(percentage * 100) / 100;
+
+    return {
+      summary: {
+        name: t('export.summarySheet'),
+        headers: [t('export.status'), ...durationHeaders, t('export.percentage')],
+        rows: source.statusDurations.map((sd) => [
+          getStatusName(sd.statusTypeId),
+          ...durationCells(sd.duration),
+          roundPercentage(sd.percentage),
+        ]),
+      },
+      machines: {
+        name: t('export.machinesSheet'),
+        headers: [
+          t('export.machineCode'),
+          t('export.machineName'),
+          t('export.status'),
+          ...durationHeaders,
+          t('export.percentage'),
+        ],
+        rows: source.machineReports.flatMap((mr) =>
+          mr.statusDurations.map((sd) => [
+            mr.machineCode,
+            mr.machineName,
+            getStatusName(sd.statusTypeId),
+            ...durationCells(sd.duration),
+            roundPercentage(sd.percentage),
+          ])
+        ),
+      },
+      timeline: {
+        name: t('export.timelineSheet'),
+        headers: [
+          t('export.machineCode'),
+          t('export.machineName'),
+          t('export.status'),
+          t('export.start'),
+          t('export.end'),
+          ...durationHeaders,
+        ],
+        rows: timeline.flatMap((mt) =>
+          mt.segments.map((segment) => [
+            mt.machineCode,
+            mt.machineName,
+            getStatusName(segment.statusTypeId),
+            new Date(segment.startTime),
+            new Date(segment.endTime),
+            ...durationCells(segment.duration),
+          ])
+        ),
+      },
+    };
+  };
+
+  const exportFileName = (source: DepartmentReport, suffix: string, extension: string) => {
+    const stamp = (time: number) => formatLocalDateTimeForInput(new Date(time)).replace(/[T:]/g, '');
+    return `${t('export.fileName')}_${stamp(source.period.start)}-${stamp(source.period.end)}${suffix}.${extension}`;
+  };
+
+  const reportTitle =
+    filters.machineIds.length > 0
+      ? t('reports.selectedMachines', { count: filters.machineIds.length })
+      : filters.departmentId !== 'all'
+      ? t('reports.departmentReport', { department: getDepartmentName(filters.departmentId) })
+      : t('reports.generalReport');
+
+  const timelineMachineIds = useMemo(() => timeline.map((mt) => mt.machineId), [timeline]);
+
+  const handleCsvExport = (table: 'summary' | 'machines' | 'timeline') => {
+    if (!report) return;
+    downloadCsv(buildExportTables(report)[table], exportFileName(report, `_${table}`, 'csv'));
+  };
+
+  const handleXlsxExport = async () => {
+    if (!report) return;
+    try {
+      const tables = buildExportTables(report);
+      await downloadXlsx([tables.summary, tables.machines, tables.timeline], exportFileName(report, '', 'xlsx'));
+    } catch (error) {
+      console.error('Error exporting report:', error);
+    }
+  };
+
   const handleDepartmentChange = (value: string) => {
     setFilters((prev) => ({
       ...prev,
@@ -461,7 +711,7 @@ export default function ReportsPage() {
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <FileText className="w-8 h-8 text-gray-700" />
-          <h2 className="text-2xl font-bold text-gray-900">Durum Raporları</h2>
+          <h2 className="text-2xl font-bold text-gray-900">{t('reports.title')}</h2>
         </div>
       </div>
 
@@ -469,24 +719,24 @@ export default function ReportsPage() {
       <div className="bg-white border border-gray-200 rounded-lg p-6">
         <div className="flex items-center space-x-2 mb-4">
           <Filter className="w-5 h-5 text-gray-700" />
-          <h3 className="text-lg font-semibold text-gray-900">Filtreler</h3>
+          <h3 className="text-lg font-semibold text-gray-900">{t('history.filters')}</h3>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           {/* Departman - tek seçim */}
           <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Bölüm
+              {t('history.department')}
             </label>
             <select
               value={filters.departmentId}
               onChange={(e) => handleDepartmentChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
             >
-              <option value="all">Tüm Bölümler</option>
+              <option value="all">{t('history.allDepartments')}</option>
               {availableDepartments.map((dept) => (
                 <option key={dept.id} value={dept.id}>
-                  {dept.name}
+                  {localizedName(dept, i18n.language)}
                 </option>
               ))}
             </select>
@@ -495,7 +745,7 @@ export default function ReportsPage() {
           {/* Makine - çoklu seçim dropdown */}
           <div className="relative" ref={machineDropdownRef}>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Makineler
+              {t('reports.machines')}
             </label>
             <button
               type="button"
@@ -504,8 +754,8 @@ export default function ReportsPage() {
             >
               <span className="text-sm text-gray-700 truncate">
                 {filters.machineIds.length === 0
-                  ? 'Makine seçiniz...'
-                  : `${filters.machineIds.length} makine seçili`}
+                  ? t('reports.selectMachines')
+                  : t('reports.machinesSelected', { count: filters.machineIds.length })}
               </span>
               <ChevronDown className="w-4 h-4 text-gray-500 flex-shrink-0" />
             </button>
@@ -542,7 +792,7 @@ export default function ReportsPage() {
                     }}
                     className="text-xs text-gray-600 hover:text-gray-900 mr-3"
                   >
-                    Tümünü Seç
+                    {t('reports.selectAll')}
                   </button>
                   <button
                     onClick={() => {
@@ -550,7 +800,7 @@ export default function ReportsPage() {
                     }}
                     className="text-xs text-gray-600 hover:text-gray-900"
                   >
-                    Temizle
+                    {t('reports.clear')}
                   </button>
                 </div>
                 {availableMachines.map((machine) => (
@@ -566,6 +816,9 @@ export default function ReportsPage() {
                     />
                     <span className="text-sm text-gray-700">
                       {machine.machine_code} - {machine.machine_name}
+                      {machine.archived_at && (
+                        <span className="ml-1 text-gray-500">{t('machines.archivedSuffix')}</span>
+                      )}
                     </span>
                   </label>
                 ))}
@@ -576,7 +829,7 @@ export default function ReportsPage() {
           {/* Tarih alanları */}
           <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Başlangıç Tarihi ve Saati
+              {t('reports.startDate')}
             </label>
             <input
               type="datetime-local"
@@ -588,7 +841,7 @@ export default function ReportsPage() {
 
           <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Bitiş Tarihi ve Saati
+              {t('reports.endDate')}
             </label>
             <input
               type="datetime-local"
@@ -599,6 +852,42 @@ export default function ReportsPage() {
           </div>
         </div>
 
+        {pickerShifts.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('shifts.shiftDate')}
+              </label>
+              <input
+                type="date"
+                value={shiftPicker.date}
+                onChange={(e) => applyShift(shiftPicker.shiftId, e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                {t('shifts.shift')}
+              </label>
+              <select
+                value={shiftPicker.shiftId}
+                onChange={(e) => applyShift(e.target.value, shiftPicker.date)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              >
+                <option value="">{t('shifts.selectShift')}</option>
+                {pickerShifts.map((shift) => (
+                  <option key={shift.id} value={shift.id}>
+                    {shift.name} ({shift.start_time.slice(0, 5)} - {shift.end_time.slice(0, 5)})
+                    {shift.department_id && filters.departmentId === 'all'
+                      ? ` - ${getDepartmentName(shift.department_id) ?? ''}`
+                      : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
         <div className="mt-4">
           <button
             onClick={generateReport}
@@ -606,7 +895,7 @@ export default function ReportsPage() {
             className="px-6 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center space-x-2"
           >
             <Calendar className="w-4 h-4" />
-            <span>{loading ? 'Oluşturuluyor...' : 'Raporu Oluştur'}</span>
+            <span>{loading ? t('reports.generating') : t('reports.generate')}</span>
           </button>
         </div>
       </div>
@@ -625,7 +914,7 @@ export default function ReportsPage() {
             >
               <div className="flex items-center space-x-2">
                 <BarChart3 className="w-4 h-4" />
-                <span>Durum Özeti</span>
+                <span>{t('reports.summaryTab')}</span>
               </div>
             </button>
             <button
@@ -638,9 +927,49 @@ export default function ReportsPage() {
             >
               <div className="flex items-center space-x-2">
                 <Calendar className="w-4 h-4" />
-                <span>Zaman Çizelgesi</span>
+                <span>{t('reports.timelineTab')}</span>
+              </div>
+            </button>
+            <button
+              onClick={() => setActiveTab('oee')}
+              className={`py-4 px-2 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'oee'
+                  ? 'border-gray-900 text-gray-900'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <Gauge className="w-4 h-4" />
+                <span>{t('oee.tab')}</span>
               </div>
             </button>
+            {report && !loading && (
+              <div className="ml-auto flex items-center space-x-2 py-2">
+                <Download className="w-4 h-4 text-gray-500" />
+                {(['summary', 'machines', 'timeline'] as const).map((table) => (
+                  <button
+                    key={table}
+                    onClick={() => handleCsvExport(table)}
+                    className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    {t(`export.${table}Csv`)}
+                  </button>
+                ))}
+                <button
+                  onClick={handleXlsxExport}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-gray-900 rounded-lg hover:bg-gray-800 transition-colors"
+                >
+                  {t('export.xlsx')}
+                </button>
+                <button
+                  onClick={() => setShowPrint(true)}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Printer className="w-4 h-4" />
+                  <span>{t('printReport.open')}</span>
+                </button>
+              </div>
+            )}
           </nav>
         </div>
 
@@ -649,7 +978,7 @@ export default function ReportsPage() {
           {loading && (
             <div className="text-center py-12">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
-              <p className="mt-4 text-gray-600">Rapor oluşturuluyor...</p>
+              <p className="mt-4 text-gray-600">{t('reports.generatingReport')}</p>
             </div>
           )}
 
@@ -658,22 +987,18 @@ export default function ReportsPage() {
             <div className="space-y-6">
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                  {filters.machineIds.length > 0
-                    ? `Seçili Makineler (${filters.machineIds.length})`
-                    : filters.departmentId !== 'all'
-                    ? `Bölüm Raporu: ${
-                        departments.find((d) => d.id === filters.departmentId)?.name
-                      }`
-                    : 'Genel Rapor'}
+                  {reportTitle}
                 </h3>
 
                 <div className="mb-6">
                   <p className="text-sm text-gray-600">
-                    Rapor Dönemi: {new Date(filters.startDate).toLocaleString()} -{' '}
-                    {endForDisplay()}
+                    {t('reports.period', {
+                      start: formatDateTime(filters.startDate),
+                      end: formatDateTime(effectiveEndTime),
+                    })}
                   </p>
                   <p className="text-sm text-gray-600 mt-1">
-                    Toplam Takip Edilen Süre: {formatDuration(report.totalTime)}
+                    {t('reports.totalTracked', { duration: formatDuration(report.totalTime) })}
                   </p>
                 </div>
 
@@ -682,26 +1007,34 @@ export default function ReportsPage() {
                     <thead className="bg-gray-50 border-b border-gray-200">
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                          Durum
+                          {t('reports.status')}
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                          Süre
+                          {t('reports.duration')}
                         </th>
                         <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                          Yüzde
+                          {t('reports.percentage')}
                         </th>
+                        {report.shiftDurations.map((sh) => (
+                          <th
+                            key={sh.shift}
+                            className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase"
+                          >
+                            {sh.shift}
+                          </th>
+                        ))}
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-200">
                       {report.statusDurations.map((sd) => {
-                        const colors = getStatusColor(sd.status);
+                        const colors = getStatusColor(sd.statusTypeId);
                         return (
-                          <tr key={sd.status} className="hover:bg-gray-50">
+                          <tr key={sd.statusTypeId} className="hover:bg-gray-50">
                             <td className="px-6 py-4">
                               <span
                                 className={`px-3 py-1 rounded-full text-xs font-semibold border ${colors.bg} ${colors.text} ${colors.border}`}
                               >
-                                {sd.status}
+                                {getStatusName(sd.statusTypeId)}
                               </span>
                             </td>
                             <td className="px-6 py-4 text-sm text-gray-900 font-medium">
@@ -719,10 +1052,15 @@ export default function ReportsPage() {
                                   ></div>
                                 </div>
                                 <span className="text-sm text-gray-900 font-medium w-12">
-                                  {sd.percentage.toFixed(1)}%
+                                  {formatPercent(sd.percentage / 100)}
                                 </span>
                               </div>
                             </td>
+                            {report.shiftDurations.map((sh) => (
+                              <td key={sh.shift} className="px-6 py-4 text-sm text-gray-900">
+                                {formatDuration(sh.durations[sd.statusTypeId] || 0)}
+                              </td>
+                            ))}
                           </tr>
                         );
                       })}
@@ -731,11 +1069,91 @@ export default function ReportsPage() {
                 </div>
               </div>
 
+              {report.reasonDurations.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                    {t('reasons.breakdownTitle')}
+                  </h3>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('reasons.reason')}
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('reasons.occurrences')}
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('reports.duration')}
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('reports.percentage')}
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('reasons.cumulative')}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {report.reasonDurations.map((rd, index) => {
+                          const colors = getStatusColor(rd.statusTypeId);
+                          const cumulative = report.reasonDurations
+                            .slice(0, index + 1)
+                            .reduce((sum, r) => sum + r.percentage, 0);
+                          return (
+                            <tr key={`${rd.reasonId}:${rd.subReasonId ?? ''}`} className="hover:bg-gray-50">
+                              <td className="px-6 py-4">
+                                <div className="flex items-center space-x-2">
+                                  <span
+                                    className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${colors.bg} ${colors.text} ${colors.border}`}
+                                  >
+                                    {getStatusName(rd.statusTypeId)}
+                                  </span>
+                                  <span className="text-sm text-gray-900">
+                                    {getReasonName(rd.reasonId)}
+                                    {rd.subReasonId && ` › ${getReasonName(rd.subReasonId)}`}
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-900">{rd.occurrences}</td>
+                              <td className="px-6 py-4 text-sm text-gray-900 font-medium">
+                                {formatDuration(rd.duration)}
+                              </td>
+                              <td className="px-6 py-4">
+                                <div className="flex items-center space-x-3">
+                                  <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+                                    <div
+                                      className="h-full"
+                                      style={{
+                                        backgroundColor: colors.solid,
+                                        width: `${rd.percentage}%`,
+                                      }}
+                                    ></div>
+                                  </div>
+                                  <span className="text-sm text-gray-900 font-medium w-12">
+                                    {formatPercent(rd.percentage / 100)}
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 text-sm text-gray-600">
+                                {formatPercent(cumulative / 100)}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Makine bazında dağılım – sadece belirli makine seçimi yoksa */}
               {filters.machineIds.length === 0 && report.machineReports.length > 0 && (
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                    Makine Bazında Dağılım
+                    {t('reports.byMachine')}
                   </h3>
 
                   <div className="space-y-6">
@@ -749,7 +1167,7 @@ export default function ReportsPage() {
                             {machineReport.machineCode} - {machineReport.machineName}
                           </h4>
                           <p className="text-sm text-gray-600">
-                            Toplam Süre: {formatDuration(machineReport.totalTime)}
+                            {t('reports.totalTime', { duration: formatDuration(machineReport.totalTime) })}
                           </p>
                         </div>
 
@@ -758,33 +1176,33 @@ export default function ReportsPage() {
                             <thead className="bg-gray-50">
                               <tr>
                                 <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">
-                                  Durum
+                                  {t('reports.status')}
                                 </th>
                                 <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">
-                                  Süre
+                                  {t('reports.duration')}
                                 </th>
                                 <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700">
-                                  Yüzde
+                                  {t('reports.percentage')}
                                 </th>
                               </tr>
                             </thead>
                             <tbody className="divide-y divide-gray-200">
                               {machineReport.statusDurations.map((sd) => {
-                                const colors = getStatusColor(sd.status);
+                                const colors = getStatusColor(sd.statusTypeId);
                                 return (
-                                  <tr key={sd.status}>
+                                  <tr key={sd.statusTypeId}>
                                     <td className="px-4 py-2">
                                       <span
                                         className={`px-2 py-1 rounded text-xs font-semibold ${colors.bg} ${colors.text}`}
                                       >
-                                        {sd.status}
+                                        {getStatusName(sd.statusTypeId)}
                                       </span>
                                     </td>
                                     <td className="px-4 py-2 text-sm text-gray-900">
                                       {formatDuration(sd.duration)}
                                     </td>
                                     <td className="px-4 py-2 text-sm text-gray-900">
-                                      {sd.percentage.toFixed(1)}%
+                                      {formatPercent(sd.percentage / 100)}
                                     </td>
                                   </tr>
                                 );
@@ -805,9 +1223,10 @@ export default function ReportsPage() {
             <div className="space-y-4">
               <div className="mb-4">
                 <p className="text-sm text-gray-600">
-                  Zaman Çizelgesi:{' '}
-                  {new Date(filters.startDate).toLocaleString()} -{' '}
-                  {new Date(effectiveEndTime).toLocaleString()}
+                  {t('reports.timelinePeriod', {
+                    start: formatDateTime(filters.startDate),
+                    end: formatDateTime(effectiveEndTime),
+                  })}
                 </p>
               </div>
 
@@ -826,7 +1245,7 @@ export default function ReportsPage() {
 
                       {machineTimeline.segments.length === 0 ? (
                         <div className="text-sm text-gray-500 italic py-4">
-                          Seçilen zaman aralığında durum verisi bulunmuyor
+                          {t('reports.noTimelineData')}
                         </div>
                       ) : (
                         <div className="relative h-12 bg-gray-100 rounded overflow-hidden">
@@ -846,7 +1265,7 @@ export default function ReportsPage() {
                             Math.min(100 - leftPercent, rawWidth)
                           );
 
-                          const colors = getStatusColor(segment.status);
+                          const colors = getStatusColor(segment.statusTypeId);
 
                           return (
                             <div
@@ -880,19 +1299,245 @@ export default function ReportsPage() {
             </div>
           )}
 
+          {/* OEE Tab */}
+          {!loading && activeTab === 'oee' && oeeReport && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(
+                  [
+                    ['oee', oeeReport.overall.oee],
+                    ['availability', oeeReport.overall.availability],
+                    ['performance', oeeReport.overall.performance],
+                    ['quality', oeeReport.overall.quality],
+                  ] as const
+                ).map(([key, value]) => (
+                  <div key={key} className="border border-gray-200 rounded-lg p-4">
+                    <p className="text-xs font-semibold text-gray-500 uppercase">{t(`oee.${key}`)}</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-1">{formatPercent(value)}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>
+                  {t('oee.runTime')}: {formatDuration(oeeReport.overall.runTime)} /{' '}
+                  {t('oee.plannedTime')}: {formatDuration(oeeReport.overall.plannedTime)}
+                </p>
+                <p>
+                  {t('production.produced')}: {format.formatNumber(oeeReport.overall.produced, i18n.language)} /{' '}
+                  {t('production.scrap')}: {format.formatNumber(oeeReport.overall.scrap, i18n.language)}
+                </p>
+                {oeeReport.scheduled && <p>{t('oee.scheduledOnly')}</p>}
+                {oeeReport.machines.some((m) => !m.hasIdealCycleTime) && (
+                  <p className="text-amber-700">{t('oee.missingCycleTime')}</p>
+                )}
+              </div>
+
+              {oeeReport.trend.length > 1 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('oee.trendTitle')}</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.day')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.availability')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.performance')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.quality')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.oee')}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {oeeReport.trend.map((point) => (
+                          <tr key={point.start}>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {format.formatDate(point.start, i18n.language)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(point.figures.availability)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(point.figures.performance)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(point.figures.quality)}
+                            </td>
+                            <td className="px-4 py-2">
+                              <div className="flex items-center space-x-3">
+                                <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+                                  <div
+                                    className="h-full bg-gray-900"
+                                    style={{
+                                      width: `${Math.min(100, (point.figures.oee ?? 0) * 100)}%`,
+                                    }}
+                                  ></div>
+                                </div>
+                                <span className="text-sm text-gray-900 font-medium w-14">
+                                  {formatPercent(point.figures.oee)}
+                                </span>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {oeeReport.departments.length > 1 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('oee.byDepartment')}</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('history.department')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.availability')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.performance')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.quality')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.oee')}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {oeeReport.departments.map((departmentOee) => (
+                          <tr key={departmentOee.departmentId ?? 'none'} className="hover:bg-gray-50">
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {getDepartmentName(departmentOee.departmentId) ?? t('oee.noDepartment')}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(departmentOee.figures.availability)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(departmentOee.figures.performance)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(departmentOee.figures.quality)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900 font-semibold">
+                              {formatPercent(departmentOee.figures.oee)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {oeeReport.machines.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('oee.byMachine')}</h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('history.machine')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.availability')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.performance')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.quality')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('oee.oee')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('production.produced')}
+                          </th>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-gray-700 uppercase">
+                            {t('production.scrap')}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {oeeReport.machines.map((machineOee) => (
+                          <tr key={machineOee.machineId} className="hover:bg-gray-50">
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {machineOee.machineCode} - {machineOee.machineName}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(machineOee.figures.availability)}
+                            </td>
+                            <td
+                              className="px-4 py-2 text-sm text-gray-900"
+                              title={machineOee.hasIdealCycleTime ? undefined : t('oee.noCycleTime')}
+                            >
+                              {formatPercent(machineOee.figures.performance)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {formatPercent(machineOee.figures.quality)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900 font-semibold">
+                              {formatPercent(machineOee.figures.oee)}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {machineOee.figures.produced}
+                            </td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {machineOee.figures.scrap}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Henüz rapor yoksa */}
           {!loading && !report && timeline.length === 0 && (
             <div className="text-center py-12">
               <FileText className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-600">
-                Makine durumu analizlerini görüntülemek için filtrelerinizi seçin ve
-                &quot;Raporu Oluştur&quot; butonuna tıklayın.
-              </p>
+              <p className="text-gray-600">{t('reports.empty')}</p>
             </div>
           )}
         </div>
       </div>
 
+      {showPrint && report && (
+        <ShiftReportPrint
+          title={reportTitle}
+          period={report.period}
+          statusDurations={report.statusDurations}
+          totalTime={report.totalTime}
+          timeline={timeline}
+          machineIds={timelineMachineIds}
+          statusTypes={statusTypes}
+          reasons={reasons}
+          statusColor={(statusTypeId) => getStatusColor(statusTypeId).solid}
+          statusName={getStatusName}
+          onClose={() => setShowPrint(false)}
+        />
+      )}
+
       {/* Timeline tooltip */}
       {hoveredSegment && (
         <div
@@ -909,19 +1554,19 @@ export default function ReportsPage() {
               {hoveredSegment.machine.machineName}
             </p>
             <p>
-              <span className="text-gray-300">Durum:</span>{' '}
-              {hoveredSegment.segment.status}
+              <span className="text-gray-300">{t('reports.status')}:</span>{' '}
+              {getStatusName(hoveredSegment.segment.statusTypeId)}
             </p>
             <p>
-              <span className="text-gray-300">Başlangıç:</span>{' '}
+              <span className="text-gray-300">{t('reports.start')}:</span>{' '}
               {formatDateTime(hoveredSegment.segment.startTime)}
             </p>
             <p>
-              <span className="text-gray-300">Bitiş:</span>{' '}
+              <span className="text-gray-300">{t('reports.end')}:</span>{' '}
               {formatDateTime(hoveredSegment.segment.endTime)}
             </p>
             <p>
-              <span className="text-gray-300">Süre:</span>{' '}
+              <span className="text-gray-300">{t('reports.duration')}:</span>{' '}
               {formatDuration(hoveredSegment.segment.duration)}
             </p>
           </div>
@@ -0,0 +1,480 @@
+import { useEffect, useState } from 'react';
+import { CalendarClock, Plus, X, Edit2, Trash2, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { ISO_WEEKDAYS } from '../lib/shifts';
+import { formatDate } from '../lib/format';
+import { localizedName } from '../lib/nameTranslations';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type Holiday = Database['public']['Tables']['holidays']['Row'];
+type Department = Database['public']['Tables']['departments']['Row'];
+
+const emptyShiftForm = {
+  name: '',
+  department_id: '',
+  start_time: '08:00',
+  end_time: '16:00',
+  days_of_week: [1, 2, 3, 4, 5],
+};
+
+export default function ShiftManagement() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingShift, setEditingShift] = useState<Shift | null>(null);
+  const [formData, setFormData] = useState(emptyShiftForm);
+  const [holidayForm, setHolidayForm] = useState({ holiday_date: '', name: '', department_id: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [{ data: shiftsData }, { data: holidaysData }, { data: depts }] = await Promise.all([
+        supabase.from('shifts').select('*').order('display_order'),
+        supabase.from('holidays').select('*').order('holiday_date'),
+        supabase.from('departments').select('*').order('name'),
+      ]);
+
+      setShifts(shiftsData || []);
+      setHolidays(holidaysData || []);
+      setDepartments(depts || []);
+    } catch (error) {
+      console.error('Error loading shifts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 2024-01-01 was a Monday, so day N of that week has ISO weekday N
+  const weekdayLabel = (isoDay: number) =>
+    new Date(2024, 0, isoDay).toLocaleDateString(i18n.language, { weekday: 'short' });
+
+  const getDepartmentName = (deptId: string | null) => {
+    if (!deptId) return t('shifts.allDepartments');
+    const department = departments.find((d) => d.id === deptId);
+    return department ? localizedName(department, i18n.language) : '?';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.days_of_week.length === 0) {
+      setError(t('shifts.noDaysSelected'));
+      return;
+    }
+
+    const values = {
+      name: formData.name.trim(),
+      department_id: formData.department_id || null,
+      start_time: formData.start_time,
+      end_time: formData.end_time,
+      days_of_week: [...formData.days_of_week].sort(),
+    };
+
+    try {
+      if (editingShift) {
+        const { error } = await supabase.from('shifts').update(values).eq('id', editingShift.id);
+        if (error) throw error;
+      } else {
+        const maxOrder = Math.max(...shifts.map((s) => s.display_order), 0);
+        const { error } = await supabase.from('shifts').insert({
+          ...values,
+          display_order: maxOrder + 1,
+          created_by: user?.id,
+        });
+        if (error) throw error;
+      }
+
+      closeModal();
+      loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleToggleActive = async (shift: Shift) => {
+    try {
+      const { error } = await supabase
+        .from('shifts')
+        .update({ is_active: !shift.is_active })
+        .eq('id', shift.id);
+
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error toggling shift:', error);
+    }
+  };
+
+  const handleDelete = async (shift: Shift) => {
+    if (!confirm(t('shifts.deleteConfirm', { name: shift.name }))) return;
+
+    try {
+      const { error } = await supabase.from('shifts').delete().eq('id', shift.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting shift:', error);
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!holidayForm.holiday_date) return;
+
+    try {
+      const { error } = await supabase.from('holidays').insert({
+        holiday_date: holidayForm.holiday_date,
+        name: holidayForm.name.trim(),
+        department_id: holidayForm.department_id || null,
+        created_by: user?.id,
+      });
+
+      if (error) throw error;
+      setHolidayForm({ holiday_date: '', name: '', department_id: '' });
+      loadData();
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+    }
+  };
+
+  const handleDeleteHoliday = async (id: string) => {
+    try {
+      const { error } = await supabase.from('holidays').delete().eq('id', id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+    }
+  };
+
+  const openEditModal = (shift: Shift) => {
+    setEditingShift(shift);
+    setFormData({
+      name: shift.name,
+      department_id: shift.department_id ?? '',
+      start_time: shift.start_time.slice(0, 5),
+      end_time: shift.end_time.slice(0, 5),
+      days_of_week: shift.days_of_week,
+    });
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingShift(null);
+    setFormData(emptyShiftForm);
+    setError(null);
+  };
+
+  const toggleDay = (isoDay: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(isoDay)
+        ? prev.days_of_week.filter((d) => d !== isoDay)
+        : [...prev.days_of_week, isoDay],
+    }));
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <CalendarClock className="w-6 h-6 text-gray-700" />
+          <h2 className="text-xl font-bold text-gray-900">{t('shifts.title')}</h2>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('shifts.addShift')}</span>
+        </button>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                {t('shifts.name')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                {t('history.department')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                {t('shifts.hours')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                {t('shifts.days')}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {shifts.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  {t('shifts.noShifts')}
+                </td>
+              </tr>
+            )}
+            {shifts.map((shift) => (
+              <tr key={shift.id} className={`hover:bg-gray-50 ${shift.is_active ? '' : 'opacity-60'}`}>
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">{shift.name}</td>
+                <td className="px-6 py-4 text-sm text-gray-600">
+                  {getDepartmentName(shift.department_id)}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-600">
+                  {shift.start_time.slice(0, 5)} - {shift.end_time.slice(0, 5)}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-600">
+                  {shift.days_of_week.map(weekdayLabel).join(', ')}
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex items-center justify-end space-x-2">
+                    <button
+                      onClick={() => handleToggleActive(shift)}
+                      className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                        shift.is_active
+                          ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                          : 'bg-green-100 text-green-800 hover:bg-green-200'
+                      }`}
+                    >
+                      {shift.is_active ? t('statusTypes.deactivate') : t('statusTypes.activate')}
+                    </button>
+                    <button
+                      onClick={() => openEditModal(shift)}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(shift)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-5 space-y-4">
+        <h3 className="font-bold text-gray-900">{t('shifts.holidays')}</h3>
+
+        {holidays.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('shifts.noHolidays')}</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {holidays.map((holiday) => (
+              <div key={holiday.id} className="flex items-center justify-between py-2">
+                <div className="text-sm">
+                  <span className="font-medium text-gray-900">
+                    {formatDate(`${holiday.holiday_date}T00:00`, i18n.language)}
+                  </span>
+                  {holiday.name && <span className="text-gray-600"> - {holiday.name}</span>}
+                  <span className="ml-2 text-xs text-gray-500">
+                    ({getDepartmentName(holiday.department_id)})
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleDeleteHoliday(holiday.id)}
+                  className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          onSubmit={handleAddHoliday}
+          className="grid grid-cols-1 md:grid-cols-4 gap-2 pt-4 border-t border-gray-200"
+        >
+          <input
+            type="date"
+            value={holidayForm.holiday_date}
+            onChange={(e) => setHolidayForm({ ...holidayForm, holiday_date: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            required
+          />
+          <input
+            type="text"
+            value={holidayForm.name}
+            onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            placeholder={t('shifts.holidayNamePlaceholder')}
+          />
+          <select
+            value={holidayForm.department_id}
+            onChange={(e) => setHolidayForm({ ...holidayForm, department_id: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+          >
+            <option value="">{t('shifts.allDepartments')}</option>
+            {departments.map((dept) => (
+              <option key={dept.id} value={dept.id}>
+                {localizedName(dept, i18n.language)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="flex items-center justify-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t('shifts.addHoliday')}</span>
+          </button>
+        </form>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h3 className="text-xl font-bold text-gray-900">
+                {editingShift ? t('shifts.editShift') : t('shifts.addShift')}
+              </h3>
+              <button onClick={closeModal} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('shifts.name')}
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  placeholder={t('shifts.namePlaceholder')}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('history.department')}
+                </label>
+                <select
+                  value={formData.department_id}
+                  onChange={(e) => setFormData({ ...formData, department_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                >
+                  <option value="">{t('shifts.allDepartments')}</option>
+                  {departments.map((dept) => (
+                    <option key={dept.id} value={dept.id}>
+                      {localizedName(dept, i18n.language)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    {t('shifts.startTime')}
+                  </label>
+                  <input
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    {t('shifts.endTime')}
+                  </label>
+                  <input
+                    type="time"
+                    value={formData.end_time}
+                    onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+              {formData.end_time <= formData.start_time && (
+                <p className="text-xs text-gray-500">{t('shifts.overnightHint')}</p>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('shifts.days')}
+                </label>
+                <div className="grid grid-cols-7 gap-1">
+                  {ISO_WEEKDAYS.map((isoDay) => (
+                    <button
+                      key={isoDay}
+                      type="button"
+                      onClick={() => toggleDay(isoDay)}
+                      className={`px-1 py-2 rounded text-xs font-medium border transition-colors ${
+                        formData.days_of_week.includes(isoDay)
+                          ? 'bg-gray-900 text-white border-gray-900'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {weekdayLabel(isoDay)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {error && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Printer, X, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDateTime, formatDuration, formatPercent } from '../lib/format';
+import { localizedName } from '../lib/nameTranslations';
+import { fetchStatusChanges } from '../lib/statusSegments';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+type StatusHistory = Database['public']['Tables']['status_history']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+type StatusReason = Database['public']['Tables']['status_reasons']['Row'];
+
+interface PrintSegment {
+  statusTypeId: string;
+  startTime: number;
+  endTime: number;
+}
+
+interface ShiftReportPrintProps {
+  title: string;
+  period: { start: number; end: number };
+  statusDurations: { statusTypeId: string; duration: number; percentage: number }[];
+  totalTime: number;
+  timeline: { machineId: string; machineCode: string; machineName: string; segments: PrintSegment[] }[];
+  machineIds: string[];
+  statusTypes: StatusType[];
+  reasons: StatusReason[];
+  statusColor: (statusTypeId: string) => string;
+  statusName: (statusTypeId: string) => string;
+  onClose: () => void;
+}
+
+// Printing hides the rest of the app while this class is on <body>; see index.css
+const PRINTING_CLASS = 'printing-report';
+
+export default function ShiftReportPrint({
+  title,
+  period,
+  statusDurations,
+  totalTime,
+  timeline,
+  machineIds,
+  statusTypes,
+  reasons,
+  statusColor,
+  statusName,
+  onClose,
+}: ShiftReportPrintProps) {
+  const { t, i18n } = useTranslation();
+  const { profile } = useAuth();
+  const [changes, setChanges] = useState<StatusHistory[]>([]);
+  const [openFaults, setOpenFaults] = useState<{ machine: Machine; entry?: StatusHistory }[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [generatedAt] = useState(() => new Date());
+
+  useEffect(() => {
+    document.body.classList.add(PRINTING_CLASS);
+    return () => document.body.classList.remove(PRINTING_CLASS);
+  }, []);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        const [historyData, { data: machinesData, error: machinesError }] = await Promise.all([
+          fetchStatusChanges(machineIds, period.start, period.end),
+          supabase.from('machines').select('*').in('id', machineIds).order('machine_code'),
+        ]);
+
+        if (machinesError) throw machinesError;
+
+        // A fault is open while the machine is still in an unplanned stop that needs
+        // maintenance
+        const faultStatusIds = statusTypes
+          .filter((st) => st.is_maintenance && st.oee_category === 'unplanned_downtime')
+          .map((st) => st.id);
+        const faultedMachines = (machinesData || []).filter((m) =>
+          faultStatusIds.includes(m.current_status_id)
+        );
+
+        // The change that put each faulted machine into its current status
+        const faultEntries = await Promise.all(
+          faultedMachines.map(async (machine) => {
+            const { data, error } = await supabase
+              .from('status_history')
+              .select('*')
+              .eq('machine_id', machine.id)
+              .order('changed_at', { ascending: false })
+              .limit(1)
+              .maybeSingle();
+            if (error) throw error;
+            return data ?? undefined;
+          })
+        );
+
+        const userIds = [
+          ...new Set(
+            [...historyData, ...faultEntries]
+              .filter((h): h is StatusHistory => h !== undefined)
+              .map((h) => h.changed_by)
+              .filter((id): id is string => id !== null)
+          ),
+        ];
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, full_name')
+          .in('id', userIds);
+
+        setChanges(historyData);
+        setMachines(machinesData || []);
+        setOpenFaults(faultedMachines.map((machine, i) => ({ machine, entry: faultEntries[i] })));
+        setUserNames(new Map(profiles?.map((p) => [p.id, p.full_name]) || []));
+      } catch (error) {
+        console.error('Error loading shift report:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [machineIds, period.start, period.end, statusTypes]);
+
+  const getMachineLabel = (machineId: string) => {
+    const machine = machines.find((m) => m.id === machineId);
+    return machine ? `${machine.machine_code} - ${machine.machine_name}` : t('history.unknownMachine');
+  };
+
+  const getStatusName = (statusTypeId: string | null, snapshot: string) => {
+    const statusType = statusTypes.find((st) => st.id === statusTypeId);
+    return statusType ? localizedName(statusType, i18n.language) : snapshot;
+  };
+
+  const getReasonLabel = (entry: StatusHistory) =>
+    [entry.reason_id, entry.sub_reason_id]
+      .map((id) => reasons.find((r) => r.id === id)?.name)
+      .filter(Boolean)
+      .join(' › ');
+
+  const range = period.end - period.start || 1;
+
+  return createPortal(
+    <div className="print-report fixed inset-0 z-50 bg-gray-100 overflow-y-auto print:bg-white">
+      <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-3 flex items-center justify-between print:hidden">
+        <p className="text-sm text-gray-600">{t('printReport.hint')}</p>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => window.print()}
+            disabled={loading}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" />
+            <span>{t('printReport.print')}</span>
+          </button>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-[210mm] mx-auto my-6 bg-white shadow p-8 space-y-6 text-gray-900 print:shadow-none print:my-0 print:p-0">
+        {/* Header */}
+        <div className="border-b-2 border-gray-900 pb-3 flex items-start justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-gray-500">{t('dashboard.title')}</p>
+            <h1 className="text-2xl font-bold">{t('printReport.title')}</h1>
+            <p className="text-sm font-semibold">{title}</p>
+          </div>
+          <div className="text-right text-xs text-gray-600 space-y-0.5">
+            <p>
+              {formatDateTime(period.start, i18n.language)} - {formatDateTime(period.end, i18n.language)}
+            </p>
+            <p>{t('printReport.generatedAt', { date: formatDateTime(generatedAt, i18n.language) })}</p>
+            {profile && <p>{t('printReport.generatedBy', { name: profile.full_name })}</p>}
+          </div>
+        </div>
+
+        {/* Summary */}
+        <section>
+          <h2 className="text-sm font-bold uppercase mb-2">{t('printReport.summary')}</h2>
+          <table className="w-full text-sm border border-gray-300">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-2 py-1 text-left">{t('export.status')}</th>
+                <th className="px-2 py-1 text-left">{t('printReport.duration')}</th>
+                <th className="px-2 py-1 text-left">{t('export.percentage')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {statusDurations.map((sd) => (
+                <tr key={sd.statusTypeId}>
+                  <td className="px-2 py-1">
+                    <span
+                      className="inline-block w-3 h-3 rounded-sm mr-2 align-middle"
+                      style={{ backgroundColor: statusColor(sd.statusTypeId) }}
+                    ></span>
+                    {statusName(sd.statusTypeId)}
+                  </td>
+                  <td className="px-2 py-1">{formatDuration(sd.duration, i18n.language)}</td>
+                  <td className="px-2 py-1">{formatPercent(sd.percentage / 100, i18n.language)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-600 mt-1">
+            {t('printReport.totalTracked', { duration: formatDuration(totalTime, i18n.language) })}
+          </p>
+        </section>
+
+        {/* Timeline */}
+        <section className="break-inside-avoid">
+          <h2 className="text-sm font-bold uppercase mb-2">{t('printReport.timeline')}</h2>
+          <div className="space-y-1">
+            {timeline.map((machineTimeline) => (
+              <div key={machineTimeline.machineId} className="flex items-center space-x-2">
+                <span className="w-24 text-xs font-medium truncate">{machineTimeline.machineCode}</span>
+                <div className="relative flex-1 h-4 bg-gray-100 border border-gray-200">
+                  {machineTimeline.segments.map((segment, idx) => (
+                    <div
+                      key={idx}
+                      className="absolute top-0 bottom-0"
+                      style={{
+                        left: `${Math.max(0, ((segment.startTime - period.start) / range) * 100)}%`,
+                        width: `${Math.min(100, ((segment.endTime - segment.startTime) / range) * 100)}%`,
+                        backgroundColor: statusColor(segment.statusTypeId),
+                      }}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3 mt-2 text-xs">
+            {statusDurations.map((sd) => (
+              <span key={sd.statusTypeId} className="flex items-center">
+                <span
+                  className="inline-block w-3 h-3 rounded-sm mr-1"
+                  style={{ backgroundColor: statusColor(sd.statusTypeId) }}
+                ></span>
+                {statusName(sd.statusTypeId)}
+              </span>
+            ))}
+          </div>
+        </section>
+
+        {/* Open faults */}
+        <section className="break-inside-avoid">
+          <h2 className="text-sm font-bold uppercase mb-2">{t('printReport.openFaults')}</h2>
+          {loading ? (
+            <p className="text-xs text-gray-500">{t('common.loading')}</p>
+          ) : openFaults.length === 0 ? (
+            <p className="text-xs text-gray-500">{t('printReport.noOpenFaults')}</p>
+          ) : (
+            <table className="w-full text-xs border border-gray-300">
+              <tbody className="divide-y divide-gray-200">
+                {openFaults.map(({ machine, entry }) => (
+                  <tr key={machine.id}>
+                    <td className="px-2 py-1 font-medium">
+                      <AlertCircle className="inline w-3 h-3 mr-1 text-red-600" />
+                      {machine.machine_code} - {machine.machine_name}
+                    </td>
+                    <td className="px-2 py-1">
+                      {getStatusName(machine.current_status_id, machine.current_status)}
+                    </td>
+                    <td className="px-2 py-1">
+                      {t('printReport.since', { date: formatDateTime(machine.last_updated_at, i18n.language) })}
+                    </td>
+                    <td className="px-2 py-1">
+                      {entry && [getReasonLabel(entry), entry.comment].filter(Boolean).join(' - ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {/* Status changes */}
+        <section>
+          <h2 className="text-sm font-bold uppercase mb-2">{t('printReport.statusChanges')}</h2>
+          {loading ? (
+            <p className="text-xs text-gray-500">{t('common.loading')}</p>
+          ) : changes.length === 0 ? (
+            <p className="text-xs text-gray-500">{t('history.noRecords')}</p>
+          ) : (
+            <table className="w-full text-xs border border-gray-300">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-2 py-1 text-left">{t('printReport.time')}</th>
+                  <th className="px-2 py-1 text-left">{t('history.machine')}</th>
+                  <th className="px-2 py-1 text-left">{t('export.status')}</th>
+                  <th className="px-2 py-1 text-left">{t('printReport.comment')}</th>
+                  <th className="px-2 py-1 text-left">{t('history.changedBy')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {changes.map((entry) => (
+                  <tr key={entry.id} className="break-inside-avoid">
+                    <td className="px-2 py-1 whitespace-nowrap">
+                      {formatDateTime(entry.changed_at, i18n.language)}
+                    </td>
+                    <td className="px-2 py-1">{getMachineLabel(entry.machine_id)}</td>
+                    <td className="px-2 py-1 whitespace-nowrap">
+                      {entry.previous_status
+                        ? `${getStatusName(entry.previous_status_type_id, entry.previous_status)} → `
+                        : ''}
+                      {getStatusName(entry.status_type_id, entry.status)}
+                    </td>
+                    <td className="px-2 py-1">
+                      {[getReasonLabel(entry), entry.comment].filter(Boolean).join(' - ')}
+                    </td>
+                    <td className="px-2 py-1">
+                      {entry.source === 'automatic'
+                        ? t('history.automatic')
+                        : (entry.changed_by && userNames.get(entry.changed_by)) || t('history.unknownUser')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {/* Signatures */}
+        <section className="grid grid-cols-2 gap-12 pt-8 break-inside-avoid">
+          {[t('printReport.handedOverBy'), t('printReport.receivedBy')].map((role) => (
+            <div key={role} className="space-y-6 text-xs">
+              <p className="font-bold uppercase">{role}</p>
+              <p className="border-b border-gray-400 pb-1">{t('printReport.name')}:</p>
+              <p className="border-b border-gray-400 pb-1">{t('printReport.signature')}:</p>
+              <p className="border-b border-gray-400 pb-1">{t('printReport.date')}:</p>
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>,
+    document.body
+  );
+}
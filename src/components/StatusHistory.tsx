@@ -1,7 +1,10 @@
 import { useEffect, useState } from 'react';
 import { History, Clock, User, MessageSquare } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
+import { localizedName } from '../lib/nameTranslations';
+import { formatDate, formatTime } from '../lib/format';
 
 type StatusHistoryRow = Database['public']['Tables']['status_history']['Row'];
 type StatusType = Database['public']['Tables']['status_types']['Row'];
@@ -16,6 +19,7 @@ interface StatusHistoryProps {
 }
 
 export default function StatusHistory({ machineId, machineName }: StatusHistoryProps) {
+  const { t, i18n } = useTranslation();
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
   const [loading, setLoading] = useState(true);
@@ -58,7 +62,9 @@ export default function StatusHistory({ machineId, machineName }: StatusHistoryP
 
       if (historyError) throw historyError;
 
-      const userIds = [...new Set(historyData?.map(h => h.changed_by) || [])];
+      const userIds = [
+        ...new Set(historyData?.map(h => h.changed_by).filter((id): id is string => id !== null) || []),
+      ];
 
       const { data: profiles, error: profilesError } = await supabase
         .from('profiles')
@@ -71,7 +77,9 @@ export default function StatusHistory({ machineId, machineName }: StatusHistoryP
 
       const enrichedHistory = historyData?.map(h => ({
         ...h,
-        user_name: userMap.get(h.changed_by) || 'Unknown User',
+        user_name: h.source === 'automatic'
+          ? t('history.automatic')
+          : (h.changed_by && userMap.get(h.changed_by)) || t('history.unknownUser'),
       })) || [];
 
       setHistory(enrichedHistory);
@@ -87,7 +95,7 @@ export default function StatusHistory({ machineId, machineName }: StatusHistoryP
       const { data, error } = await supabase
         .from('status_types')
         .select('*')
-        .eq('is_active', true)
+        // Inactive statuses still appear in the history
         .order('display_order');
 
       if (error) throw error;
@@ -97,8 +105,13 @@ export default function StatusHistory({ machineId, machineName }: StatusHistoryP
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const statusType = statusTypes.find(st => st.name === status);
+  const getStatusName = (statusTypeId: string, snapshot: string) => {
+    const statusType = statusTypes.find(st => st.id === statusTypeId);
+    return statusType ? localizedName(statusType, i18n.language) : snapshot;
+  };
+
+  const getStatusColor = (statusTypeId: string | null) => {
+    const statusType = statusTypes.find(st => st.id === statusTypeId);
     if (!statusType) return 'bg-gray-100 text-gray-800 border-gray-200';
 
     const colorMap: Record<string, string> = {
@@ -119,22 +132,22 @@ export default function StatusHistory({ machineId, machineName }: StatusHistoryP
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
       <div className="flex items-center space-x-3 mb-6">
         <History className="w-6 h-6 text-gray-700" />
-        <h3 className="text-xl font-bold text-gray-900">Durum Geçmişi</h3>
+        <h3 className="text-xl font-bold text-gray-900">{t('history.statusHistory')}</h3>
       </div>
 
       <div className="mb-4 p-3 bg-gray-50 rounded-lg">
-        <p className="text-sm text-gray-600">Makine: <span className="font-semibold text-gray-900">{machineName}</span></p>
+        <p className="text-sm text-gray-600">{t('history.machine')}: <span className="font-semibold text-gray-900">{machineName}</span></p>
       </div>
 
       {loading ? (
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
-          <p className="mt-3 text-gray-600 text-sm">Geçmiş yükleniyor...</p>
+          <p className="mt-3 text-gray-600 text-sm">{t('history.loading')}</p>
         </div>
       ) : history.length === 0 ? (
         <div className="text-center py-8 text-gray-500">
           <History className="w-12 h-12 mx-auto mb-3 opacity-30" />
-          <p>Henüz herhangi bir durum değişikliği kaydedilmedi</p>
+          <p>{t('history.noChanges')}</p>
         </div>
       ) : (
         <div className="space-y-4">
@@ -146,13 +159,13 @@ export default function StatusHistory({ machineId, machineName }: StatusHistoryP
                 className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
               >
                 <div className="flex items-start justify-between mb-3">
-                  <div className={`px-3 py-1 rounded-full text-sm font-semibold border ${getStatusColor(entry.status)}`}>
-                    {entry.status}
+                  <div className={`px-3 py-1 rounded-full text-sm font-semibold border ${getStatusColor(entry.status_type_id)}`}>
+                    {getStatusName(entry.status_type_id, entry.status)}
                   </div>
                   <div className="flex items-center text-xs text-gray-500">
                     <Clock className="w-3 h-3 mr-1" />
                     <span>
-                      {changeDate.toLocaleDateString()} {changeDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {formatDate(changeDate, i18n.language)} {formatTime(changeDate, i18n.language)}
                     </span>
                   </div>
                 </div>
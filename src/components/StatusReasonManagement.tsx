@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { X, Plus, Trash2, CornerDownRight, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { localizedName } from '../lib/nameTranslations';
+
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+type StatusReason = Database['public']['Tables']['status_reasons']['Row'];
+
+interface StatusReasonManagementProps {
+  statusType: StatusType;
+  onClose: () => void;
+}
+
+export default function StatusReasonManagement({ statusType, onClose }: StatusReasonManagementProps) {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [reasons, setReasons] = useState<StatusReason[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newReasonName, setNewReasonName] = useState('');
+  const [newSubReasonNames, setNewSubReasonNames] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReasons();
+  }, [statusType.id]);
+
+  const loadReasons = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('status_reasons')
+        .select('*')
+        .eq('status_type_id', statusType.id)
+        .order('display_order');
+
+      if (error) throw error;
+      setReasons(data || []);
+    } catch (error) {
+      console.error('Error loading status reasons:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const topLevelReasons = reasons.filter((r) => !r.parent_id);
+  const subReasonsOf = (parentId: string) => reasons.filter((r) => r.parent_id === parentId);
+
+  const addReason = async (name: string, parentId: string | null) => {
+    if (!name.trim()) return;
+    setError(null);
+
+    try {
+      const siblings = parentId ? subReasonsOf(parentId) : topLevelReasons;
+      const maxOrder = Math.max(...siblings.map((r) => r.display_order), 0);
+      const { error } = await supabase.from('status_reasons').insert({
+        status_type_id: statusType.id,
+        parent_id: parentId,
+        name: name.trim(),
+        display_order: maxOrder + 1,
+        created_by: user?.id,
+      });
+
+      if (error) throw error;
+
+      if (parentId) {
+        setNewSubReasonNames((prev) => ({ ...prev, [parentId]: '' }));
+      } else {
+        setNewReasonName('');
+      }
+      loadReasons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleToggleActive = async (reason: StatusReason) => {
+    try {
+      const { error } = await supabase
+        .from('status_reasons')
+        .update({ is_active: !reason.is_active })
+        .eq('id', reason.id);
+
+      if (error) throw error;
+      loadReasons();
+    } catch (error) {
+      console.error('Error toggling status reason:', error);
+    }
+  };
+
+  const handleDelete = async (reason: StatusReason) => {
+    if (!confirm(t('reasons.deleteConfirm', { name: reason.name }))) return;
+    setError(null);
+
+    try {
+      const { error } = await supabase.from('status_reasons').delete().eq('id', reason.id);
+      // 23503: still referenced by status history or sub-reasons
+      if (error?.code === '23503') throw new Error(t('reasons.inUse'));
+      if (error) throw error;
+      loadReasons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.deleteError'));
+    }
+  };
+
+  const renderReasonRow = (reason: StatusReason, isSubReason: boolean) => (
+    <div
+      className={`flex items-center justify-between py-2 ${isSubReason ? 'pl-6' : ''} ${
+        reason.is_active ? '' : 'opacity-60'
+      }`}
+    >
+      <div className="flex items-center space-x-2">
+        {isSubReason && <CornerDownRight className="w-4 h-4 text-gray-400" />}
+        <span className={`text-sm ${isSubReason ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+          {reason.name}
+        </span>
+        {!reason.is_active && (
+          <span className="text-xs text-red-600">({t('statusTypes.inactive')})</span>
+        )}
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => handleToggleActive(reason)}
+          className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+            reason.is_active
+              ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+              : 'bg-green-100 text-green-800 hover:bg-green-200'
+          }`}
+        >
+          {reason.is_active ? t('statusTypes.deactivate') : t('statusTypes.activate')}
+        </button>
+        <button
+          onClick={() => handleDelete(reason)}
+          className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">{t('reasons.title')}</h3>
+            <p className="text-sm text-gray-500">{localizedName(statusType, i18n.language)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {loading ? (
+            <div className="text-center py-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+            </div>
+          ) : topLevelReasons.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">{t('reasons.noReasons')}</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {topLevelReasons.map((reason) => (
+                <div key={reason.id} className="py-1">
+                  {renderReasonRow(reason, false)}
+                  {subReasonsOf(reason.id).map((subReason) => (
+                    <div key={subReason.id}>{renderReasonRow(subReason, true)}</div>
+                  ))}
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      addReason(newSubReasonNames[reason.id] || '', reason.id);
+                    }}
+                    className="flex items-center space-x-2 pl-6 py-2"
+                  >
+                    <input
+                      type="text"
+                      value={newSubReasonNames[reason.id] || ''}
+                      onChange={(e) =>
+                        setNewSubReasonNames((prev) => ({ ...prev, [reason.id]: e.target.value }))
+                      }
+                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                      placeholder={t('reasons.subReasonPlaceholder')}
+                    />
+                    <button
+                      type="submit"
+                      className="p-1 text-gray-700 hover:bg-gray-100 rounded"
+                      title={t('reasons.addSubReason')}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </form>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              addReason(newReasonName, null);
+            }}
+            className="flex items-center space-x-2 pt-4 border-t border-gray-200"
+          >
+            <input
+              type="text"
+              value={newReasonName}
+              onChange={(e) => setNewReasonName(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              placeholder={t('reasons.reasonPlaceholder')}
+            />
+            <button
+              type="submit"
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{t('reasons.addReason')}</span>
+            </button>
+          </form>
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
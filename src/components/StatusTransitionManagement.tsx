@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { TRANSITION_RULES, TransitionRule, transitionRule } from '../lib/statusTransitions';
+import { localizedName } from '../lib/nameTranslations';
+
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+type StatusTransition = Database['public']['Tables']['status_transitions']['Row'];
+
+interface StatusTransitionManagementProps {
+  statusType: StatusType;
+  statusTypes: StatusType[];
+  onChange: (statusType: StatusType) => void;
+  onClose: () => void;
+}
+
+export default function StatusTransitionManagement({
+  statusType,
+  statusTypes,
+  onChange,
+  onClose,
+}: StatusTransitionManagementProps) {
+  const { t, i18n } = useTranslation();
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [restricted, setRestricted] = useState(statusType.restrict_transitions);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTransitions();
+  }, [statusType.id]);
+
+  const loadTransitions = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('status_transitions')
+        .select('*')
+        .eq('from_status_type_id', statusType.id);
+
+      if (error) throw error;
+      setTransitions(data || []);
+    } catch (error) {
+      console.error('Error loading status transitions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleRestricted = async () => {
+    setError(null);
+
+    try {
+      const { error } = await supabase
+        .from('status_types')
+        .update({ restrict_transitions: !restricted })
+        .eq('id', statusType.id);
+
+      if (error) throw error;
+      setRestricted(!restricted);
+      onChange({ ...statusType, restrict_transitions: !restricted });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const handleRuleChange = async (target: StatusType, rule: TransitionRule) => {
+    setError(null);
+
+    try {
+      if (rule === 'notAllowed') {
+        const { error } = await supabase
+          .from('status_transitions')
+          .delete()
+          .eq('from_status_type_id', statusType.id)
+          .eq('to_status_type_id', target.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('status_transitions').upsert(
+          {
+            from_status_type_id: statusType.id,
+            to_status_type_id: target.id,
+            leader_only: rule === 'leaderOnly',
+          },
+          { onConflict: 'from_status_type_id,to_status_type_id' }
+        );
+        if (error) throw error;
+      }
+      loadTransitions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    }
+  };
+
+  const targets = statusTypes.filter((st) => st.id !== statusType.id);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">{t('transitions.title')}</h3>
+            <p className="text-sm text-gray-500">{localizedName(statusType, i18n.language)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={restricted}
+              onChange={handleToggleRestricted}
+              className="mt-1 rounded border-gray-300"
+            />
+            <span>
+              <span className="block text-sm font-semibold text-gray-700">{t('transitions.restrict')}</span>
+              <span className="block text-xs text-gray-500">{t('transitions.restrictHint')}</span>
+            </span>
+          </label>
+
+          {restricted &&
+            (loading ? (
+              <div className="text-center py-4">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {targets.map((target) => (
+                  <div key={target.id} className="flex items-center justify-between py-2">
+                    <span className={`text-sm text-gray-900 ${target.is_active ? '' : 'opacity-60'}`}>
+                      {localizedName(target, i18n.language)}
+                    </span>
+                    <select
+                      value={transitionRule(transitions, statusType.id, target.id)}
+                      onChange={(e) => handleRuleChange(target, e.target.value as TransitionRule)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {TRANSITION_RULES.map((rule) => (
+                        <option key={rule} value={rule}>
+                          {t(`transitions.rules.${rule}`)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            ))}
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
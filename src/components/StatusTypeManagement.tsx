@@ -1,30 +1,49 @@
 import { useEffect, useState } from 'react';
-import { Tag, Plus, X, Edit2, Trash2, AlertCircle } from 'lucide-react';
+import { Tag, Plus, X, Edit2, Trash2, AlertCircle, ListTree, ArrowRightLeft } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
+import StatusReasonManagement from './StatusReasonManagement';
+import StatusTransitionManagement from './StatusTransitionManagement';
+import NameTranslationFields from './NameTranslationFields';
+import { OEE_CATEGORIES, OeeCategory } from '../lib/oee';
+import {
+  NameTranslations,
+  cleanNameTranslations,
+  localizedName,
+  nameTranslations,
+} from '../lib/nameTranslations';
 
 type StatusType = Database['public']['Tables']['status_types']['Row'];
 
 const colorOptions = [
-  { value: 'green', label: 'Green', bg: 'bg-green-100', text: 'text-green-800', border: 'border-green-200' },
-  { value: 'blue', label: 'Blue', bg: 'bg-blue-100', text: 'text-blue-800', border: 'border-blue-200' },
-  { value: 'yellow', label: 'Yellow', bg: 'bg-yellow-100', text: 'text-yellow-800', border: 'border-yellow-200' },
-  { value: 'red', label: 'Red', bg: 'bg-red-100', text: 'text-red-800', border: 'border-red-200' },
-  { value: 'purple', label: 'Purple', bg: 'bg-purple-100', text: 'text-purple-800', border: 'border-purple-200' },
-  { value: 'orange', label: 'Orange', bg: 'bg-orange-100', text: 'text-orange-800', border: 'border-orange-200' },
-  { value: 'pink', label: 'Pink', bg: 'bg-pink-100', text: 'text-pink-800', border: 'border-pink-200' },
-  { value: 'gray', label: 'Gray', bg: 'bg-gray-100', text: 'text-gray-800', border: 'border-gray-200' },
+  { value: 'green', bg: 'bg-green-100', text: 'text-green-800', border: 'border-green-200' },
+  { value: 'blue', bg: 'bg-blue-100', text: 'text-blue-800', border: 'border-blue-200' },
+  { value: 'yellow', bg: 'bg-yellow-100', text: 'text-yellow-800', border: 'border-yellow-200' },
+  { value: 'red', bg: 'bg-red-100', text: 'text-red-800', border: 'border-red-200' },
+  { value: 'purple', bg: 'bg-purple-100', text: 'text-purple-800', border: 'border-purple-200' },
+  { value: 'orange', bg: 'bg-orange-100', text: 'text-orange-800', border: 'border-orange-200' },
+  { value: 'pink', bg: 'bg-pink-100', text: 'text-pink-800', border: 'border-pink-200' },
+  { value: 'gray', bg: 'bg-gray-100', text: 'text-gray-800', border: 'border-gray-200' },
 ];
 
 export default function StatusTypeManagement() {
+  const { t, i18n } = useTranslation();
   const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingStatus, setEditingStatus] = useState<StatusType | null>(null);
+  const [reasonsFor, setReasonsFor] = useState<StatusType | null>(null);
+  const [transitionsFor, setTransitionsFor] = useState<StatusType | null>(null);
   const [formData, setFormData] = useState({
     name: '',
+    name_translations: {} as NameTranslations,
     color: 'gray',
+    requires_reason: false,
+    is_maintenance: false,
+    is_initial: false,
+    oee_category: 'unplanned_downtime' as OeeCategory,
   });
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
@@ -60,7 +79,12 @@ export default function StatusTypeManagement() {
           .from('status_types')
           .update({
             name: formData.name,
+            name_translations: cleanNameTranslations(formData.name_translations),
             color: formData.color,
+            requires_reason: formData.requires_reason,
+            is_maintenance: formData.is_maintenance,
+            is_initial: formData.is_initial,
+            oee_category: formData.oee_category,
           })
           .eq('id', editingStatus.id);
 
@@ -69,7 +93,12 @@ export default function StatusTypeManagement() {
         const maxOrder = Math.max(...statusTypes.map(s => s.display_order), 0);
         const { error } = await supabase.from('status_types').insert({
           name: formData.name,
+          name_translations: cleanNameTranslations(formData.name_translations),
           color: formData.color,
+          requires_reason: formData.requires_reason,
+          is_maintenance: formData.is_maintenance,
+          is_initial: formData.is_initial,
+          oee_category: formData.oee_category,
           display_order: maxOrder + 1,
           created_by: user?.id,
         });
@@ -77,12 +106,12 @@ export default function StatusTypeManagement() {
         if (error) throw error;
       }
 
-      setFormData({ name: '', color: 'gray' });
+      setFormData({ name: '', name_translations: {}, color: 'gray', requires_reason: false, is_maintenance: false, is_initial: false, oee_category: 'unplanned_downtime' });
       setShowModal(false);
       setEditingStatus(null);
       loadStatusTypes();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save status type');
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
     }
   };
 
@@ -102,14 +131,19 @@ export default function StatusTypeManagement() {
 
   const handleDelete = async (status: StatusType) => {
     if (status.is_default) {
-      alert('Cannot delete default status types');
+      alert(t('statusTypes.cannotDeleteDefault'));
       return;
     }
 
-    if (!confirm(`Are you sure you want to delete "${status.name}"?`)) return;
+    if (!confirm(t('statusTypes.deleteConfirm', { name: localizedName(status, i18n.language) }))) return;
 
     try {
       const { error } = await supabase.from('status_types').delete().eq('id', status.id);
+      // 23503: still referenced by machines or status history
+      if (error?.code === '23503') {
+        alert(t('statusTypes.inUse'));
+        return;
+      }
       if (error) throw error;
       loadStatusTypes();
     } catch (error) {
@@ -121,7 +155,12 @@ export default function StatusTypeManagement() {
     setEditingStatus(status);
     setFormData({
       name: status.name,
+      name_translations: nameTranslations(status),
       color: status.color,
+      requires_reason: status.requires_reason,
+      is_maintenance: status.is_maintenance,
+      is_initial: status.is_initial,
+      oee_category: status.oee_category,
     });
     setShowModal(true);
   };
@@ -129,7 +168,7 @@ export default function StatusTypeManagement() {
   const closeModal = () => {
     setShowModal(false);
     setEditingStatus(null);
-    setFormData({ name: '', color: 'gray' });
+    setFormData({ name: '', name_translations: {}, color: 'gray', requires_reason: false, is_maintenance: false, is_initial: false, oee_category: 'unplanned_downtime' });
     setError(null);
   };
 
@@ -151,14 +190,14 @@ export default function StatusTypeManagement() {
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <Tag className="w-6 h-6 text-gray-700" />
-          <h2 className="text-xl font-bold text-gray-900">Durum Türleri</h2>
+          <h2 className="text-xl font-bold text-gray-900">{t('statusTypes.title')}</h2>
         </div>
         <button
           onClick={() => setShowModal(true)}
           className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
         >
           <Plus className="w-4 h-4" />
-          <span>Durum Türü Ekle</span>
+          <span>{t('statusTypes.addType')}</span>
         </button>
       </div>
 
@@ -175,13 +214,28 @@ export default function StatusTypeManagement() {
               <div className="flex items-start justify-between mb-3">
                 <div className="flex-1">
                   <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold border ${colorClasses.bg} ${colorClasses.text} ${colorClasses.border}`}>
-                    {status.name}
+                    {localizedName(status, i18n.language)}
                   </div>
                   {status.is_default && (
-                    <span className="ml-2 text-xs text-gray-500">(Varsayılan)</span>
+                    <span className="ml-2 text-xs text-gray-500">({t('statusTypes.default')})</span>
                   )}
                   {!status.is_active && (
-                    <span className="ml-2 text-xs text-red-600">(Inactive)</span>
+                    <span className="ml-2 text-xs text-red-600">({t('statusTypes.inactive')})</span>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500">
+                    {t(`oee.categories.${status.oee_category}`)}
+                  </p>
+                  {status.requires_reason && (
+                    <p className="mt-1 text-xs text-gray-500">{t('reasons.requiresReason')}</p>
+                  )}
+                  {status.is_maintenance && (
+                    <p className="mt-1 text-xs text-gray-500">{t('workOrders.opensWorkOrder')}</p>
+                  )}
+                  {status.is_initial && (
+                    <p className="mt-1 text-xs text-gray-500">{t('statusTypes.initial')}</p>
+                  )}
+                  {status.restrict_transitions && (
+                    <p className="mt-1 text-xs text-gray-500">{t('transitions.restricted')}</p>
                   )}
                 </div>
               </div>
@@ -195,7 +249,21 @@ export default function StatusTypeManagement() {
                       : 'bg-green-100 text-green-800 hover:bg-green-200'
                   }`}
                 >
-                  {status.is_active ? 'Deactivate' : 'Activate'}
+                  {status.is_active ? t('statusTypes.deactivate') : t('statusTypes.activate')}
+                </button>
+                <button
+                  onClick={() => setReasonsFor(status)}
+                  className="p-2 text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                  title={t('reasons.title')}
+                >
+                  <ListTree className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setTransitionsFor(status)}
+                  className="p-2 text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                  title={t('transitions.title')}
+                >
+                  <ArrowRightLeft className="w-4 h-4" />
                 </button>
                 <button
                   onClick={() => openEditModal(status)}
@@ -219,10 +287,10 @@ export default function StatusTypeManagement() {
 
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
               <h3 className="text-xl font-bold text-gray-900">
-                {editingStatus ? 'Durum Türü Güncelle' : 'Durum Türü Ekle'}
+                {editingStatus ? t('statusTypes.editType') : t('statusTypes.addType')}
               </h3>
               <button onClick={closeModal} className="text-gray-400 hover:text-gray-600">
                 <X className="w-6 h-6" />
@@ -232,21 +300,27 @@ export default function StatusTypeManagement() {
             <form onSubmit={handleSubmit} className="p-6 space-y-4">
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Durum Adı
+                  {t('statusTypes.name')}
                 </label>
                 <input
                   type="text"
                   value={formData.name}
                   onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="e.g., Calibration, Cleaning"
+                  placeholder={t('statusTypes.namePlaceholder')}
                   required
                 />
               </div>
 
+              <NameTranslationFields
+                name={formData.name}
+                value={formData.name_translations}
+                onChange={(name_translations) => setFormData({ ...formData, name_translations })}
+              />
+
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Renk
+                  {t('statusTypes.color')}
                 </label>
                 <div className="grid grid-cols-4 gap-2">
                   {colorOptions.map((color) => (
@@ -260,12 +334,77 @@ export default function StatusTypeManagement() {
                           : `${color.bg} ${color.text} ${color.border}`
                       }`}
                     >
-                      {color.label}
+                      {t(`statusTypes.colors.${color.value}`)}
                     </button>
                   ))}
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('oee.category')}
+                </label>
+                <select
+                  value={formData.oee_category}
+                  onChange={(e) =>
+                    setFormData({ ...formData, oee_category: e.target.value as OeeCategory })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                >
+                  {OEE_CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      {t(`oee.categories.${category}`)}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">{t('oee.categoryHint')}</p>
+              </div>
+
+              <label className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={formData.requires_reason}
+                  onChange={(e) => setFormData({ ...formData, requires_reason: e.target.checked })}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-gray-700">
+                    {t('reasons.requiresReason')}
+                  </span>
+                  <span className="block text-xs text-gray-500">{t('reasons.requiresReasonHint')}</span>
+                </span>
+              </label>
+
+              <label className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={formData.is_maintenance}
+                  onChange={(e) => setFormData({ ...formData, is_maintenance: e.target.checked })}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-gray-700">
+                    {t('workOrders.opensWorkOrder')}
+                  </span>
+                  <span className="block text-xs text-gray-500">{t('workOrders.opensWorkOrderHint')}</span>
+                </span>
+              </label>
+
+              <label className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={formData.is_initial}
+                  onChange={(e) => setFormData({ ...formData, is_initial: e.target.checked })}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-gray-700">
+                    {t('statusTypes.initial')}
+                  </span>
+                  <span className="block text-xs text-gray-500">{t('statusTypes.initialHint')}</span>
+                </span>
+              </label>
+
               {error && (
                 <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
                   <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
@@ -279,19 +418,34 @@ export default function StatusTypeManagement() {
                   onClick={closeModal}
                   className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
                 >
-                  İptal
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="submit"
                   className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800"
                 >
-                  Durum {editingStatus ? 'Güncelle' : 'Ekle'} 
+                  {editingStatus ? t('common.save') : t('statusTypes.addType')}
                 </button>
               </div>
             </form>
           </div>
         </div>
       )}
+
+      {reasonsFor && (
+        <StatusReasonManagement statusType={reasonsFor} onClose={() => setReasonsFor(null)} />
+      )}
+
+      {transitionsFor && (
+        <StatusTransitionManagement
+          statusType={transitionsFor}
+          statusTypes={statusTypes}
+          onChange={(updated) =>
+            setStatusTypes((prev) => prev.map((st) => (st.id === updated.id ? updated : st)))
+          }
+          onClose={() => setTransitionsFor(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,12 +1,20 @@
 import { useState, useEffect } from 'react';
-import { X, AlertCircle } from 'lucide-react';
+import { X, AlertCircle, CloudOff, PackageCheck } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
+import { useOutbox } from '../contexts/OutboxContext';
+import { changeMachineStatus, StatusChangeError } from '../lib/machineStatus';
+import { enqueueStatusChange } from '../lib/statusOutbox';
+import { transitionBlock } from '../lib/statusTransitions';
+import { localizedName } from '../lib/nameTranslations';
+import ProductionCountModal from './ProductionCountModal';
 
 type Machine = Database['public']['Tables']['machines']['Row'];
 type StatusType = Database['public']['Tables']['status_types']['Row'];
+type StatusReason = Database['public']['Tables']['status_reasons']['Row'];
+type StatusTransition = Database['public']['Tables']['status_transitions']['Row'];
 
 interface StatusUpdateModalProps {
   machine: Machine;
@@ -25,19 +33,108 @@ const colorMap: Record<string, { bg: string; text: string; border: string }> = {
   gray: { bg: 'bg-gray-50', text: 'text-gray-700', border: 'border-gray-200' },
 };
 
+// Last successfully loaded status types, reasons and transitions, so the modal still works on a tablet
+// that has lost its connection.
+const STATUS_TYPES_CACHE_KEY = 'statusTypesCache';
+const STATUS_REASONS_CACHE_KEY = 'statusReasonsCache';
+const STATUS_TRANSITIONS_CACHE_KEY = 'statusTransitionsCache';
+
 export default function StatusUpdateModal({ machine, onClose, onUpdate }: StatusUpdateModalProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const { isOnline, entriesForMachine } = useOutbox();
+  const pendingEntries = entriesForMachine(machine.id);
+  const lastPending = pendingEntries[pendingEntries.length - 1];
+  // Queued changes have not reached the server yet, but the operator already made them
+  const effectiveStatus = lastPending?.status ?? machine.current_status;
+  // Entries queued before status type ids were recorded only carry the name
+  const effectiveStatusId = lastPending ? lastPending.statusTypeId : machine.current_status_id;
   const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
-  const [selectedStatus, setSelectedStatus] = useState<string>(machine.current_status);
+  const [selectedStatusId, setSelectedStatusId] = useState(effectiveStatusId);
+  const [reasons, setReasons] = useState<StatusReason[]>([]);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [reasonId, setReasonId] = useState('');
+  const [subReasonId, setSubReasonId] = useState('');
   const [comment, setComment] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { user, profile } = useAuth();
+  const [showProductionCounts, setShowProductionCounts] = useState(false);
+  const { user, profile, permissions } = useAuth();
 
   useEffect(() => {
     loadStatusTypes();
+    loadReasons();
+    loadTransitions();
   }, []);
 
+  const loadReasons = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('status_reasons')
+        .select('*')
+        .eq('is_active', true)
+        .order('display_order');
+
+      if (error) throw error;
+      setReasons(data || []);
+      localStorage.setItem(STATUS_REASONS_CACHE_KEY, JSON.stringify(data || []));
+    } catch (error) {
+      console.error('Error loading status reasons:', error);
+      const cached = localStorage.getItem(STATUS_REASONS_CACHE_KEY);
+      if (cached) setReasons(JSON.parse(cached));
+    }
+  };
+
+  const loadTransitions = async () => {
+    try {
+      const { data, error } = await supabase.from('status_transitions').select('*');
+
+      if (error) throw error;
+      setTransitions(data || []);
+      localStorage.setItem(STATUS_TRANSITIONS_CACHE_KEY, JSON.stringify(data || []));
+    } catch (error) {
+      console.error('Error loading status transitions:', error);
+      const cached = localStorage.getItem(STATUS_TRANSITIONS_CACHE_KEY);
+      if (cached) setTransitions(JSON.parse(cached));
+    }
+  };
+
+  const effectiveStatusType = statusTypes.find((st) =>
+    effectiveStatusId ? st.id === effectiveStatusId : st.name === effectiveStatus
+  );
+  const selectedStatusType = selectedStatusId
+    ? statusTypes.find((st) => st.id === selectedStatusId)
+    : effectiveStatusType;
+  // Without loaded status types only the effective status can be selected
+  const selectedStatus = {
+    id: selectedStatusType?.id ?? selectedStatusId,
+    name: selectedStatusType?.name ?? effectiveStatus,
+  };
+  const statusChanged = selectedStatus.id !== (effectiveStatusType?.id ?? effectiveStatusId);
+  // The current status stays selectable so a comment can be added without a change
+  const allowedStatusTypes = statusTypes.filter(
+    (st) => st.id === effectiveStatusType?.id || permissions.canSetStatus(machine, st)
+  );
+  const effectiveStatusName = effectiveStatusType
+    ? localizedName(effectiveStatusType, i18n.language)
+    : effectiveStatus;
+  const statusReasons = reasons.filter(
+    (r) => r.status_type_id === selectedStatusType?.id && !r.parent_id
+  );
+  const subReasons = reasons.filter((r) => reasonId && r.parent_id === reasonId);
+  const reasonRequired =
+    !!selectedStatusType?.requires_reason && statusChanged;
+
+  const handleStatusSelect = (statusTypeId: string) => {
+    setSelectedStatusId(statusTypeId);
+    setReasonId('');
+    setSubReasonId('');
+  };
+
+  const handleReasonSelect = (id: string) => {
+    setReasonId(id);
+    setSubReasonId('');
+  };
+
   const loadStatusTypes = async () => {
     try {
       const { data, error } = await supabase
@@ -48,11 +145,30 @@ export default function StatusUpdateModal({ machine, onClose, onUpdate }: Status
 
       if (error) throw error;
       setStatusTypes(data || []);
+      localStorage.setItem(STATUS_TYPES_CACHE_KEY, JSON.stringify(data || []));
     } catch (error) {
       console.error('Error loading status types:', error);
+      const cached = localStorage.getItem(STATUS_TYPES_CACHE_KEY);
+      if (cached) setStatusTypes(JSON.parse(cached));
     }
   };
 
+  const queueStatusChange = async (changedAt: string) => {
+    await enqueueStatusChange({
+      machineId: machine.id,
+      machineCode: machine.machine_code,
+      statusTypeId: selectedStatus.id,
+      status: selectedStatus.name,
+      previousStatus: effectiveStatus,
+      comment: comment.trim(),
+      reasonId: reasonId || undefined,
+      subReasonId: subReasonId || undefined,
+      changedAt,
+      // Replaying the previous queued change moves last_updated_at to its changedAt
+      expectedUpdatedAt: lastPending?.changedAt ?? machine.last_updated_at,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -61,42 +177,45 @@ export default function StatusUpdateModal({ machine, onClose, onUpdate }: Status
       return;
     }
 
-    if (selectedStatus === machine.current_status && !comment.trim()) {
+    if (!statusChanged && !comment.trim()) {
       setError(t('errors.changeStatusOrComment'));
       return;
     }
 
+    if (reasonRequired && !reasonId) {
+      setError(t('errors.reasonRequired'));
+      return;
+    }
+
+    if (reasonId && subReasons.length > 0 && !subReasonId) {
+      setError(t('errors.subReasonRequired'));
+      return;
+    }
+
     try {
       setSaving(true);
-      setError(null); 
-      const { error: updateError } = await supabase
-        .from('machines')
-        .update({
-          current_status: selectedStatus,
-          last_updated_at: new Date().toISOString(),
-          last_updated_by: user.id,
-        })
-        .eq('id', machine.id);
-
-      if (updateError) throw updateError;
-
-      const { error: historyError } = await supabase
-        .from('status_history')
-        .insert({
-          machine_id: machine.id,
-          status: selectedStatus,
-          previous_status: machine.current_status,
-          comment: comment.trim(),
-          changed_by: user.id,
-          changed_at: new Date().toISOString(),
-        });
-
-      if (historyError) throw historyError;
+      setError(null);
+      const changedAt = new Date().toISOString();
+
+      // Changes queued behind earlier unsent ones must wait their turn
+      if (!isOnline || pendingEntries.length > 0) {
+        await queueStatusChange(changedAt);
+      } else {
+        try {
+          await changeMachineStatus(machine.id, selectedStatus, comment, {
+            reasonId: reasonId || undefined,
+            subReasonId: subReasonId || undefined,
+          });
+        } catch (err) {
+          if (!(err instanceof StatusChangeError && err.isNetworkError)) throw err;
+          await queueStatusChange(changedAt);
+        }
+      }
 
       onUpdate();
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update machine status');
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
     } finally {
       setSaving(false);
     }
@@ -104,7 +223,7 @@ export default function StatusUpdateModal({ machine, onClose, onUpdate }: Status
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h3 className="text-xl font-bold text-gray-900">{t('status.updateStatus')}</h3>
           <button
@@ -116,13 +235,36 @@ export default function StatusUpdateModal({ machine, onClose, onUpdate }: Status
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {(!isOnline || pendingEntries.length > 0) && (
+            <div className="flex items-start space-x-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <CloudOff className="w-5 h-5 text-amber-600 flex-shrink-0" />
+              <p className="text-sm text-amber-700">
+                {isOnline
+                  ? t('outbox.queuedBehindPending', { count: pendingEntries.length })
+                  : t('outbox.offlineNotice')}
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-semibold text-gray-700 mb-2">
               {t('machines.title')}
             </label>
-            <div className="bg-gray-50 p-3 rounded-lg">
-              <p className="font-medium text-gray-900">{machine.machine_code}</p>
-              <p className="text-sm text-gray-600">{machine.machine_name}</p>
+            <div className="bg-gray-50 p-3 rounded-lg flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{machine.machine_code}</p>
+                <p className="text-sm text-gray-600">{machine.machine_name}</p>
+              </div>
+              {isOnline && (
+                <button
+                  type="button"
+                  onClick={() => setShowProductionCounts(true)}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                  <PackageCheck className="w-4 h-4" />
+                  <span>{t('production.record')}</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -131,26 +273,86 @@ export default function StatusUpdateModal({ machine, onClose, onUpdate }: Status
               {t('status.currentStatus')}
             </label>
             <div className="grid grid-cols-2 gap-2">
-              {statusTypes.map((statusType) => {
+              {allowedStatusTypes.map((statusType) => {
                 const colors = colorMap[statusType.color] || colorMap.gray;
+                const block = transitionBlock(
+                  transitions,
+                  effectiveStatusType,
+                  statusType,
+                  permissions.canManageMachine(machine)
+                );
                 return (
                   <button
                     key={statusType.id}
                     type="button"
-                    onClick={() => setSelectedStatus(statusType.name)}
+                    onClick={() => handleStatusSelect(statusType.id)}
+                    disabled={!!block}
+                    title={block ? t(`transitions.blocked.${block}`, { status: effectiveStatusName }) : undefined}
                     className={`px-4 py-3 rounded-lg font-medium transition-all border-2 ${
-                      selectedStatus === statusType.name
+                      selectedStatusType?.id === statusType.id
                         ? 'bg-gray-900 text-white border-gray-900'
-                        : `${colors.bg} ${colors.text} ${colors.border} hover:opacity-80`
+                        : block
+                          ? 'bg-gray-50 text-gray-400 border-gray-200 cursor-not-allowed'
+                          : `${colors.bg} ${colors.text} ${colors.border} hover:opacity-80`
                     }`}
                   >
-                    {statusType.name}
+                    {localizedName(statusType, i18n.language)}
+                    {block && (
+                      <span className="block text-xs font-normal">
+                        {t(`transitions.blocked.${block}`, { status: effectiveStatusName })}
+                      </span>
+                    )}
                   </button>
                 );
               })}
             </div>
           </div>
 
+          {statusReasons.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                {reasonRequired ? t('reasons.reason') : t('reasons.reasonOptional')}
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {statusReasons.map((reason) => (
+                  <button
+                    key={reason.id}
+                    type="button"
+                    onClick={() => handleReasonSelect(reason.id)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all border-2 ${
+                      reasonId === reason.id
+                        ? 'bg-gray-900 text-white border-gray-900'
+                        : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {reason.name}
+                  </button>
+                ))}
+              </div>
+
+              {subReasons.length > 0 && (
+                <div className="mt-3">
+                  <label htmlFor="subReason" className="block text-sm font-semibold text-gray-700 mb-2">
+                    {t('reasons.subReason')}
+                  </label>
+                  <select
+                    id="subReason"
+                    value={subReasonId}
+                    onChange={(e) => setSubReasonId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                  >
+                    <option value="">{t('reasons.selectSubReason')}</option>
+                    {subReasons.map((subReason) => (
+                      <option key={subReason.id} value={subReason.id}>
+                        {subReason.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
           <div>
             <label htmlFor="comment" className="block text-sm font-semibold text-gray-700 mb-2">
               {t('status.commentOptional')}
@@ -190,6 +392,10 @@ export default function StatusUpdateModal({ machine, onClose, onUpdate }: Status
           </div>
         </form>
       </div>
+
+      {showProductionCounts && (
+        <ProductionCountModal machine={machine} onClose={() => setShowProductionCounts(false)} />
+      )}
     </div>
   );
 }
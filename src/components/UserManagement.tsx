@@ -1,28 +1,34 @@
 import { useEffect, useState } from 'react';
-import { Users, Plus, X, AlertCircle } from 'lucide-react';
+import { Users, Plus, X, AlertCircle, Mail, KeyRound } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
 import { useAuth } from '../contexts/AuthContext';
+import { inviteUser, deactivateUser, reactivateUser, sendPasswordReset } from '../lib/userAdmin';
+import { Role, ROLES } from '../lib/permissions';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
+type AccessRole = Database['public']['Tables']['access_roles']['Row'];
 
 export default function UserManagement() {
-  const { profile } = useAuth();
+  const { t } = useTranslation();
+  const { profile, permissions } = useAuth();
   const [users, setUsers] = useState<Profile[]>([]);
+  const [accessRoles, setAccessRoles] = useState<AccessRole[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
     full_name: '',
-    role: 'operator' as Profile['role'],
+    role: 'operator' as Role,
   });
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     loadUsers();
-  }, []);
+  }, [permissions.role]);
 
   const loadUsers = async () => {
     try {
@@ -35,7 +41,7 @@ export default function UserManagement() {
       // if (error) throw error;
       let query = supabase.from('profiles').select('*').order('full_name');
 
-      if (profile?.role === 'team_leader') {
+      if (!permissions.canAdministerUsers) {
         query = query.eq('role', 'operator');
       }
 
@@ -43,6 +49,16 @@ export default function UserManagement() {
 
       if (error) throw error;
       setUsers(data || []);
+
+      if (permissions.canAdministerUsers) {
+        const { data: rolesData, error: rolesError } = await supabase
+          .from('access_roles')
+          .select('*')
+          .order('name');
+
+        if (rolesError) throw rolesError;
+        setAccessRoles(rolesData || []);
+      }
     } catch (error) {
       console.error('Error loading users:', error);
     } finally {
@@ -56,42 +72,25 @@ export default function UserManagement() {
     setSubmitting(true);
 
     try {
-      const { data: authData, error: authError } = await supabase.auth.signUp({
-        email: formData.email,
-        password: formData.password,
-      });
-
-      if (authError) throw authError;
-      if (!authData.user) throw new Error('No user returned from signup');
-
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .insert({
-          id: authData.user.id,
-          email: formData.email,
-          full_name: formData.full_name,
-          role: formData.role,
-        });
-
-      if (profileError) throw profileError;
+      await inviteUser(formData.email, formData.full_name, formData.role);
 
+      setNotice(t('users.inviteSent', { email: formData.email }));
       setFormData({
         email: '',
-        password: '',
         full_name: '',
         role: 'operator',
       });
       setShowAddModal(false);
       loadUsers();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create user');
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
     } finally {
       setSubmitting(false);
     }
   };
 
-  const handleRoleChange = async (userId: string, newRole: Profile['role']) => {
-    if (profile?.role === 'team_leader') {
+  const handleRoleChange = async (userId: string, newRole: Role) => {
+    if (!permissions.canAdministerUsers) {
       return;
     }
     try {
@@ -107,6 +106,46 @@ export default function UserManagement() {
     }
   };
 
+  const handleAccessRoleChange = async (userId: string, accessRoleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ access_role_id: accessRoleId || null })
+        .eq('id', userId);
+
+      if (error) throw error;
+      loadUsers();
+    } catch (error) {
+      console.error('Error updating access role:', error);
+    }
+  };
+
+  const handleToggleActive = async (user: Profile) => {
+    if (user.is_active && !confirm(t('users.deactivateConfirm', { name: user.full_name }))) return;
+
+    setNotice(null);
+    try {
+      if (user.is_active) {
+        await deactivateUser(user.id);
+      } else {
+        await reactivateUser(user.id);
+      }
+      loadUsers();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t('errors.generic'));
+    }
+  };
+
+  const handleSendReset = async (user: Profile) => {
+    setNotice(null);
+    try {
+      await sendPasswordReset(user.id);
+      setNotice(t('users.resetSent', { email: user.email }));
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t('errors.generic'));
+    }
+  };
+
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case 'admin':
@@ -131,50 +170,118 @@ export default function UserManagement() {
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <Users className="w-6 h-6 text-gray-700" />
-          <h2 className="text-xl font-bold text-gray-900">Kullanıcı Yönetimi</h2>
+          <h2 className="text-xl font-bold text-gray-900">{t('users.title')}</h2>
         </div>
         <button
           onClick={() => setShowAddModal(true)}
           className="flex items-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
         >
           <Plus className="w-4 h-4" />
-          <span>Kullanıcı Ekle</span>
+          <span>{t('users.addUser')}</span>
         </button>
       </div>
 
+      {notice && (
+        <div className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-800">{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-blue-400 hover:text-blue-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
         <table className="w-full">
           <thead className="bg-gray-50 border-b border-gray-200">
             <tr>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                Ad
+                {t('users.fullName')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                E-posta
+                {t('users.email')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
-                Rol
+                {t('users.role')}
               </th>
+              {permissions.canAdministerUsers && (
+                <th className="px-6 py-3 text-left text-xs font-semibold text-gray-700 uppercase">
+                  {t('accessRoles.accessRole')}
+                </th>
+              )}
+              {permissions.canAdministerUsers && (
+                <th className="px-6 py-3 text-right text-xs font-semibold text-gray-700 uppercase">
+                  {t('users.account')}
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
             {users.map((user) => (
-              <tr key={user.id} className="hover:bg-gray-50">
+              <tr key={user.id} className={`hover:bg-gray-50 ${user.is_active ? '' : 'opacity-60'}`}>
                 <td className="px-6 py-4 text-sm font-medium text-gray-900">
                   {user.full_name}
+                  {!user.is_active && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">{t('users.deactivated')}</span>
+                  )}
                 </td>
                 <td className="px-6 py-4 text-sm text-gray-600">{user.email}</td>
                 <td className="px-6 py-4">
                   <select
                     value={user.role}
-                    onChange={(e) => handleRoleChange(user.id, e.target.value as Profile['role'])}
+                    onChange={(e) => handleRoleChange(user.id, e.target.value as Role)}
+                    disabled={!permissions.canAdministerUsers}
                     className={`px-3 py-1 rounded-full text-xs font-semibold border ${getRoleBadgeColor(user.role)}`}
                   >
-                    <option value="operator">Operatör</option>
-                    <option value="team_leader">Bölüm Sorumlusu</option>
-                    <option value="admin">Admin</option>
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {t(`roles.${role}`)}
+                      </option>
+                    ))}
                   </select>
                 </td>
+                {permissions.canAdministerUsers && (
+                  <td className="px-6 py-4">
+                    <select
+                      value={user.access_role_id ?? ''}
+                      onChange={(e) => handleAccessRoleChange(user.id, e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">{t('accessRoles.none')}</option>
+                      {accessRoles.map((accessRole) => (
+                        <option key={accessRole.id} value={accessRole.id}>
+                          {accessRole.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                )}
+                {permissions.canAdministerUsers && (
+                  <td className="px-6 py-4 text-right">
+                    {user.id !== profile?.id && (
+                      <div className="flex items-center justify-end space-x-2">
+                        {user.is_active && (
+                          <button
+                            onClick={() => handleSendReset(user)}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                            title={t('users.sendReset')}
+                          >
+                            <KeyRound className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleToggleActive(user)}
+                          className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                            user.is_active
+                              ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                              : 'bg-green-100 text-green-800 hover:bg-green-200'
+                          }`}
+                        >
+                          {user.is_active ? t('maintenance.deactivate') : t('maintenance.activate')}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
@@ -185,7 +292,7 @@ export default function UserManagement() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <h3 className="text-xl font-bold text-gray-900">Yeni Kullanıcı Ekle</h3>
+              <h3 className="text-xl font-bold text-gray-900">{t('users.addUser')}</h3>
               <button
                 onClick={() => {
                   setShowAddModal(false);
@@ -200,70 +307,57 @@ export default function UserManagement() {
             <form onSubmit={handleAddUser} className="p-6 space-y-4">
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Ad Soyad
+                  {t('users.fullName')}
                 </label>
                 <input
                   type="text"
                   value={formData.full_name}
                   onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="John Doe"
+                  placeholder={t('users.fullNamePlaceholder')}
                   required
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  E-posta
+                  {t('users.email')}
                 </label>
                 <input
                   type="email"
                   value={formData.email}
                   onChange={(e) => setFormData({ ...formData, email: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="a@arslanaluminyum.com"
+                  placeholder={t('users.emailPlaceholder')}
                   required
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Şifre
+                  {t('users.role')}
                 </label>
-                <input
-                  type="password"
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-                  placeholder="••••••••"
-                  minLength={6}
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Rol
-                </label>
-                {profile?.role === 'team_leader' ? (
+                {!permissions.canAdministerUsers ? (
                 <>
                   {/* Sunucuya 'operator' gitsin */}
                   <input type="hidden" value="operator" />
                   <div className="px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-700">
-                    Operatör
+                    {t('roles.operator')}
                   </div>
                 </>
               ) : (
                 <select
                   value={formData.role}
                   onChange={(e) =>
-                    setFormData({ ...formData, role: e.target.value as Profile['role'] })
+                    setFormData({ ...formData, role: e.target.value as Role })
                   }
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
                 >
-                  <option value="operator">Operatör</option>
-                  <option value="team_leader">Bölüm Sorumlusu</option>
-                  <option value="admin">Admin</option>
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {t(`roles.${role}`)}
+                    </option>
+                  ))}
                 </select>
               )}
                 {/* <select
@@ -277,6 +371,11 @@ export default function UserManagement() {
                 </select> */}
               </div>
 
+              <div className="flex items-start space-x-2 text-sm text-gray-600">
+                <Mail className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <p>{t('users.inviteHint')}</p>
+              </div>
+
               {error && (
                 <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
                   <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
@@ -293,14 +392,14 @@ export default function UserManagement() {
                   }}
                   className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
                 >
-                  İptal
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="submit"
                   disabled={submitting}
                   className="flex-1 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {submitting ? 'Oluşturuluyor...' : 'Kullanıcı Oluştur'}
+                  {submitting ? t('common.loading') : t('users.sendInvite')}
                 </button>
               </div>
             </form>
@@ -0,0 +1,377 @@
+import { useEffect, useState } from 'react';
+import { X, AlertCircle, Clock, RotateCcw, MessageSquare } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import { changeMachineStatus, StatusChangeError } from '../lib/machineStatus';
+import {
+  WORK_ORDER_STATES,
+  WORK_ORDER_STATE_COLORS,
+  WorkOrderState,
+  Technician,
+  formatLaborMinutes,
+} from '../lib/workOrders';
+import { formatDateTime } from '../lib/format';
+
+type WorkOrder = Database['public']['Tables']['work_orders']['Row'];
+type WorkOrderEntry = Database['public']['Tables']['work_order_entries']['Row'];
+type Machine = Database['public']['Tables']['machines']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+
+interface WorkOrderModalProps {
+  workOrder: WorkOrder;
+  machine: Machine;
+  statusTypes: StatusType[];
+  technicians: Technician[];
+  onClose: () => void;
+  onUpdate: () => void;
+}
+
+export default function WorkOrderModal({
+  workOrder,
+  machine,
+  statusTypes,
+  technicians,
+  onClose,
+  onUpdate,
+}: WorkOrderModalProps) {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<WorkOrderEntry[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [state, setState] = useState<WorkOrderState>(workOrder.state);
+  const [assignedTo, setAssignedTo] = useState(workOrder.assigned_to ?? '');
+  const [note, setNote] = useState('');
+  const [laborMinutes, setLaborMinutes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set once the order has been closed while the machine still sits in a maintenance status
+  const [returnSuggestion, setReturnSuggestion] = useState<Machine | null>(null);
+
+  useEffect(() => {
+    loadEntries();
+    checkPermission();
+  }, [workOrder.id]);
+
+  const loadEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('work_order_entries')
+        .select('*')
+        .eq('work_order_id', workOrder.id)
+        .order('created_at');
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error loading work order entries:', error);
+    }
+  };
+
+  const checkPermission = async () => {
+    if (!user) return;
+    const { data, error } = await supabase.rpc('user_can_update_work_order', {
+      p_work_order_id: workOrder.id,
+    });
+    if (error) {
+      console.error('Error checking work order permission:', error);
+      return;
+    }
+    setCanEdit(!!data);
+  };
+
+  const getTechnicianName = (userId: string) =>
+    technicians.find((tech) => tech.id === userId)?.full_name || t('history.unknownUser');
+
+  const isMaintenanceStatus = (status: string) =>
+    statusTypes.some((st) => st.name === status && st.is_maintenance);
+
+  const totalLabor = entries.reduce((sum, entry) => sum + entry.labor_minutes, 0);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const { error } = await supabase
+        .from('work_orders')
+        .update({ state, assigned_to: assignedTo || null })
+        .eq('id', workOrder.id);
+
+      if (error) throw error;
+
+      if (state === 'done' && workOrder.state !== 'done' && workOrder.return_status) {
+        const { data: current, error: machineError } = await supabase
+          .from('machines')
+          .select('*')
+          .eq('id', machine.id)
+          .single();
+
+        if (machineError) throw machineError;
+        if (isMaintenanceStatus(current.current_status)) {
+          setReturnSuggestion(current);
+          return;
+        }
+      }
+
+      onUpdate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const minutes = Number(laborMinutes || 0);
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      setError(t('workOrders.invalidLabor'));
+      return;
+    }
+    if (!note.trim() && minutes === 0) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { error } = await supabase.from('work_order_entries').insert({
+        work_order_id: workOrder.id,
+        author_id: user.id,
+        note: note.trim(),
+        labor_minutes: minutes,
+      });
+
+      if (error) throw error;
+      setNote('');
+      setLaborMinutes('');
+      loadEntries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReturnToStatus = async () => {
+    if (!returnSuggestion || !workOrder.return_status) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await changeMachineStatus(returnSuggestion.id, { name: workOrder.return_status }, t('workOrders.closedComment'), {
+        expectedUpdatedAt: returnSuggestion.last_updated_at,
+      });
+      onUpdate();
+    } catch (err) {
+      if (err instanceof StatusChangeError && err.isConflict) {
+        setError(t('workOrders.machineChanged', { status: err.details }));
+      } else {
+        setError(err instanceof Error ? err.message : t('errors.savingError'));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <div className="flex items-center space-x-2">
+              <h3 className="text-xl font-bold text-gray-900">{t('workOrders.workOrder')}</h3>
+              <span
+                className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold border ${WORK_ORDER_STATE_COLORS[workOrder.state]}`}
+              >
+                {t(`workOrders.states.${workOrder.state}`)}
+              </span>
+            </div>
+            <p className="text-sm text-gray-500">
+              {machine.machine_code} - {machine.machine_name}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">{t('workOrders.faultStatus')}</p>
+              <p className="font-semibold text-gray-900">
+                {workOrder.fault_status ?? t('workOrders.preventive')}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">{t('workOrders.openedAt')}</p>
+              <p className="font-semibold text-gray-900">{formatDateTime(workOrder.opened_at, i18n.language)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">{t('workOrders.returnStatus')}</p>
+              <p className="font-semibold text-gray-900">{workOrder.return_status || '—'}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">{t('workOrders.labor')}</p>
+              <p className="font-semibold text-gray-900">{formatLaborMinutes(totalLabor, i18n.language)}</p>
+            </div>
+            {workOrder.description && (
+              <div className="col-span-2">
+                <p className="text-gray-500">{t('workOrders.description')}</p>
+                <p className="text-gray-900">{workOrder.description}</p>
+              </div>
+            )}
+          </div>
+
+          {returnSuggestion ? (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+              <p className="text-sm text-blue-900">
+                {t('workOrders.returnSuggestion', {
+                  current: returnSuggestion.current_status,
+                  status: workOrder.return_status,
+                })}
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={onUpdate}
+                  className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+                >
+                  {t('workOrders.keepStatus')}
+                </button>
+                <button
+                  onClick={handleReturnToStatus}
+                  disabled={saving}
+                  className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>{t('workOrders.returnTo', { status: workOrder.return_status })}</span>
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('workOrders.state')}
+                </label>
+                <select
+                  value={state}
+                  onChange={(e) => setState(e.target.value as WorkOrderState)}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-50"
+                >
+                  {WORK_ORDER_STATES.map((option) => (
+                    <option key={option} value={option}>
+                      {t(`workOrders.states.${option}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  {t('workOrders.technician')}
+                </label>
+                <select
+                  value={assignedTo}
+                  onChange={(e) => setAssignedTo(e.target.value)}
+                  disabled={!canEdit}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-50"
+                >
+                  <option value="">{t('workOrders.unassigned')}</option>
+                  {technicians.map((tech) => (
+                    <option key={tech.id} value={tech.id}>
+                      {tech.full_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {canEdit && (
+                <div className="col-span-2 flex justify-end">
+                  <button
+                    onClick={handleSave}
+                    disabled={saving || (state === workOrder.state && (assignedTo || null) === workOrder.assigned_to)}
+                    className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving ? t('common.loading') : t('common.save')}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-3">{t('workOrders.entries')}</h4>
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('workOrders.noEntries')}</p>
+            ) : (
+              <div className="space-y-3">
+                {entries.map((entry) => (
+                  <div key={entry.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                    <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                      <span>
+                        {getTechnicianName(entry.author_id)} · {formatDateTime(entry.created_at, i18n.language)}
+                      </span>
+                      {entry.labor_minutes > 0 && (
+                        <span className="flex items-center space-x-1">
+                          <Clock className="w-3 h-3" />
+                          <span>{formatLaborMinutes(entry.labor_minutes, i18n.language)}</span>
+                        </span>
+                      )}
+                    </div>
+                    {entry.note && <p className="text-gray-900 whitespace-pre-wrap">{entry.note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {canEdit && (
+            <form onSubmit={handleAddEntry} className="space-y-3 border-t border-gray-200 pt-4">
+              <div className="flex items-center space-x-2">
+                <MessageSquare className="w-4 h-4 text-gray-500" />
+                <h4 className="text-sm font-semibold text-gray-700">{t('workOrders.addEntry')}</h4>
+              </div>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                placeholder={t('workOrders.notePlaceholder')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+              />
+              <div className="flex items-center space-x-3">
+                <label htmlFor="laborMinutes" className="text-sm text-gray-700">
+                  {t('workOrders.laborMinutes')}
+                </label>
+                <input
+                  id="laborMinutes"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={laborMinutes}
+                  onChange={(e) => setLaborMinutes(e.target.value)}
+                  className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={saving || (!note.trim() && !Number(laborMinutes))}
+                  className="ml-auto px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('common.add')}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Wrench, Filter, Clock, User as UserIcon } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  WORK_ORDER_STATES,
+  WORK_ORDER_STATE_COLORS,
+  WorkOrderState,
+  Technician,
+  formatLaborMinutes,
+} from '../lib/workOrders';
+import WorkOrderModal from './WorkOrderModal';
+import { formatDateTime } from '../lib/format';
+
+type WorkOrder = Database['public']['Tables']['work_orders']['Row'];
+type Machine = Database['public']['Tables']['machines']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+
+export default function WorkOrdersPage() {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [statusTypes, setStatusTypes] = useState<StatusType[]>([]);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [laborByOrder, setLaborByOrder] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [stateFilter, setStateFilter] = useState<'active' | 'all' | WorkOrderState>('active');
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [selectedOrder, setSelectedOrder] = useState<WorkOrder | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      // Open orders for preventive maintenance plans that have come due
+      const { error: generateError } = await supabase.rpc('generate_due_pm_work_orders');
+      if (generateError) console.error('Error generating preventive work orders:', generateError);
+
+      const [ordersRes, machinesRes, statusTypesRes, profilesRes, entriesRes] = await Promise.all([
+        supabase.from('work_orders').select('*').order('opened_at', { ascending: false }),
+        supabase.from('machines').select('*').order('machine_code'),
+        supabase.from('status_types').select('*').order('display_order'),
+        supabase.from('profiles').select('id, full_name').order('full_name'),
+        supabase.from('work_order_entries').select('work_order_id, labor_minutes'),
+      ]);
+
+      if (ordersRes.error) throw ordersRes.error;
+      if (machinesRes.error) throw machinesRes.error;
+      if (statusTypesRes.error) throw statusTypesRes.error;
+      if (profilesRes.error) throw profilesRes.error;
+      if (entriesRes.error) throw entriesRes.error;
+
+      const labor = new Map<string, number>();
+      entriesRes.data?.forEach((entry) => {
+        labor.set(entry.work_order_id, (labor.get(entry.work_order_id) || 0) + entry.labor_minutes);
+      });
+
+      setWorkOrders(ordersRes.data || []);
+      setMachines(machinesRes.data || []);
+      setStatusTypes(statusTypesRes.data || []);
+      setTechnicians(profilesRes.data || []);
+      setLaborByOrder(labor);
+    } catch (error) {
+      console.error('Error loading work orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredOrders = useMemo(
+    () =>
+      workOrders.filter((order) => {
+        if (stateFilter === 'active' && order.state === 'done') return false;
+        if (stateFilter !== 'active' && stateFilter !== 'all' && order.state !== stateFilter) return false;
+        if (onlyMine && order.assigned_to !== user?.id) return false;
+        return true;
+      }),
+    [workOrders, stateFilter, onlyMine, user?.id]
+  );
+
+  const getMachine = (machineId: string) => machines.find((m) => m.id === machineId);
+
+  const getTechnicianName = (userId: string | null) =>
+    userId ? technicians.find((tech) => tech.id === userId)?.full_name || t('history.unknownUser') : null;
+
+  const handleUpdate = () => {
+    setSelectedOrder(null);
+    loadData();
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
+        <p className="mt-4 text-gray-600">{t('common.loading')}</p>
+      </div>
+    );
+  }
+
+  const selectedMachine = selectedOrder ? getMachine(selectedOrder.machine_id) : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Wrench className="w-6 h-6 text-gray-700" />
+          <h2 className="text-2xl font-bold text-gray-900">{t('workOrders.title')}</h2>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center gap-4">
+        <Filter className="w-5 h-5 text-gray-500" />
+        <select
+          value={stateFilter}
+          onChange={(e) => setStateFilter(e.target.value as typeof stateFilter)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+        >
+          <option value="active">{t('workOrders.activeOrders')}</option>
+          <option value="all">{t('common.all')}</option>
+          {WORK_ORDER_STATES.map((state) => (
+            <option key={state} value={state}>
+              {t(`workOrders.states.${state}`)}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={onlyMine}
+            onChange={(e) => setOnlyMine(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <span>{t('workOrders.assignedToMe')}</span>
+        </label>
+      </div>
+
+      {filteredOrders.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+          <Wrench className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+          <p className="text-gray-600">{t('workOrders.noOrders')}</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+                  {t('history.machine')}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+                  {t('workOrders.faultStatus')}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+                  {t('workOrders.openedAt')}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+                  {t('workOrders.state')}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+                  {t('workOrders.technician')}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+                  {t('workOrders.labor')}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredOrders.map((order) => {
+                const machine = getMachine(order.machine_id);
+                return (
+                  <tr
+                    key={order.id}
+                    onClick={() => setSelectedOrder(order)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-4 py-3 text-sm">
+                      <p className="font-semibold text-gray-900">{machine?.machine_code}</p>
+                      <p className="text-gray-500">{machine?.machine_name}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {order.fault_status ?? t('workOrders.preventive')}
+                      {order.description && (
+                        <p className="text-xs text-gray-500 truncate max-w-xs">{order.description}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {formatDateTime(order.opened_at, i18n.language)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold border ${WORK_ORDER_STATE_COLORS[order.state]}`}
+                      >
+                        {t(`workOrders.states.${order.state}`)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {getTechnicianName(order.assigned_to) ? (
+                        <span className="flex items-center space-x-1">
+                          <UserIcon className="w-4 h-4 text-gray-400" />
+                          <span>{getTechnicianName(order.assigned_to)}</span>
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">{t('workOrders.unassigned')}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      <span className="flex items-center space-x-1">
+                        <Clock className="w-4 h-4 text-gray-400" />
+                        <span>{formatLaborMinutes(laborByOrder.get(order.id) || 0, i18n.language)}</span>
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedOrder && selectedMachine && (
+        <WorkOrderModal
+          workOrder={selectedOrder}
+          machine={selectedMachine}
+          statusTypes={statusTypes}
+          technicians={technicians}
+          onClose={() => setSelectedOrder(null)}
+          onUpdate={handleUpdate}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,39 @@
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { AccessRoleGrant, createPermissions, Permissions, SELF_SIGN_UP_ROLE } from '../lib/permissions';
 
-interface Profile {
-  id: string;
-  email: string;
-  full_name: string;
-  role: 'admin' | 'operator' | 'viewer';
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+interface Assignments {
+  leaderDepartmentIds: string[];
+  operatorMachineIds: string[];
+  accessRole: AccessRoleGrant | null;
 }
 
+const NO_ASSIGNMENTS: Assignments = { leaderDepartmentIds: [], operatorMachineIds: [], accessRole: null };
+
+// The access role with its department scope and the statuses it may set
+const loadAccessRole = async (roleId: string): Promise<AccessRoleGrant | null> => {
+  const [{ data: role }, { data: departments }, { data: statusTypes }] = await Promise.all([
+    supabase.from('access_roles').select('*').eq('id', roleId).maybeSingle(),
+    supabase.from('access_role_departments').select('department_id').eq('role_id', roleId),
+    supabase.from('access_role_status_types').select('status_type_id').eq('role_id', roleId),
+  ]);
+
+  if (!role) return null;
+  return {
+    role,
+    departmentIds: departments?.map((row) => row.department_id) || [],
+    statusTypeIds: statusTypes?.map((row) => row.status_type_id) || [],
+  };
+};
+
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
+  permissions: Permissions;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
@@ -23,6 +45,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [assignments, setAssignments] = useState<Assignments>(NO_ASSIGNMENTS);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -42,6 +65,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           await loadProfile(session.user.id);
         } else {
           setProfile(null);
+          setAssignments(NO_ASSIGNMENTS);
           setLoading(false);
         }
       })();
@@ -52,14 +76,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const loadProfile = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .maybeSingle();
+      const [{ data, error }, { data: leaderRows }, { data: operatorRows }] = await Promise.all([
+        supabase.from('profiles').select('*').eq('id', userId).maybeSingle(),
+        supabase.from('department_leaders').select('department_id').eq('user_id', userId),
+        supabase.from('machine_operators').select('machine_id').eq('user_id', userId),
+      ]);
 
       if (error) throw error;
+
+      // Deactivated users can still hold a valid access token until it expires
+      if (data && !data.is_active) {
+        await supabase.auth.signOut();
+        return;
+      }
       setProfile(data);
+      setAssignments({
+        leaderDepartmentIds: leaderRows?.map((row) => row.department_id) || [],
+        operatorMachineIds: operatorRows?.map((row) => row.machine_id) || [],
+        accessRole: data?.access_role_id ? await loadAccessRole(data.access_role_id) : null,
+      });
     } catch (error) {
       console.error('Error loading profile:', error);
     } finally {
@@ -95,7 +130,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           id: authData.user.id,
           email,
           full_name: fullName,
-          role: 'viewer',
+          role: SELF_SIGN_UP_ROLE,
         });
 
       if (profileError) throw profileError;
@@ -109,10 +144,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const signOut = async () => {
     await supabase.auth.signOut();
     setProfile(null);
+    setAssignments(NO_ASSIGNMENTS);
   };
 
+  const permissions = useMemo(
+    () =>
+      createPermissions(
+        profile?.role ?? null,
+        assignments.leaderDepartmentIds,
+        assignments.operatorMachineIds,
+        assignments.accessRole
+      ),
+    [profile?.role, assignments]
+  );
+
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, profile, permissions, loading, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,82 @@
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  OutboxEntry,
+  discardOutboxEntry,
+  flushOutbox,
+  retryOutboxEntry,
+  subscribeToOutbox,
+} from '../lib/statusOutbox';
+import { useAuth } from './AuthContext';
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+interface OutboxContextType {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  entriesForMachine: (machineId: string) => OutboxEntry[];
+  flush: () => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  retry: (id: string, expectedUpdatedAt?: string) => Promise<void>;
+}
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export function OutboxProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => subscribeToOutbox(setEntries), []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const hasPending = entries.some((e) => e.state === 'pending');
+
+  // The browser's online event is unreliable on flaky Wi-Fi, so pending entries are also
+  // retried periodically. Replays need a session, so nothing is sent while signed out.
+  useEffect(() => {
+    if (!user || !hasPending) return;
+
+    flushOutbox();
+    const interval = setInterval(flushOutbox, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, hasPending]);
+
+  const value = useMemo<OutboxContextType>(
+    () => ({
+      entries,
+      isOnline,
+      entriesForMachine: (machineId) => entries.filter((e) => e.machineId === machineId),
+      flush: flushOutbox,
+      discard: discardOutboxEntry,
+      retry: async (id, expectedUpdatedAt) => {
+        await retryOutboxEntry(id, expectedUpdatedAt);
+        await flushOutbox();
+      },
+    }),
+    [entries, isOnline]
+  );
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+}
+
+export function useOutbox() {
+  const context = useContext(OutboxContext);
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+}
@@ -2,6 +2,19 @@ import i18n from 'i18next';
 import { initReactI18next } from 'react-i18next';
 import tr from './locales/tr.json';
 import en from './locales/en.json';
+import de from './locales/de.json';
+
+// Languages the interface can be switched to, in switcher order
+export const LANGUAGES = ['tr', 'en', 'de'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+// Each language's name in that language, for the switcher
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  tr: 'Türkçe',
+  en: 'English',
+  de: 'Deutsch',
+};
 
 i18n
   .use(initReactI18next)
@@ -9,6 +22,7 @@ i18n
     resources: {
       tr: { translation: tr },
       en: { translation: en },
+      de: { translation: de },
     },
     lng: 'tr',
     fallbackLng: 'tr',
@@ -6,7 +6,7 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
       profiles: {
@@ -17,6 +17,9 @@ export interface Database {
           role: 'admin' | 'team_leader' | 'operator'
           created_at: string
           updated_at: string
+          is_active: boolean
+          deactivated_at: string | null
+          access_role_id: string | null
         }
         Insert: {
           id: string
@@ -25,6 +28,9 @@ export interface Database {
           role?: 'admin' | 'team_leader' | 'operator'
           created_at?: string
           updated_at?: string
+          is_active?: boolean
+          deactivated_at?: string | null
+          access_role_id?: string | null
         }
         Update: {
           id?: string
@@ -33,7 +39,19 @@ export interface Database {
           role?: 'admin' | 'team_leader' | 'operator'
           created_at?: string
           updated_at?: string
+          is_active?: boolean
+          deactivated_at?: string | null
+          access_role_id?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_access_role_id_fkey"
+            columns: ["access_role_id"]
+            isOneToOne: false
+            referencedRelation: "access_roles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       departments: {
         Row: {
@@ -42,6 +60,7 @@ export interface Database {
           description: string
           created_at: string
           created_by: string | null
+          name_translations: Json
         }
         Insert: {
           id?: string
@@ -49,6 +68,7 @@ export interface Database {
           description?: string
           created_at?: string
           created_by?: string | null
+          name_translations?: Json
         }
         Update: {
           id?: string
@@ -56,7 +76,17 @@ export interface Database {
           description?: string
           created_at?: string
           created_by?: string | null
+          name_translations?: Json
         }
+        Relationships: [
+          {
+            foreignKeyName: "departments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       department_leaders: {
         Row: {
@@ -80,6 +110,29 @@ export interface Database {
           assigned_at?: string
           assigned_by?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "department_leaders_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "department_leaders_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "department_leaders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       machine_operators: {
         Row: {
@@ -103,6 +156,29 @@ export interface Database {
           assigned_at?: string
           assigned_by?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "machine_operators_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machine_operators_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machine_operators_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       machines: {
         Row: {
@@ -115,6 +191,11 @@ export interface Database {
           last_updated_by: string | null
           created_at: string
           department_id: string | null
+          ideal_cycle_time_seconds: number | null
+          signal_debounce_seconds: number
+          archived_at: string | null
+          archived_by: string | null
+          current_status_id: string
         }
         Insert: {
           id?: string
@@ -126,6 +207,11 @@ export interface Database {
           last_updated_by?: string | null
           created_at?: string
           department_id?: string | null
+          ideal_cycle_time_seconds?: number | null
+          signal_debounce_seconds?: number
+          archived_at?: string | null
+          archived_by?: string | null
+          current_status_id?: string
         }
         Update: {
           id?: string
@@ -137,7 +223,42 @@ export interface Database {
           last_updated_by?: string | null
           created_at?: string
           department_id?: string | null
+          ideal_cycle_time_seconds?: number | null
+          signal_debounce_seconds?: number
+          archived_at?: string | null
+          archived_by?: string | null
+          current_status_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "machines_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machines_last_updated_by_fkey"
+            columns: ["last_updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machines_archived_by_fkey"
+            columns: ["archived_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machines_current_status_id_fkey"
+            columns: ["current_status_id"]
+            isOneToOne: false
+            referencedRelation: "status_types"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       status_types: {
         Row: {
@@ -145,31 +266,58 @@ export interface Database {
           name: string
           color: string
           is_default: boolean
+          is_initial: boolean
           is_active: boolean
           display_order: number
           created_at: string
           created_by: string | null
+          requires_reason: boolean
+          oee_category: 'productive' | 'planned_downtime' | 'unplanned_downtime'
+          is_maintenance: boolean
+          restrict_transitions: boolean
+          name_translations: Json
         }
         Insert: {
           id?: string
           name: string
           color?: string
           is_default?: boolean
+          is_initial?: boolean
           is_active?: boolean
           display_order?: number
           created_at?: string
           created_by?: string | null
+          requires_reason?: boolean
+          oee_category?: 'productive' | 'planned_downtime' | 'unplanned_downtime'
+          is_maintenance?: boolean
+          restrict_transitions?: boolean
+          name_translations?: Json
         }
         Update: {
           id?: string
           name?: string
           color?: string
           is_default?: boolean
+          is_initial?: boolean
           is_active?: boolean
           display_order?: number
           created_at?: string
           created_by?: string | null
+          requires_reason?: boolean
+          oee_category?: 'productive' | 'planned_downtime' | 'unplanned_downtime'
+          is_maintenance?: boolean
+          restrict_transitions?: boolean
+          name_translations?: Json
         }
+        Relationships: [
+          {
+            foreignKeyName: "status_types_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       status_history: {
         Row: {
@@ -178,8 +326,13 @@ export interface Database {
           status: string
           previous_status: string
           comment: string
-          changed_by: string
+          changed_by: string | null
           changed_at: string
+          reason_id: string | null
+          sub_reason_id: string | null
+          source: 'manual' | 'automatic'
+          status_type_id: string
+          previous_status_type_id: string | null
         }
         Insert: {
           id?: string
@@ -187,8 +340,13 @@ export interface Database {
           status: string
           previous_status?: string
           comment?: string
-          changed_by: string
+          changed_by: string | null
           changed_at?: string
+          reason_id?: string | null
+          sub_reason_id?: string | null
+          source?: 'manual' | 'automatic'
+          status_type_id?: string
+          previous_status_type_id?: string | null
         }
         Update: {
           id?: string
@@ -196,10 +354,1217 @@ export interface Database {
           status?: string
           previous_status?: string
           comment?: string
-          changed_by?: string
+          changed_by?: string | null
+          changed_at?: string
+          reason_id?: string | null
+          sub_reason_id?: string | null
+          source?: 'manual' | 'automatic'
+          status_type_id?: string
+          previous_status_type_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_history_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_history_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "status_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_history_sub_reason_id_fkey"
+            columns: ["sub_reason_id"]
+            isOneToOne: false
+            referencedRelation: "status_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_history_status_type_id_fkey"
+            columns: ["status_type_id"]
+            isOneToOne: false
+            referencedRelation: "status_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_history_previous_status_type_id_fkey"
+            columns: ["previous_status_type_id"]
+            isOneToOne: false
+            referencedRelation: "status_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      status_reasons: {
+        Row: {
+          id: string
+          status_type_id: string
+          parent_id: string | null
+          name: string
+          is_active: boolean
+          display_order: number
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          status_type_id: string
+          parent_id?: string | null
+          name: string
+          is_active?: boolean
+          display_order?: number
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          status_type_id?: string
+          parent_id?: string | null
+          name?: string
+          is_active?: boolean
+          display_order?: number
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "status_reasons_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_reasons_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "status_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_reasons_status_type_id_fkey"
+            columns: ["status_type_id"]
+            isOneToOne: false
+            referencedRelation: "status_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_counts: {
+        Row: {
+          id: string
+          machine_id: string
+          recorded_at: string
+          produced_count: number
+          scrap_count: number
+          comment: string
+          recorded_by: string | null
+          source: 'manual' | 'automatic'
+        }
+        Insert: {
+          id?: string
+          machine_id: string
+          recorded_at?: string
+          produced_count: number
+          scrap_count?: number
+          comment?: string
+          recorded_by: string | null
+          source?: 'manual' | 'automatic'
+        }
+        Update: {
+          id?: string
+          machine_id?: string
+          recorded_at?: string
+          produced_count?: number
+          scrap_count?: number
+          comment?: string
+          recorded_by?: string | null
+          source?: 'manual' | 'automatic'
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_counts_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_counts_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shifts: {
+        Row: {
+          id: string
+          department_id: string | null
+          name: string
+          start_time: string
+          end_time: string
+          days_of_week: number[]
+          is_active: boolean
+          display_order: number
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          department_id?: string | null
+          name: string
+          start_time: string
+          end_time: string
+          days_of_week?: number[]
+          is_active?: boolean
+          display_order?: number
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          department_id?: string | null
+          name?: string
+          start_time?: string
+          end_time?: string
+          days_of_week?: number[]
+          is_active?: boolean
+          display_order?: number
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shifts_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shifts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holidays: {
+        Row: {
+          id: string
+          department_id: string | null
+          holiday_date: string
+          name: string
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          department_id?: string | null
+          holiday_date: string
+          name?: string
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          department_id?: string | null
+          holiday_date?: string
+          name?: string
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holidays_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_orders: {
+        Row: {
+          id: string
+          machine_id: string
+          status_history_id: string | null
+          fault_status: string | null
+          return_status: string | null
+          description: string
+          state: 'open' | 'in_progress' | 'waiting_parts' | 'done'
+          assigned_to: string | null
+          opened_at: string
+          started_at: string | null
+          closed_at: string | null
+          closed_by: string | null
+          updated_at: string
+          pm_plan_id: string | null
+        }
+        Insert: {
+          id?: string
+          machine_id: string
+          status_history_id?: string | null
+          fault_status?: string | null
+          return_status?: string | null
+          description?: string
+          state?: 'open' | 'in_progress' | 'waiting_parts' | 'done'
+          assigned_to?: string | null
+          opened_at?: string
+          started_at?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          updated_at?: string
+          pm_plan_id?: string | null
+        }
+        Update: {
+          id?: string
+          machine_id?: string
+          status_history_id?: string | null
+          fault_status?: string | null
+          return_status?: string | null
+          description?: string
+          state?: 'open' | 'in_progress' | 'waiting_parts' | 'done'
+          assigned_to?: string | null
+          opened_at?: string
+          started_at?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          updated_at?: string
+          pm_plan_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_orders_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_status_history_id_fkey"
+            columns: ["status_history_id"]
+            isOneToOne: false
+            referencedRelation: "status_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_pm_plan_id_fkey"
+            columns: ["pm_plan_id"]
+            isOneToOne: false
+            referencedRelation: "pm_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_order_entries: {
+        Row: {
+          id: string
+          work_order_id: string
+          author_id: string
+          note: string
+          labor_minutes: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          work_order_id: string
+          author_id: string
+          note?: string
+          labor_minutes?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          work_order_id?: string
+          author_id?: string
+          note?: string
+          labor_minutes?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_order_entries_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_order_entries_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_plans: {
+        Row: {
+          id: string
+          machine_id: string
+          name: string
+          description: string
+          trigger_type: 'calendar' | 'runtime'
+          interval_days: number | null
+          interval_hours: number | null
+          last_done_at: string
+          is_active: boolean
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          machine_id: string
+          name: string
+          description?: string
+          trigger_type: 'calendar' | 'runtime'
+          interval_days?: number | null
+          interval_hours?: number | null
+          last_done_at?: string
+          is_active?: boolean
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          machine_id?: string
+          name?: string
+          description?: string
+          trigger_type?: 'calendar' | 'runtime'
+          interval_days?: number | null
+          interval_hours?: number | null
+          last_done_at?: string
+          is_active?: boolean
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_plans_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pm_plans_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          id: string
+          name: string
+          rule_type: 'status_duration' | 'fault_count' | 'status_unchanged'
+          status: string | null
+          machine_id: string | null
+          department_id: string | null
+          threshold_minutes: number | null
+          threshold_count: number | null
+          escalate_after_minutes: number | null
+          is_active: boolean
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          rule_type: 'status_duration' | 'fault_count' | 'status_unchanged'
+          status?: string | null
+          machine_id?: string | null
+          department_id?: string | null
+          threshold_minutes?: number | null
+          threshold_count?: number | null
+          escalate_after_minutes?: number | null
+          is_active?: boolean
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          rule_type?: 'status_duration' | 'fault_count' | 'status_unchanged'
+          status?: string | null
+          machine_id?: string | null
+          department_id?: string | null
+          threshold_minutes?: number | null
+          threshold_count?: number | null
+          escalate_after_minutes?: number | null
+          is_active?: boolean
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alerts: {
+        Row: {
+          id: string
+          rule_id: string
+          machine_id: string
+          window_start: string
+          observed_value: number
+          triggered_at: string
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          escalated_at: string | null
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          rule_id: string
+          machine_id: string
+          window_start: string
+          observed_value?: number
+          triggered_at?: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          escalated_at?: string | null
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          rule_id?: string
+          machine_id?: string
+          window_start?: string
+          observed_value?: number
+          triggered_at?: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          escalated_at?: string | null
+          resolved_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_acknowledged_by_fkey"
+            columns: ["acknowledged_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_channels: {
+        Row: {
+          id: string
+          user_id: string
+          channel_type: 'email' | 'webhook'
+          target: string
+          department_ids: string[]
+          status_names: string[]
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          channel_type: 'email' | 'webhook'
+          target: string
+          department_ids?: string[]
+          status_names?: string[]
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          channel_type?: 'email' | 'webhook'
+          target?: string
+          department_ids?: string[]
+          status_names?: string[]
+          is_active?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_channels_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          id: string
+          channel_id: string
+          status_history_id: string | null
+          payload: Json
+          state: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts: number
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          channel_id: string
+          status_history_id?: string | null
+          payload: Json
+          state?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          channel_id?: string
+          status_history_id?: string | null
+          payload?: Json
+          state?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "notification_channels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_status_history_id_fkey"
+            columns: ["status_history_id"]
+            isOneToOne: false
+            referencedRelation: "status_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      machine_api_keys: {
+        Row: {
+          id: string
+          machine_id: string
+          name: string
+          key_prefix: string
+          key_hash: string
+          created_by: string | null
+          created_at: string
+          last_used_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          machine_id: string
+          name?: string
+          key_prefix: string
+          key_hash: string
+          created_by?: string | null
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          machine_id?: string
+          name?: string
+          key_prefix?: string
+          key_hash?: string
+          created_by?: string | null
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "machine_api_keys_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machine_api_keys_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      signal_mappings: {
+        Row: {
+          id: string
+          machine_id: string | null
+          signal_value: string
+          status: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          machine_id?: string | null
+          signal_value: string
+          status: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          machine_id?: string | null
+          signal_value?: string
+          status?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "signal_mappings_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      machine_signal_states: {
+        Row: {
+          machine_id: string
+          last_signal: string | null
+          last_signal_at: string | null
+          pending_status: string | null
+          pending_since: string | null
+          produced_total: number | null
+          scrap_total: number | null
+        }
+        Insert: {
+          machine_id: string
+          last_signal?: string | null
+          last_signal_at?: string | null
+          pending_status?: string | null
+          pending_since?: string | null
+          produced_total?: number | null
+          scrap_total?: number | null
+        }
+        Update: {
+          machine_id?: string
+          last_signal?: string | null
+          last_signal_at?: string | null
+          pending_status?: string | null
+          pending_since?: string | null
+          produced_total?: number | null
+          scrap_total?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "machine_signal_states_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      machine_department_moves: {
+        Row: {
+          id: string
+          machine_id: string
+          from_department_id: string | null
+          to_department_id: string | null
+          moved_by: string | null
+          moved_at: string
+        }
+        Insert: {
+          id?: string
+          machine_id: string
+          from_department_id?: string | null
+          to_department_id?: string | null
+          moved_by?: string | null
+          moved_at?: string
+        }
+        Update: {
+          id?: string
+          machine_id?: string
+          from_department_id?: string | null
+          to_department_id?: string | null
+          moved_by?: string | null
+          moved_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "machine_department_moves_machine_id_fkey"
+            columns: ["machine_id"]
+            isOneToOne: false
+            referencedRelation: "machines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machine_department_moves_from_department_id_fkey"
+            columns: ["from_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machine_department_moves_to_department_id_fkey"
+            columns: ["to_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "machine_department_moves_moved_by_fkey"
+            columns: ["moved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          id: string
+          table_name: string
+          record_id: string
+          action: 'INSERT' | 'UPDATE' | 'DELETE'
+          old_data: Json | null
+          new_data: Json | null
+          changed_fields: string[] | null
+          actor_id: string | null
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          table_name: string
+          record_id: string
+          action: 'INSERT' | 'UPDATE' | 'DELETE'
+          old_data?: Json | null
+          new_data?: Json | null
+          changed_fields?: string[] | null
+          actor_id?: string | null
+          changed_at?: string
+        }
+        Update: {
+          id?: string
+          table_name?: string
+          record_id?: string
+          action?: 'INSERT' | 'UPDATE' | 'DELETE'
+          old_data?: Json | null
+          new_data?: Json | null
+          changed_fields?: string[] | null
+          actor_id?: string | null
           changed_at?: string
         }
+        Relationships: []
       }
+      access_roles: {
+        Row: {
+          id: string
+          name: string
+          description: string
+          all_departments: boolean
+          can_manage_assignments: boolean
+          can_run_reports: boolean
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string
+          all_departments?: boolean
+          can_manage_assignments?: boolean
+          can_run_reports?: boolean
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string
+          all_departments?: boolean
+          can_manage_assignments?: boolean
+          can_run_reports?: boolean
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_roles_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      access_role_departments: {
+        Row: {
+          role_id: string
+          department_id: string
+        }
+        Insert: {
+          role_id: string
+          department_id: string
+        }
+        Update: {
+          role_id?: string
+          department_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_role_departments_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "access_roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_role_departments_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      access_role_status_types: {
+        Row: {
+          role_id: string
+          status_type_id: string
+        }
+        Insert: {
+          role_id: string
+          status_type_id: string
+        }
+        Update: {
+          role_id?: string
+          status_type_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_role_status_types_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "access_roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_role_status_types_status_type_id_fkey"
+            columns: ["status_type_id"]
+            isOneToOne: false
+            referencedRelation: "status_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      status_transitions: {
+        Row: {
+          id: string
+          from_status_type_id: string
+          to_status_type_id: string
+          leader_only: boolean
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          from_status_type_id: string
+          to_status_type_id: string
+          leader_only?: boolean
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          from_status_type_id?: string
+          to_status_type_id?: string
+          leader_only?: boolean
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "status_transitions_from_status_type_id_fkey"
+            columns: ["from_status_type_id"]
+            isOneToOne: false
+            referencedRelation: "status_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "status_transitions_to_status_type_id_fkey"
+            columns: ["to_status_type_id"]
+            isOneToOne: false
+            referencedRelation: "status_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      acknowledge_alert: {
+        Args: {
+          p_alert_id: string
+        }
+        Returns: {
+          id: string
+          rule_id: string
+          machine_id: string
+          window_start: string
+          observed_value: number
+          triggered_at: string
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          escalated_at: string | null
+          resolved_at: string | null
+        }
+      }
+      change_machine_status: {
+        Args: {
+          p_machine_id: string
+          p_new_status?: string
+          p_comment?: string
+          p_changed_at?: string
+          p_expected_updated_at?: string
+          p_reason_id?: string
+          p_sub_reason_id?: string
+          p_status_type_id?: string
+        }
+        Returns: Database['public']['Tables']['status_history']['Row']
+      }
+      claim_notification_deliveries: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          channel_type: 'email' | 'webhook'
+          target: string
+          payload: Json
+          attempts: number
+        }[]
+      }
+      complete_notification_delivery: {
+        Args: {
+          p_delivery_id: string
+          p_error?: string
+        }
+        Returns: undefined
+      }
+      create_machine_api_key: {
+        Args: {
+          p_machine_id: string
+          p_name?: string
+        }
+        Returns: string
+      }
+      current_shift_start: {
+        Args: {
+          p_department_id: string
+        }
+        Returns: string
+      }
+      evaluate_alert_rules: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      existing_machine_codes: {
+        Args: {
+          p_codes: string[]
+        }
+        Returns: string[]
+      }
+      flush_machine_signals: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      generate_due_pm_work_orders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      ingest_machine_data: {
+        Args: {
+          p_api_key: string
+          p_signal?: string
+          p_produced_count?: number
+          p_scrap_count?: number
+          p_observed_at?: string
+        }
+        Returns: Json
+      }
+      machine_status_durations: {
+        Args: {
+          p_machine_ids: string[]
+          p_start: string
+          p_end: string
+        }
+        Returns: {
+          machine_id: string
+          status: string
+          status_type_id: string
+          duration_seconds: number
+          segment_count: number
+        }[]
+      }
+      machine_status_segments: {
+        Args: {
+          p_machine_ids: string[]
+          p_start: string
+          p_end: string
+        }
+        Returns: {
+          machine_id: string
+          status: string
+          status_type_id: string
+          reason_id: string | null
+          sub_reason_id: string | null
+          started_at: string
+          ended_at: string
+        }[]
+      }
+      pm_plan_status: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          plan_id: string
+          machine_id: string
+          runtime_hours: number
+          due_at: string | null
+          progress: number
+          open_work_order_id: string | null
+        }[]
+      }
+      retry_notification_delivery: {
+        Args: {
+          p_delivery_id: string
+        }
+        Returns: undefined
+      }
+      send_test_notification: {
+        Args: {
+          p_channel_id: string
+        }
+        Returns: undefined
+      }
+      user_access_role_allows_status: {
+        Args: {
+          p_machine_id: string
+          p_status: string | null
+        }
+        Returns: boolean
+      }
+      user_access_role_can_assign: {
+        Args: {
+          p_machine_id: string
+        }
+        Returns: boolean
+      }
+      user_access_role_covers_department: {
+        Args: {
+          p_department_id: string
+        }
+        Returns: boolean
+      }
+      user_can_manage_machine: {
+        Args: {
+          p_machine_id: string
+        }
+        Returns: boolean
+      }
+      user_can_update_machine: {
+        Args: {
+          p_machine_id: string
+        }
+        Returns: boolean
+      }
+      user_can_update_work_order: {
+        Args: {
+          p_work_order_id: string
+        }
+        Returns: boolean
+      }
+      user_operates_machine: {
+        Args: {
+          p_machine_id: string
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
@@ -0,0 +1,37 @@
+// Dates, numbers and durations in the interface language; pass i18n.language
+
+type DateInput = string | number | Date;
+
+export const formatDate = (value: DateInput, language: string) =>
+  new Date(value).toLocaleDateString(language);
+
+export const formatTime = (value: DateInput, language: string) =>
+  new Date(value).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' });
+
+export const formatDateTime = (value: DateInput, language: string) =>
+  new Date(value).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const formatNumber = (
+  value: number,
+  language: string,
+  options?: Intl.NumberFormatOptions
+) => new Intl.NumberFormat(language, options).format(value);
+
+/** `ratio` of 1 is 100%. */
+export const formatPercent = (ratio: number, language: string) =>
+  formatNumber(ratio, language, {
+    style: 'percent',
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  });
+
+/** Hours and minutes, e.g. "2 hr 5 min" or "2 Std. 5 Min."; hours are left out under an hour. */
+export const formatDuration = (ms: number, language: string) => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const part = (value: number, unit: 'hour' | 'minute') =>
+    formatNumber(value, language, { style: 'unit', unit, unitDisplay: 'short' });
+
+  const minutes = part(totalMinutes % 60, 'minute');
+  return hours > 0 ? `${part(hours, 'hour')} ${minutes}` : minutes;
+};
@@ -0,0 +1,213 @@
+import type { Database } from './database.types';
+import type { ExportTable } from './reportExport';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+type Department = Database['public']['Tables']['departments']['Row'];
+
+// Column names of the import file; the export uses the same ones so that an exported
+// list can be edited and imported again
+export const MACHINE_CSV_COLUMNS = [
+  'machine_code',
+  'machine_name',
+  'description',
+  'department',
+  'ideal_cycle_time_seconds',
+] as const;
+
+const REQUIRED_COLUMNS = ['machine_code', 'machine_name', 'department'];
+
+export interface ImportIssue {
+  // i18n key under machineImport.errors
+  key: string;
+  params?: Record<string, string>;
+}
+
+export interface MachineImportRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  machineCode: string;
+  machineName: string;
+  description: string;
+  departmentName: string;
+  departmentId: string | null;
+  idealCycleTimeSeconds: number | null;
+  // Set when a machine with the same code exists; the row then updates it
+  existingMachine: Machine | null;
+  errors: ImportIssue[];
+}
+
+export interface MachineImportPreview {
+  // Problems with the file as a whole, e.g. missing columns
+  fileErrors: ImportIssue[];
+  rows: MachineImportRow[];
+}
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded delimiters,
+ * quotes and line breaks. Files saved by Excel in a Turkish locale use semicolons,
+ * so the delimiter is taken from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = headerLine.includes(';') && !headerLine.includes(',') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines, including the one left by a trailing newline
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+/**
+ * Checks parsed CSV rows against the current machines and departments. Rows are
+ * matched to existing machines by code and departments by name, both case-insensitively.
+ * `allowedDepartmentIds` limits which departments rows may create machines in or move
+ * machines to, for team leaders. `otherMachineCodes` are codes of machines outside
+ * `machines`, i.e. in departments the user cannot see; rows using them are rejected.
+ */
+export function validateMachineImport(
+  csvRows: string[][],
+  machines: Machine[],
+  departments: Department[],
+  allowedDepartmentIds: string[] | null,
+  otherMachineCodes: string[] = []
+): MachineImportPreview {
+  if (csvRows.length === 0) {
+    return { fileErrors: [{ key: 'emptyFile' }], rows: [] };
+  }
+
+  const header = csvRows[0].map((h) => h.trim().toLowerCase());
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missingColumns.length > 0) {
+    return {
+      fileErrors: [{ key: 'missingColumns', params: { columns: missingColumns.join(', ') } }],
+      rows: [],
+    };
+  }
+
+  const column = (cells: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? (cells[index] ?? '').trim() : '';
+  };
+
+  const machinesByCode = new Map(machines.map((m) => [m.machine_code.toLowerCase(), m]));
+  const departmentsByName = new Map(departments.map((d) => [d.name.trim().toLowerCase(), d]));
+  const otherCodes = new Set(otherMachineCodes.map((code) => code.toLowerCase()));
+  const linesByCode = new Map<string, number>();
+
+  const rows = csvRows.slice(1).map((cells, index): MachineImportRow => {
+    const line = index + 2;
+    const errors: ImportIssue[] = [];
+
+    const machineCode = column(cells, 'machine_code');
+    const machineName = column(cells, 'machine_name');
+    const departmentName = column(cells, 'department');
+    const cycleTime = column(cells, 'ideal_cycle_time_seconds').replace(',', '.');
+
+    if (!machineCode) errors.push({ key: 'missingField', params: { field: 'machine_code' } });
+    if (!machineName) errors.push({ key: 'missingField', params: { field: 'machine_name' } });
+    if (!departmentName) errors.push({ key: 'missingField', params: { field: 'department' } });
+
+    if (machineCode) {
+      const firstLine = linesByCode.get(machineCode.toLowerCase());
+      if (firstLine !== undefined) {
+        errors.push({ key: 'duplicateCode', params: { code: machineCode, line: String(firstLine) } });
+      } else {
+        linesByCode.set(machineCode.toLowerCase(), line);
+      }
+    }
+
+    const department = departmentName ? departmentsByName.get(departmentName.toLowerCase()) : undefined;
+    if (departmentName && !department) {
+      errors.push({ key: 'unknownDepartment', params: { department: departmentName } });
+    } else if (department && allowedDepartmentIds && !allowedDepartmentIds.includes(department.id)) {
+      errors.push({ key: 'departmentNotAllowed', params: { department: department.name } });
+    }
+
+    const existingMachine = machineCode ? machinesByCode.get(machineCode.toLowerCase()) ?? null : null;
+    if (
+      existingMachine &&
+      allowedDepartmentIds &&
+      !allowedDepartmentIds.includes(existingMachine.department_id ?? '')
+    ) {
+      errors.push({ key: 'machineNotAllowed', params: { code: machineCode } });
+    } else if (!existingMachine && machineCode && otherCodes.has(machineCode.toLowerCase())) {
+      errors.push({ key: 'codeInOtherDepartment', params: { code: machineCode } });
+    }
+
+    let idealCycleTimeSeconds: number | null = null;
+    if (cycleTime) {
+      idealCycleTimeSeconds = Number(cycleTime);
+      if (!(idealCycleTimeSeconds > 0)) {
+        errors.push({ key: 'invalidCycleTime', params: { value: cycleTime } });
+        idealCycleTimeSeconds = null;
+      }
+    }
+
+    return {
+      line,
+      machineCode,
+      machineName,
+      description: column(cells, 'description'),
+      departmentName,
+      departmentId: department?.id ?? null,
+      idealCycleTimeSeconds,
+      existingMachine,
+      errors,
+    };
+  });
+
+  return { fileErrors: rows.length === 0 ? [{ key: 'emptyFile' }] : [], rows };
+}
+
+export function machinesToExportTable(machines: Machine[], departments: Department[]): ExportTable {
+  const departmentNames = new Map(departments.map((d) => [d.id, d.name]));
+
+  return {
+    name: 'Machines',
+    headers: [...MACHINE_CSV_COLUMNS],
+    rows: machines.map((machine) => [
+      machine.machine_code,
+      machine.machine_name,
+      machine.description ?? '',
+      (machine.department_id && departmentNames.get(machine.department_id)) || '',
+      machine.ideal_cycle_time_seconds ?? '',
+    ]),
+  };
+}
@@ -0,0 +1,70 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type StatusHistory = Database['public']['Tables']['status_history']['Row'];
+
+// The status to change to. The server goes by the id, so a change queued offline still
+// applies after its status type was renamed; the name is only used when there is no id.
+export interface StatusTarget {
+  id?: string;
+  name: string;
+}
+
+export interface StatusChangeOptions {
+  // When the change was actually made; defaults to the server clock.
+  changedAt?: string;
+  // The machine's last_updated_at as seen when the change was made. The server rejects
+  // the change with a conflict if the machine has been updated since.
+  expectedUpdatedAt?: string;
+  // Reason code, required for statuses flagged with requires_reason
+  reasonId?: string;
+  subReasonId?: string;
+}
+
+export class StatusChangeError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly details: string;
+
+  constructor(message: string, code: string, status: number, details: string) {
+    super(message);
+    this.name = 'StatusChangeError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+
+  // postgrest-js reports fetch failures with HTTP status 0
+  get isNetworkError() {
+    return this.status === 0;
+  }
+
+  get isConflict() {
+    return this.code === 'PT409' || this.status === 409;
+  }
+}
+
+// Status changes go through the change_machine_status RPC so that the machine row and
+// its history entry are written in a single transaction with the server clock.
+export async function changeMachineStatus(
+  machineId: string,
+  newStatus: StatusTarget,
+  comment: string,
+  options: StatusChangeOptions = {}
+): Promise<StatusHistory> {
+  const { data, error, status } = await supabase.rpc('change_machine_status', {
+    p_machine_id: machineId,
+    p_status_type_id: newStatus.id,
+    p_new_status: newStatus.name,
+    p_comment: comment.trim(),
+    p_changed_at: options.changedAt,
+    p_expected_updated_at: options.expectedUpdatedAt,
+    p_reason_id: options.reasonId,
+    p_sub_reason_id: options.subReasonId,
+  });
+
+  if (error) {
+    throw new StatusChangeError(error.message, error.code, status, error.details ?? '');
+  }
+  return data;
+}
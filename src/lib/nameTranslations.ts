@@ -0,0 +1,32 @@
+import type { Json } from './database.types';
+
+// Status types and departments keep a name per language code next to their name
+export type NameTranslations = Record<string, string>;
+
+interface Translatable {
+  name: string;
+  name_translations: Json;
+}
+
+export const nameTranslations = (item: Translatable): NameTranslations => {
+  const value = item.name_translations;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const translations: NameTranslations = {};
+  for (const [language, name] of Object.entries(value)) {
+    if (typeof name === 'string' && name.trim()) translations[language] = name;
+  }
+  return translations;
+};
+
+/** The name to show in `language`, or the name itself when it has no translation. */
+export const localizedName = (item: Translatable, language: string): string =>
+  nameTranslations(item)[language] ?? item.name;
+
+/** Drops the languages left empty in a form, so they fall back to the name. */
+export const cleanNameTranslations = (translations: NameTranslations): NameTranslations =>
+  Object.fromEntries(
+    Object.entries(translations)
+      .map(([language, name]) => [language, name.trim()])
+      .filter(([, name]) => name)
+  );
@@ -0,0 +1,136 @@
+import type { Database } from './database.types';
+import { overlapDuration, TimeInterval } from './shifts';
+
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+type ProductionCount = Database['public']['Tables']['production_counts']['Row'];
+
+export type OeeCategory = StatusType['oee_category'];
+
+export const OEE_CATEGORIES: OeeCategory[] = ['productive', 'planned_downtime', 'unplanned_downtime'];
+
+// Raw sums that OEE figures are derived from. Kept separate from the ratios so machines
+// and days can be added together before dividing. All times are in milliseconds.
+export interface OeeTotals {
+  // Tracked time minus planned downtime
+  plannedTime: number;
+  // Time spent in productive statuses
+  runTime: number;
+  // Run time of machines with an ideal cycle time and entered counts; performance is
+  // measured against it so that machines without counts do not read as idle
+  ratedRunTime: number;
+  // Ideal cycle time x produced parts
+  idealTime: number;
+  produced: number;
+  scrap: number;
+}
+
+export interface OeeFigures extends OeeTotals {
+  availability: number | null;
+  performance: number | null;
+  quality: number | null;
+  oee: number | null;
+}
+
+export interface OeeSegment {
+  statusTypeId: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface MachineOeeInput {
+  segments: OeeSegment[];
+  counts: Pick<ProductionCount, 'recorded_at' | 'produced_count' | 'scrap_count'>[];
+  idealCycleTimeSeconds: number | null;
+  // Scheduled shift time; hours outside it are left out of availability. Null when the
+  // machine's department has no shift calendar.
+  schedule?: TimeInterval[] | null;
+}
+
+export const emptyOeeTotals = (): OeeTotals => ({
+  plannedTime: 0,
+  runTime: 0,
+  ratedRunTime: 0,
+  idealTime: 0,
+  produced: 0,
+  scrap: 0,
+});
+
+export const addOeeTotals = (a: OeeTotals, b: OeeTotals): OeeTotals => ({
+  plannedTime: a.plannedTime + b.plannedTime,
+  runTime: a.runTime + b.runTime,
+  ratedRunTime: a.ratedRunTime + b.ratedRunTime,
+  idealTime: a.idealTime + b.idealTime,
+  produced: a.produced + b.produced,
+  scrap: a.scrap + b.scrap,
+});
+
+// Sums one machine's segments and counts inside [from, to). A count row covers the parts
+// made since the previous entry and is attributed to the moment it was recorded.
+export function machineOeeTotals(
+  input: MachineOeeInput,
+  categories: Record<string, OeeCategory>,
+  from: number,
+  to: number
+): OeeTotals {
+  const totals = emptyOeeTotals();
+
+  for (const segment of input.segments) {
+    const start = Math.max(segment.startTime, from);
+    const end = Math.min(segment.endTime, to);
+    const duration = input.schedule ? overlapDuration(start, end, input.schedule) : end - start;
+    if (duration <= 0) continue;
+
+    // Statuses without a classification count against availability
+    const category = categories[segment.statusTypeId] ?? 'unplanned_downtime';
+    if (category === 'planned_downtime') continue;
+
+    totals.plannedTime += duration;
+    if (category === 'productive') totals.runTime += duration;
+  }
+
+  let countEntries = 0;
+  for (const count of input.counts) {
+    const recordedAt = new Date(count.recorded_at).getTime();
+    if (recordedAt < from || recordedAt >= to) continue;
+    totals.produced += count.produced_count;
+    totals.scrap += count.scrap_count;
+    countEntries += 1;
+  }
+
+  if (input.idealCycleTimeSeconds && countEntries > 0) {
+    totals.ratedRunTime = totals.runTime;
+    totals.idealTime = input.idealCycleTimeSeconds * 1000 * totals.produced;
+  }
+
+  return totals;
+}
+
+// Ratios are null when their denominator is empty, e.g. no counts were entered or the
+// machine has no ideal cycle time. OEE is only given when all three factors are known.
+export function oeeFigures(totals: OeeTotals): OeeFigures {
+  const availability = totals.plannedTime > 0 ? totals.runTime / totals.plannedTime : null;
+  const performance = totals.ratedRunTime > 0 ? totals.idealTime / totals.ratedRunTime : null;
+  const quality = totals.produced > 0 ? (totals.produced - totals.scrap) / totals.produced : null;
+  const oee =
+    availability !== null && performance !== null && quality !== null
+      ? availability * performance * quality
+      : null;
+
+  return { ...totals, availability, performance, quality, oee };
+}
+
+// Splits [from, to) at local midnights for the daily trend.
+export function dayBuckets(from: number, to: number): { start: number; end: number }[] {
+  const buckets: { start: number; end: number }[] = [];
+  let start = from;
+
+  while (start < to) {
+    const nextMidnight = new Date(start);
+    nextMidnight.setHours(24, 0, 0, 0);
+    const end = Math.min(nextMidnight.getTime(), to);
+    buckets.push({ start, end });
+    start = end;
+  }
+
+  return buckets;
+}
@@ -0,0 +1,102 @@
+import type { Database } from './database.types';
+
+type Machine = Database['public']['Tables']['machines']['Row'];
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+type AccessRole = Database['public']['Tables']['access_roles']['Row'];
+
+export type Role = Database['public']['Tables']['profiles']['Row']['role'];
+
+// In order of increasing access, as offered in role pickers
+export const ROLES: Role[] = ['operator', 'team_leader', 'admin'];
+
+// Role of self-registered accounts; without machine assignments they can only view
+export const SELF_SIGN_UP_ROLE: Role = 'operator';
+
+// The access role held by the user, with its departments and the statuses it may set
+export interface AccessRoleGrant {
+  role: AccessRole;
+  departmentIds: string[];
+  statusTypeIds: string[];
+}
+
+export interface Permissions {
+  role: Role | null;
+  isAdmin: boolean;
+  isTeamLeader: boolean;
+  accessRole: AccessRoleGrant | null;
+  // Departments the user leads and machines the user is assigned to operate
+  leaderDepartmentIds: string[];
+  operatorMachineIds: string[];
+  canAccessReports: boolean;
+  canAccessManagement: boolean;
+  // Team leaders may add operators; everything else about accounts is admin-only
+  canAddUsers: boolean;
+  canAdministerUsers: boolean;
+  canUpdateMachine: (machine: Pick<Machine, 'id' | 'department_id'>) => boolean;
+  canSetStatus: (machine: Pick<Machine, 'id' | 'department_id'>, statusType: Pick<StatusType, 'id'>) => boolean;
+  canManageMachine: (machine: Pick<Machine, 'department_id'>) => boolean;
+  canManageMachineOperators: (machine: Pick<Machine, 'department_id'>) => boolean;
+  canManageDepartment: (departmentId: string | null) => boolean;
+}
+
+/**
+ * Builds the current user's permissions. These mirror the database rules so the UI only
+ * offers what the server will accept; the server still enforces them.
+ *
+ * - Which machines a user sees is left to the machines select policies, so queries only
+ *   return visible machines
+ * - `canUpdateMachine` mirrors `user_can_update_machine`: admins, leaders of the
+ *   machine's department, operators assigned to the machine and access roles that may
+ *   set at least one status on it
+ * - `canSetStatus` mirrors the status_history permission trigger
+ * - `canManageMachine` mirrors `user_can_manage_machine`: admins and leaders of the
+ *   machine's department
+ * - `canManageMachineOperators` mirrors the machine_operators policies
+ * - `canManageDepartment`: admins and leaders of the department
+ */
+export function createPermissions(
+  role: Role | null,
+  leaderDepartmentIds: string[],
+  operatorMachineIds: string[],
+  accessRole: AccessRoleGrant | null = null
+): Permissions {
+  const isAdmin = role === 'admin';
+  const isTeamLeader = role === 'team_leader';
+
+  const canManageDepartment = (departmentId: string | null) =>
+    isAdmin || (departmentId !== null && leaderDepartmentIds.includes(departmentId));
+
+  const operatesMachine = (machine: Pick<Machine, 'id' | 'department_id'>) =>
+    canManageDepartment(machine.department_id) || operatorMachineIds.includes(machine.id);
+
+  const accessRoleCovers = (departmentId: string | null) =>
+    !!accessRole &&
+    (accessRole.role.all_departments ||
+      (departmentId !== null && accessRole.departmentIds.includes(departmentId)));
+
+  return {
+    role,
+    isAdmin,
+    isTeamLeader,
+    accessRole,
+    leaderDepartmentIds,
+    operatorMachineIds,
+    // Signed-out visitors see the public reports; operators only their machines' history
+    canAccessReports: role === null || isAdmin || isTeamLeader || !!accessRole?.role.can_run_reports,
+    canAccessManagement: isAdmin || isTeamLeader || !!accessRole?.role.can_manage_assignments,
+    canAddUsers: isAdmin || isTeamLeader,
+    canAdministerUsers: isAdmin,
+    canUpdateMachine: (machine) =>
+      operatesMachine(machine) ||
+      (accessRoleCovers(machine.department_id) && !!accessRole?.statusTypeIds.length),
+    canSetStatus: (machine, statusType) =>
+      operatesMachine(machine) ||
+      (accessRoleCovers(machine.department_id) && !!accessRole?.statusTypeIds.includes(statusType.id)),
+    canManageMachine: (machine) => canManageDepartment(machine.department_id),
+    canManageMachineOperators: (machine) =>
+      isAdmin ||
+      isTeamLeader ||
+      (accessRoleCovers(machine.department_id) && !!accessRole?.role.can_manage_assignments),
+    canManageDepartment,
+  };
+}
@@ -0,0 +1,25 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type PmPlanStatus = Database['public']['Functions']['pm_plan_status']['Returns'][number];
+
+export type PmState = 'ok' | 'upcoming' | 'overdue';
+
+// Share of the interval after which a plan is shown as upcoming
+export const PM_UPCOMING_THRESHOLD = 0.9;
+
+export const pmState = (status: PmPlanStatus): PmState =>
+  status.progress >= 1 ? 'overdue' : status.progress >= PM_UPCOMING_THRESHOLD ? 'upcoming' : 'ok';
+
+// Status of every active plan. Due plans get their work orders first when the user is
+// signed in; viewers only see the figures.
+export async function fetchPmPlanStatus(generateDue: boolean): Promise<PmPlanStatus[]> {
+  if (generateDue) {
+    const { error } = await supabase.rpc('generate_due_pm_work_orders');
+    if (error) console.error('Error generating preventive work orders:', error);
+  }
+
+  const { data, error } = await supabase.rpc('pm_plan_status');
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,59 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import type { Row } from 'write-excel-file/browser';
+
+export type ExportCell = string | number | Date;
+
+export interface ExportTable {
+  // Sheet name in the workbook; Excel limits it to 31 characters
+  name: string;
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+export const msToHours = (ms: number) => Math.round((ms / 3_600_000) * 100) / 100;
+export const msToSeconds = (ms: number) => Math.round(ms / 1000);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local time in a form spreadsheets parse regardless of the user's locale
+const formatCsvDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+const escapeCsv = (cell: ExportCell) => {
+  const text = cell instanceof Date ? formatCsvDate(cell) : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function downloadCsv(table: ExportTable, fileName: string) {
+  const lines = [table.headers, ...table.rows].map((row) => row.map(escapeCsv).join(','));
+  // The BOM makes Excel read the file as UTF-8 so Turkish characters survive
+  downloadBlob(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), fileName);
+}
+
+export async function downloadXlsx(tables: ExportTable[], fileName: string) {
+  const sheets = tables.map((table) => ({
+    sheet: table.name.slice(0, 31),
+    stickyRowsCount: 1,
+    data: [
+      table.headers.map((header) => ({ value: header, fontWeight: 'bold' as const })),
+      ...table.rows.map(
+        (row): Row =>
+          row.map((cell) =>
+            cell instanceof Date ? { value: cell, format: 'yyyy-mm-dd hh:mm:ss' } : cell
+          )
+      ),
+    ],
+  }));
+
+  await writeXlsxFile(sheets).toFile(fileName);
+}
@@ -0,0 +1,123 @@
+import type { Database } from './database.types';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type Holiday = Database['public']['Tables']['holidays']['Row'];
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+export interface ShiftOccurrence extends TimeInterval {
+  shiftId: string;
+  name: string;
+}
+
+// ISO numbering as stored in shifts.days_of_week
+export const ISO_WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+const isoWeekday = (date: Date) => date.getDay() || 7;
+
+const localDateKey = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Local timestamp of a "HH:MM[:SS]" time on the given day; built from date parts so that
+// DST changes do not shift it.
+const atTime = (day: Date, time: string, dayOffset = 0) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate() + dayOffset,
+    hours,
+    minutes
+  ).getTime();
+};
+
+// The shift starting on the given day. Shifts ending at or before their start run into
+// the next day.
+export function shiftOccurrenceOn(shift: Shift, day: Date): ShiftOccurrence {
+  const start = atTime(day, shift.start_time);
+  let end = atTime(day, shift.end_time);
+  if (end <= start) end = atTime(day, shift.end_time, 1);
+  return { shiftId: shift.id, name: shift.name, start, end };
+}
+
+// A department follows its own shifts if it has any, otherwise the plant-wide ones.
+export function shiftsForDepartment(shifts: Shift[], departmentId: string | null): Shift[] {
+  const active = shifts.filter((s) => s.is_active);
+  const own = departmentId ? active.filter((s) => s.department_id === departmentId) : [];
+  return own.length > 0 ? own : active.filter((s) => !s.department_id);
+}
+
+// Shift occurrences of a department overlapping [from, to), skipping holidays. A shift is
+// skipped when the day it starts on is a holiday.
+export function shiftOccurrences(
+  shifts: Shift[],
+  holidays: Holiday[],
+  departmentId: string | null,
+  from: number,
+  to: number
+): ShiftOccurrence[] {
+  const applicable = shiftsForDepartment(shifts, departmentId);
+  const holidayDates = new Set(
+    holidays
+      .filter((h) => !h.department_id || h.department_id === departmentId)
+      .map((h) => h.holiday_date)
+  );
+
+  const occurrences: ShiftOccurrence[] = [];
+  // Start a day early to catch a shift that began the evening before the range
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() - 1);
+
+  while (day.getTime() < to) {
+    if (!holidayDates.has(localDateKey(day))) {
+      for (const shift of applicable) {
+        if (!shift.days_of_week.includes(isoWeekday(day))) continue;
+        const occurrence = shiftOccurrenceOn(shift, day);
+        if (occurrence.end > from && occurrence.start < to) occurrences.push(occurrence);
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return occurrences.sort((a, b) => a.start - b.start);
+}
+
+// Scheduled working time of a department within [from, to) as sorted, non-overlapping
+// intervals, or null when no shifts are defined and every hour counts as scheduled.
+export function scheduledIntervals(
+  shifts: Shift[],
+  holidays: Holiday[],
+  departmentId: string | null,
+  from: number,
+  to: number
+): TimeInterval[] | null {
+  if (shiftsForDepartment(shifts, departmentId).length === 0) return null;
+
+  const merged: TimeInterval[] = [];
+  for (const occurrence of shiftOccurrences(shifts, holidays, departmentId, from, to)) {
+    const start = Math.max(occurrence.start, from);
+    const end = Math.min(occurrence.end, to);
+    const last = merged[merged.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      merged.push({ start, end });
+    }
+  }
+  return merged;
+}
+
+// Length of [start, end) that falls inside the given intervals.
+export function overlapDuration(start: number, end: number, intervals: TimeInterval[]): number {
+  return intervals.reduce(
+    (sum, interval) =>
+      sum + Math.max(0, Math.min(end, interval.end) - Math.max(start, interval.start)),
+    0
+  );
+}
@@ -0,0 +1,192 @@
+import { changeMachineStatus, StatusChangeError } from './machineStatus';
+
+// Persistent outbox for status changes made while the device is offline. Entries live in
+// IndexedDB so they survive reloads and are replayed in the order they were made.
+
+const DB_NAME = 'machine-monitoring';
+const DB_VERSION = 1;
+const STORE = 'status_outbox';
+
+export type OutboxEntryState = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  machineId: string;
+  machineCode: string;
+  // Entries queued before status type ids were recorded only carry the name
+  statusTypeId?: string;
+  status: string;
+  previousStatus: string;
+  comment: string;
+  reasonId?: string;
+  subReasonId?: string;
+  changedAt: string;
+  // Replay order; unlike changedAt it does not move when a conflict is resolved
+  queuedAt: string;
+  expectedUpdatedAt: string;
+  state: OutboxEntryState;
+  error?: string;
+  // Status the machine had on the server when a conflict was detected
+  serverStatus?: string;
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<Listener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushing: Promise<void> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('queuedAt', 'queuedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = operation(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  const entries = await runTransaction<OutboxEntry[]>('readonly', (store) =>
+    store.index('queuedAt').getAll()
+  );
+  return entries;
+}
+
+const notify = async () => {
+  const entries = await getOutboxEntries();
+  listeners.forEach((listener) => listener(entries));
+};
+
+export function subscribeToOutbox(listener: Listener) {
+  listeners.add(listener);
+  getOutboxEntries()
+    .then(listener)
+    .catch((error) => console.error('Error reading status outbox:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function enqueueStatusChange(
+  entry: Omit<OutboxEntry, 'id' | 'state' | 'queuedAt'>
+): Promise<OutboxEntry> {
+  const queued: OutboxEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    queuedAt: entry.changedAt,
+    state: 'pending',
+  };
+  await runTransaction('readwrite', (store) => store.put(queued));
+  await notify();
+  return queued;
+}
+
+export async function discardOutboxEntry(id: string) {
+  await runTransaction('readwrite', (store) => store.delete(id));
+  await notify();
+}
+
+// Puts a conflicting or failed entry back in the queue. For a conflict the caller passes
+// the machine's current last_updated_at: the operator has seen the newer server status
+// and confirms the change now, so it is re-based on that state and re-timed to now
+// (history cannot be back-dated before the newer change).
+export async function retryOutboxEntry(id: string, expectedUpdatedAt?: string) {
+  const entry = await runTransaction<OutboxEntry | undefined>('readonly', (store) =>
+    store.get(id)
+  );
+  if (!entry) return;
+
+  const retried: OutboxEntry = {
+    ...entry,
+    state: 'pending',
+    error: undefined,
+    ...(expectedUpdatedAt && {
+      expectedUpdatedAt,
+      changedAt: new Date().toISOString(),
+    }),
+  };
+  await runTransaction('readwrite', (store) => store.put(retried));
+  await notify();
+}
+
+const replay = async () => {
+  const entries = await getOutboxEntries();
+  // Once a machine has a blocked entry, its later entries must wait so they are not
+  // applied out of order.
+  const blockedMachines = new Set(
+    entries.filter((e) => e.state !== 'pending').map((e) => e.machineId)
+  );
+  // Successful replays move last_updated_at, so later entries for the same machine are
+  // checked against the entry that was just written rather than the stale snapshot.
+  const replayedUpdatedAt = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (entry.state !== 'pending' || blockedMachines.has(entry.machineId)) continue;
+
+    try {
+      const written = await changeMachineStatus(
+        entry.machineId,
+        { id: entry.statusTypeId, name: entry.status },
+        entry.comment,
+        {
+          changedAt: entry.changedAt,
+          reasonId: entry.reasonId,
+          subReasonId: entry.subReasonId,
+          expectedUpdatedAt: replayedUpdatedAt.get(entry.machineId) ?? entry.expectedUpdatedAt,
+        }
+      );
+      replayedUpdatedAt.set(entry.machineId, written.changed_at);
+      await runTransaction('readwrite', (store) => store.delete(entry.id));
+    } catch (error) {
+      if (error instanceof StatusChangeError && error.isNetworkError) {
+        // Still offline; try again on the next flush
+        return;
+      }
+
+      const failed: OutboxEntry = {
+        ...entry,
+        state: error instanceof StatusChangeError && error.isConflict ? 'conflict' : 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        serverStatus: error instanceof StatusChangeError ? error.details || undefined : undefined,
+      };
+      await runTransaction('readwrite', (store) => store.put(failed));
+      blockedMachines.add(entry.machineId);
+    }
+  }
+};
+
+// Replays pending entries oldest first. Concurrent calls share the same run.
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = replay()
+      .catch((error) => console.error('Error replaying status outbox:', error))
+      .finally(async () => {
+        flushing = null;
+        await notify();
+      });
+  }
+  return flushing;
+}
@@ -0,0 +1,63 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type StatusSegmentRow =
+  Database['public']['Functions']['machine_status_segments']['Returns'][number];
+
+// PostgREST caps the rows of a single response (max_rows, 1000 by default), so a large
+// window is read in pages. Small reports still take a single call.
+const PAGE_SIZE = 1000;
+
+// Status segments of the given machines inside [start, end), computed by the database and
+// ordered by machine and start time.
+export async function fetchStatusSegments(
+  machineIds: string[],
+  start: number,
+  end: number
+): Promise<StatusSegmentRow[]> {
+  const rows: StatusSegmentRow[] = [];
+  if (machineIds.length === 0) return rows;
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('machine_status_segments', {
+        p_machine_ids: machineIds,
+        p_start: new Date(start).toISOString(),
+        p_end: new Date(end).toISOString(),
+      })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export type StatusChangeRow = Database['public']['Tables']['status_history']['Row'];
+
+// Status changes of the given machines inside [start, end), oldest first, read in pages
+// like the segments.
+export async function fetchStatusChanges(
+  machineIds: string[],
+  start: number,
+  end: number
+): Promise<StatusChangeRow[]> {
+  const rows: StatusChangeRow[] = [];
+  if (machineIds.length === 0) return rows;
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('status_history')
+      .select('*')
+      .in('machine_id', machineIds)
+      .gte('changed_at', new Date(start).toISOString())
+      .lt('changed_at', new Date(end).toISOString())
+      .order('changed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
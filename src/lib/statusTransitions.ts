@@ -0,0 +1,41 @@
+import type { Database } from './database.types';
+
+type StatusType = Database['public']['Tables']['status_types']['Row'];
+type StatusTransition = Database['public']['Tables']['status_transitions']['Row'];
+
+// How a status may be changed to another, as offered in the transition editor
+export type TransitionRule = 'notAllowed' | 'allowed' | 'leaderOnly';
+
+export const TRANSITION_RULES: TransitionRule[] = ['allowed', 'leaderOnly', 'notAllowed'];
+
+export const transitionRule = (
+  transitions: StatusTransition[],
+  fromId: string,
+  toId: string
+): TransitionRule => {
+  const transition = transitions.find(
+    (tr) => tr.from_status_type_id === fromId && tr.to_status_type_id === toId
+  );
+  if (!transition) return 'notAllowed';
+  return transition.leader_only ? 'leaderOnly' : 'allowed';
+};
+
+/**
+ * Why a manual change from `from` to `to` would be rejected, or null if it is allowed.
+ * Mirrors the status_history transition trigger: unrestricted statuses may change to any
+ * status, and leader-only transitions need `canLead` (admins and leaders of the machine's
+ * department).
+ */
+export function transitionBlock(
+  transitions: StatusTransition[],
+  from: StatusType | undefined,
+  to: StatusType,
+  canLead: boolean
+): Exclude<TransitionRule, 'allowed'> | null {
+  if (!from || from.id === to.id || !from.restrict_transitions) return null;
+
+  const rule = transitionRule(transitions, from.id, to.id);
+  if (rule === 'notAllowed') return 'notAllowed';
+  if (rule === 'leaderOnly' && !canLead) return 'leaderOnly';
+  return null;
+}
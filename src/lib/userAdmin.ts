@@ -0,0 +1,32 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Role } from './permissions';
+
+// Query parameter of the link in invite and password reset emails; the app asks the user
+// to choose a password when it is present
+export const SET_PASSWORD_PARAM = 'set-password';
+
+const setPasswordUrl = () => `${window.location.origin}/?${SET_PASSWORD_PARAM}=1`;
+
+// User accounts are created and administered by the manage-users edge function, which
+// uses the service role; calling auth.signUp from the browser would replace the admin's
+// own session with the new user's.
+const manageUsers = async (body: Record<string, unknown>) => {
+  const { error } = await supabase.functions.invoke('manage-users', { body });
+
+  if (error instanceof FunctionsHttpError) {
+    const response = await error.context.json().catch(() => null);
+    throw new Error((response as { error?: string } | null)?.error ?? error.message);
+  }
+  if (error) throw error;
+};
+
+export const inviteUser = (email: string, fullName: string, role: Role) =>
+  manageUsers({ action: 'invite', email, full_name: fullName, role, redirect_to: setPasswordUrl() });
+
+export const deactivateUser = (userId: string) => manageUsers({ action: 'deactivate', user_id: userId });
+
+export const reactivateUser = (userId: string) => manageUsers({ action: 'reactivate', user_id: userId });
+
+export const sendPasswordReset = (userId: string) =>
+  manageUsers({ action: 'reset', user_id: userId, redirect_to: setPasswordUrl() });
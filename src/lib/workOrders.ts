@@ -0,0 +1,24 @@
+import type { Database } from './database.types';
+import { formatDuration } from './format';
+
+type WorkOrder = Database['public']['Tables']['work_orders']['Row'];
+
+export type WorkOrderState = WorkOrder['state'];
+
+// Any user can be assigned to a work order; only the name is needed for display
+export interface Technician {
+  id: string;
+  full_name: string;
+}
+
+export const WORK_ORDER_STATES: WorkOrderState[] = ['open', 'in_progress', 'waiting_parts', 'done'];
+
+export const WORK_ORDER_STATE_COLORS: Record<WorkOrderState, string> = {
+  open: 'bg-red-100 text-red-800 border-red-200',
+  in_progress: 'bg-blue-100 text-blue-800 border-blue-200',
+  waiting_parts: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  done: 'bg-green-100 text-green-800 border-green-200',
+};
+
+export const formatLaborMinutes = (minutes: number, language: string) =>
+  formatDuration(minutes * 60000, language);
@@ -0,0 +1,229 @@
+/*
+  Sends queued status change notifications (see the create_notification_channels
+  migration). Each invocation claims the due deliveries, sends them by email (SMTP) or
+  webhook and reports the outcome; failed deliveries are retried with backoff by the
+  database.
+
+  Environment:
+    SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY - provided by Supabase
+    SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM, SMTP_SECURE
+    WEBHOOK_ALLOW_PRIVATE_HOSTS - 'true' to allow http:// webhooks and hosts on private
+      networks; for local testing only
+
+  To try it locally, run a mail catcher such as Mailpit (SMTP on port 1025) and any
+  HTTP request bin, copy .env.example to .env.local (which allows private webhook hosts),
+  then:
+
+    supabase functions serve deliver-notifications --env-file supabase/functions/.env.local
+    curl -X POST http://localhost:54321/functions/v1/deliver-notifications \
+      -H "Authorization: Bearer <service role key>"
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import nodemailer from 'npm:nodemailer@6';
+
+interface Delivery {
+  id: string;
+  channel_type: 'email' | 'webhook';
+  target: string;
+  payload: Payload;
+  attempts: number;
+}
+
+interface Payload {
+  type: 'status_change' | 'test';
+  machine_code?: string;
+  machine_name?: string;
+  department?: string | null;
+  status?: string;
+  previous_status?: string | null;
+  comment?: string | null;
+  changed_at: string;
+  changed_by?: string | null;
+}
+
+const BATCH_SIZE = 20;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const WEBHOOK_ALLOW_PRIVATE_HOSTS = Deno.env.get('WEBHOOK_ALLOW_PRIVATE_HOSTS') === 'true';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const transport = nodemailer.createTransport({
+  host: Deno.env.get('SMTP_HOST'),
+  port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+  secure: Deno.env.get('SMTP_SECURE') === 'true',
+  auth: Deno.env.get('SMTP_USER')
+    ? { user: Deno.env.get('SMTP_USER'), pass: Deno.env.get('SMTP_PASS') }
+    : undefined,
+});
+
+const formatSubject = (payload: Payload) => {
+  if (payload.type === 'test') return 'Test notification';
+  return `${payload.machine_code}: ${payload.previous_status ?? '-'} → ${payload.status}`;
+};
+
+const formatText = (payload: Payload) => {
+  if (payload.type === 'test') {
+    return `This is a test notification requested by ${payload.changed_by ?? 'a user'}.`;
+  }
+
+  const lines = [
+    `${payload.machine_code} - ${payload.machine_name}`,
+    `Status: ${payload.previous_status ?? '-'} → ${payload.status}`,
+  ];
+  if (payload.department) lines.push(`Department: ${payload.department}`);
+  if (payload.changed_by) lines.push(`Changed by: ${payload.changed_by}`);
+  lines.push(`Time: ${new Date(payload.changed_at).toISOString()}`);
+  if (payload.comment) lines.push(`Comment: ${payload.comment}`);
+  return lines.join('\n');
+};
+
+const sendEmail = async (delivery: Delivery) => {
+  await transport.sendMail({
+    from: Deno.env.get('SMTP_FROM'),
+    to: delivery.target,
+    subject: formatSubject(delivery.payload),
+    text: formatText(delivery.payload),
+  });
+};
+
+const parseIPv4 = (address: string) => {
+  const parts = address.split('.').map(Number);
+  if (parts.length !== 4 || parts.some((p) => !Number.isInteger(p) || p < 0 || p > 255)) return null;
+  return parts;
+};
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved
+const isInternalIPv4 = ([a, b]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 192 && b === 0) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  a >= 224;
+
+// Unspecified, loopback, unique local, link-local, multicast and IPv4-mapped internal
+const isInternalIPv6 = (address: string) => {
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isInternalIPv4(parseIPv4(mapped[1]) ?? [0, 0]);
+  // URL normalizes ::ffff:127.0.0.1 to ::ffff:7f00:1
+  const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):[0-9a-f]{1,4}$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    return isInternalIPv4([high >> 8, high & 0xff]);
+  }
+  return (
+    lower === '::' ||
+    lower === '::1' ||
+    /^f[cd]/.test(lower) ||
+    /^fe[89ab]/.test(lower) ||
+    lower.startsWith('ff')
+  );
+};
+
+const isInternalAddress = (address: string) => {
+  const ipv4 = parseIPv4(address);
+  return ipv4 ? isInternalIPv4(ipv4) : isInternalIPv6(address);
+};
+
+/**
+ * Channels are set up by any signed-in user, so webhooks may only reach public HTTPS
+ * hosts; this function must not be usable to probe the internal network. Local setups
+ * lift this with WEBHOOK_ALLOW_PRIVATE_HOSTS to post to a request bin on the machine.
+ */
+const assertPublicWebhook = async (target: string) => {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw new Error('Webhook URL is invalid');
+  }
+  if (url.protocol !== 'https:') throw new Error('Webhook URL must use https');
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (parseIPv4(host) || host.includes(':')) {
+    addresses = [host];
+  } else if (host === 'localhost' || host.endsWith('.localhost')) {
+    addresses = ['127.0.0.1'];
+  } else {
+    const results = await Promise.allSettled([
+      Deno.resolveDns(host, 'A'),
+      Deno.resolveDns(host, 'AAAA'),
+    ]);
+    addresses = results.flatMap((r) => (r.status === 'fulfilled' ? r.value : []));
+  }
+
+  if (addresses.length === 0) throw new Error(`Webhook host ${host} could not be resolved`);
+  if (addresses.some(isInternalAddress)) {
+    throw new Error(`Webhook host ${host} is not a public address`);
+  }
+};
+
+// `text` is understood by Slack and Teams incoming webhooks; other receivers can use
+// the structured event.
+const sendWebhook = async (delivery: Delivery) => {
+  if (!WEBHOOK_ALLOW_PRIVATE_HOSTS) await assertPublicWebhook(delivery.target);
+
+  // Redirects are not followed, as they could lead to an internal address
+  const response = await fetch(delivery.target, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: formatText(delivery.payload), event: delivery.payload }),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+};
+
+const deliver = async (delivery: Delivery) => {
+  let errorMessage: string | null = null;
+  try {
+    if (delivery.channel_type === 'email') {
+      await sendEmail(delivery);
+    } else {
+      await sendWebhook(delivery);
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  const { error } = await supabase.rpc('complete_notification_delivery', {
+    p_delivery_id: delivery.id,
+    p_error: errorMessage,
+  });
+  if (error) console.error('Error completing delivery:', error);
+
+  return errorMessage === null;
+};
+
+Deno.serve(async () => {
+  const { data, error } = await supabase.rpc('claim_notification_deliveries', {
+    p_limit: BATCH_SIZE,
+  });
+
+  if (error) {
+    console.error('Error claiming deliveries:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const results = await Promise.all((data as Delivery[]).map(deliver));
+  const sent = results.filter(Boolean).length;
+
+  return new Response(JSON.stringify({ sent, failed: results.length - sent }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
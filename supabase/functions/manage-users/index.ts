@@ -0,0 +1,179 @@
+/*
+  Creates and administers user accounts with the service role, so that the admin's own
+  browser session is never touched (see the add_user_deactivation migration).
+
+  Actions (POST JSON body, called with the signed-in user's access token):
+    { action: 'invite', email, full_name, role, redirect_to }
+      Creates the auth user and profile and emails an invite link to set a password.
+      Admins may invite any role; team leaders may only invite operators.
+    { action: 'deactivate', user_id }   - Admins only; blocks sign-in
+    { action: 'reactivate', user_id }   - Admins only
+    { action: 'reset', user_id, redirect_to }
+      Admins only; emails a link to set a new password
+
+  `redirect_to` must be listed in the project's allowed redirect URLs.
+
+  Environment:
+    SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY - provided by Supabase
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type Role = 'admin' | 'team_leader' | 'operator';
+
+type ManageUserRequest =
+  | { action: 'invite'; email: string; full_name: string; role: Role; redirect_to?: string }
+  | { action: 'deactivate' | 'reactivate'; user_id: string }
+  | { action: 'reset'; user_id: string; redirect_to?: string };
+
+const ROLES: Role[] = ['admin', 'team_leader', 'operator'];
+
+// Long enough to be permanent; cleared again on reactivation
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+class RequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const getCaller = async (req: Request) => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) throw new RequestError('Not authenticated', 401);
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) throw new RequestError('Not authenticated', 401);
+
+  const { data: profile, error } = await admin
+    .from('profiles')
+    .select('id, role, is_active')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!profile || !profile.is_active) throw new RequestError('Not authenticated', 401);
+  return profile as { id: string; role: Role };
+};
+
+const getTarget = async (userId: string) => {
+  const { data: profile, error } = await admin
+    .from('profiles')
+    .select('id, email')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!profile) throw new RequestError('User not found', 404);
+  return profile as { id: string; email: string };
+};
+
+const inviteUser = async (
+  caller: { id: string; role: Role },
+  request: Extract<ManageUserRequest, { action: 'invite' }>
+) => {
+  const email = request.email?.trim().toLowerCase();
+  const fullName = request.full_name?.trim();
+
+  if (!email || !fullName) throw new RequestError('Email and full name are required', 400);
+  if (!ROLES.includes(request.role)) throw new RequestError('Invalid role', 400);
+  if (caller.role !== 'admin' && request.role !== 'operator') {
+    throw new RequestError('Team leaders can only add operators', 403);
+  }
+
+  const { data, error } = await admin.auth.admin.inviteUserByEmail(email, {
+    data: { full_name: fullName },
+    redirectTo: request.redirect_to,
+  });
+  if (error) throw new RequestError(error.message, error.status ?? 400);
+
+  const { error: profileError } = await admin.from('profiles').insert({
+    id: data.user.id,
+    email,
+    full_name: fullName,
+    role: request.role,
+  });
+
+  // Without a profile the account is unusable, so the auth user is removed again
+  if (profileError) {
+    await admin.auth.admin.deleteUser(data.user.id);
+    throw profileError;
+  }
+
+  return { user_id: data.user.id };
+};
+
+const setActive = async (caller: { id: string }, userId: string, isActive: boolean) => {
+  if (!isActive && userId === caller.id) throw new RequestError('You cannot deactivate yourself', 400);
+  await getTarget(userId);
+
+  const { error } = await admin.auth.admin.updateUserById(userId, {
+    ban_duration: isActive ? 'none' : DEACTIVATED_BAN_DURATION,
+  });
+  if (error) throw new RequestError(error.message, error.status ?? 400);
+
+  const { error: profileError } = await admin
+    .from('profiles')
+    .update({ is_active: isActive, deactivated_at: isActive ? null : new Date().toISOString() })
+    .eq('id', userId);
+
+  if (profileError) throw profileError;
+  return { user_id: userId };
+};
+
+const resetUser = async (userId: string, redirectTo?: string) => {
+  const target = await getTarget(userId);
+
+  const { error } = await admin.auth.resetPasswordForEmail(target.email, { redirectTo });
+  if (error) throw new RequestError(error.message, error.status ?? 400);
+
+  return { user_id: userId };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const caller = await getCaller(req);
+    const request = (await req.json()) as ManageUserRequest;
+
+    if (caller.role !== 'admin' && !(caller.role === 'team_leader' && request.action === 'invite')) {
+      throw new RequestError('Only admins can manage users', 403);
+    }
+
+    switch (request.action) {
+      case 'invite':
+        return json(await inviteUser(caller, request));
+      case 'deactivate':
+        return json(await setActive(caller, request.user_id, false));
+      case 'reactivate':
+        return json(await setActive(caller, request.user_id, true));
+      case 'reset':
+        return json(await resetUser(request.user_id, request.redirect_to));
+      default:
+        throw new RequestError('Unknown action', 400);
+    }
+  } catch (error) {
+    if (error instanceof RequestError) return json({ error: error.message }, error.status);
+    console.error('manage-users failed:', error);
+    return json({ error: (error as { message?: string })?.message ?? 'Internal error' }, 500);
+  }
+});
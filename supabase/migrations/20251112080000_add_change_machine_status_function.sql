@@ -0,0 +1,133 @@
+/*
+  # Atomic Machine Status Changes
+
+  ## Overview
+  Status changes used to be written from the browser as two separate calls: an UPDATE on
+  `machines` followed by an INSERT into `status_history`. A dropped connection or an RLS
+  rejection between the two left the board and the audit log out of sync. This migration
+  moves the whole change into a single database function.
+
+  ## New Functions
+
+  ### 1. `user_can_update_machine(p_machine_id uuid)`
+  Returns true when the current user may change the machine's status. Mirrors the
+  "Users can update machines based on role" policy on `machines`:
+  - Admins can update every machine
+  - Team leaders can update machines in their departments
+  - Operators can update machines they are assigned to
+
+  ### 2. `change_machine_status(p_machine_id uuid, p_new_status text, p_comment text)`
+  Performs a status change in one transaction:
+  - Locks the machine row (`SELECT ... FOR UPDATE`) so concurrent changes are serialized
+  - Validates the new status against active `status_types`
+  - Derives `previous_status` from the locked row instead of trusting the client
+  - Updates `machines` and inserts into `status_history`
+  - Stamps `last_updated_at` / `changed_at` with the server clock
+  - Returns the inserted `status_history` row
+
+  ## Security
+  - Both functions are SECURITY DEFINER and check permissions explicitly
+  - EXECUTE is granted to authenticated users only
+  - The direct INSERT policy on `status_history` is dropped, so the function is the only
+    write path for the audit log
+
+  ## Important Notes
+  1. Error codes: 28000 (not signed in), 42501 (not allowed), P0002 (unknown machine),
+     22023 (unknown or inactive status / nothing to record)
+  2. Re-submitting the current status is only accepted with a comment, matching the
+     existing UI rule
+*/
+
+CREATE OR REPLACE FUNCTION user_can_update_machine(p_machine_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  )
+  OR EXISTS (
+    SELECT 1 FROM machines
+    JOIN department_leaders ON department_leaders.department_id = machines.department_id
+    WHERE machines.id = p_machine_id
+    AND department_leaders.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM machine_operators
+    WHERE machine_operators.machine_id = p_machine_id
+    AND machine_operators.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION change_machine_status(
+  p_machine_id uuid,
+  p_new_status text,
+  p_comment text DEFAULT ''
+)
+RETURNS status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_previous_status text;
+  v_comment text := coalesce(trim(p_comment), '');
+  v_entry status_history;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to update machine status'
+      USING ERRCODE = '28000';
+  END IF;
+
+  SELECT current_status INTO v_previous_status
+  FROM machines
+  WHERE id = p_machine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT user_can_update_machine(p_machine_id) THEN
+    RAISE EXCEPTION 'You are not allowed to update this machine'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM status_types
+    WHERE name = p_new_status AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Unknown or inactive status: %', p_new_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_new_status = v_previous_status AND v_comment = '' THEN
+    RAISE EXCEPTION 'Please either change the status or add a comment'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE machines
+  SET current_status = p_new_status,
+      last_updated_at = now(),
+      last_updated_by = v_user_id
+  WHERE id = p_machine_id;
+
+  INSERT INTO status_history (machine_id, status, previous_status, comment, changed_by, changed_at)
+  VALUES (p_machine_id, p_new_status, v_previous_status, v_comment, v_user_id, now())
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION user_can_update_machine(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION change_machine_status(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION user_can_update_machine(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION change_machine_status(uuid, text, text) TO authenticated;
+
+-- History rows are only written through change_machine_status
+DROP POLICY IF EXISTS "Admins and operators can insert status history" ON status_history;
@@ -0,0 +1,107 @@
+/*
+  # Offline Status Changes
+
+  ## Overview
+  Shop-floor tablets queue status changes locally while the Wi-Fi is down and replay them
+  once the connection returns. To keep the audit log truthful, a replayed change has to
+  carry the time it was actually made, and the server has to notice when someone else
+  changed the same machine in the meantime.
+
+  ## Changed Functions
+
+  ### 1. `change_machine_status`
+  Replaced with a version taking two optional arguments:
+  - `p_changed_at` (timestamptz) - When the change was made on the device. Defaults to the
+    server clock. Values in the future are clamped to now(), and values older than the
+    machine's `last_updated_at` are rejected so history stays in order.
+  - `p_expected_updated_at` (timestamptz) - The machine's `last_updated_at` as seen by the
+    device when the change was made. If the machine has been updated since, the call fails
+    with a conflict instead of overwriting the newer status.
+
+  ## Important Notes
+  1. Conflicts are raised with SQLSTATE PT409, which PostgREST returns as HTTP 409
+  2. Online callers that omit the new arguments behave exactly as before
+*/
+
+DROP FUNCTION IF EXISTS change_machine_status(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION change_machine_status(
+  p_machine_id uuid,
+  p_new_status text,
+  p_comment text DEFAULT '',
+  p_changed_at timestamptz DEFAULT NULL,
+  p_expected_updated_at timestamptz DEFAULT NULL
+)
+RETURNS status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_previous_status text;
+  v_last_updated_at timestamptz;
+  v_changed_at timestamptz := least(coalesce(p_changed_at, now()), now());
+  v_comment text := coalesce(trim(p_comment), '');
+  v_entry status_history;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to update machine status'
+      USING ERRCODE = '28000';
+  END IF;
+
+  SELECT current_status, last_updated_at INTO v_previous_status, v_last_updated_at
+  FROM machines
+  WHERE id = p_machine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT user_can_update_machine(p_machine_id) THEN
+    RAISE EXCEPTION 'You are not allowed to update this machine'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_expected_updated_at IS NOT NULL
+     AND v_last_updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'Machine was changed to "%" in the meantime', v_previous_status
+      USING ERRCODE = 'PT409', DETAIL = v_previous_status;
+  END IF;
+
+  IF v_last_updated_at IS NOT NULL AND v_changed_at < v_last_updated_at THEN
+    RAISE EXCEPTION 'A newer status change already exists for this machine'
+      USING ERRCODE = 'PT409', DETAIL = v_previous_status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM status_types
+    WHERE name = p_new_status AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Unknown or inactive status: %', p_new_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_new_status = v_previous_status AND v_comment = '' THEN
+    RAISE EXCEPTION 'Please either change the status or add a comment'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE machines
+  SET current_status = p_new_status,
+      last_updated_at = v_changed_at,
+      last_updated_by = v_user_id
+  WHERE id = p_machine_id;
+
+  INSERT INTO status_history (machine_id, status, previous_status, comment, changed_by, changed_at)
+  VALUES (p_machine_id, p_new_status, v_previous_status, v_comment, v_user_id, v_changed_at)
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION change_machine_status(uuid, text, text, timestamptz, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION change_machine_status(uuid, text, text, timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,314 @@
+/*
+  # Reason Codes for Status Changes
+
+  ## Overview
+  A status change only carried a free-text comment, which makes a downtime Pareto
+  impossible. This migration adds a configurable reason catalogue tied to status types,
+  with one level of sub-reasons (e.g. Fault -> Electrical -> Sensor).
+
+  ## New Tables
+
+  ### 1. `status_reasons`
+  - `id` (uuid, primary key) - Unique reason identifier
+  - `status_type_id` (uuid, foreign key) - Status type the reason belongs to
+  - `parent_id` (uuid, nullable) - Parent reason for sub-reasons, NULL for top-level reasons
+  - `name` (text) - Reason name (e.g., "Electrical", "Hydraulic", "Tooling")
+  - `is_active` (boolean) - Whether the reason can still be selected
+  - `display_order` (integer) - Order for displaying in UI
+  - `created_at` (timestamptz) - Creation timestamp
+  - `created_by` (uuid) - Admin who created the reason
+
+  ## Changes to Existing Tables
+
+  ### 1. `status_types` table
+  - Add `requires_reason` flag; status changes into such a status must select a reason
+
+  ### 2. `status_history` table
+  - Add `reason_id` and `sub_reason_id` referencing `status_reasons`
+
+  ## Changed Functions
+
+  ### 1. `change_machine_status`
+  Takes `p_reason_id` and `p_sub_reason_id` and validates them:
+  - A reason is required when the target status has `requires_reason`
+  - The reason must be an active top-level reason of the target status
+  - A sub-reason is required when the reason has active sub-reasons, and must belong to it
+
+  ## Security (Row Level Security)
+
+  ### status_reasons table
+  - Everyone (including anonymous viewers) can view reasons
+  - Only admins can insert, update, or delete reasons
+
+  ## Important Notes
+  1. Reasons referenced by history cannot be deleted, only deactivated
+  2. Fault is flagged as requiring a reason and seeded with a starter catalogue
+*/
+
+-- Add requires_reason to status_types
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_types' AND column_name = 'requires_reason'
+  ) THEN
+    ALTER TABLE status_types ADD COLUMN requires_reason boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Create status_reasons table
+CREATE TABLE IF NOT EXISTS status_reasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  status_type_id uuid NOT NULL REFERENCES status_types(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES status_reasons(id),
+  name text NOT NULL,
+  is_active boolean DEFAULT true,
+  display_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_status_reasons_unique_name
+  ON status_reasons(status_type_id, coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), name);
+CREATE INDEX IF NOT EXISTS idx_status_reasons_status_type ON status_reasons(status_type_id, display_order);
+CREATE INDEX IF NOT EXISTS idx_status_reasons_parent ON status_reasons(parent_id);
+
+ALTER TABLE status_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view status reasons"
+  ON status_reasons FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view status reasons"
+  ON status_reasons FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Admins can insert status reasons"
+  ON status_reasons FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update status reasons"
+  ON status_reasons FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete status reasons"
+  ON status_reasons FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Add reason columns to status_history
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_history' AND column_name = 'reason_id'
+  ) THEN
+    ALTER TABLE status_history ADD COLUMN reason_id uuid REFERENCES status_reasons(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_history' AND column_name = 'sub_reason_id'
+  ) THEN
+    ALTER TABLE status_history ADD COLUMN sub_reason_id uuid REFERENCES status_reasons(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_status_history_reason ON status_history(reason_id);
+
+-- Replace change_machine_status with a reason-aware version
+DROP FUNCTION IF EXISTS change_machine_status(uuid, text, text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION change_machine_status(
+  p_machine_id uuid,
+  p_new_status text,
+  p_comment text DEFAULT '',
+  p_changed_at timestamptz DEFAULT NULL,
+  p_expected_updated_at timestamptz DEFAULT NULL,
+  p_reason_id uuid DEFAULT NULL,
+  p_sub_reason_id uuid DEFAULT NULL
+)
+RETURNS status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_previous_status text;
+  v_last_updated_at timestamptz;
+  v_changed_at timestamptz := least(coalesce(p_changed_at, now()), now());
+  v_comment text := coalesce(trim(p_comment), '');
+  v_status_type status_types;
+  v_entry status_history;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to update machine status'
+      USING ERRCODE = '28000';
+  END IF;
+
+  SELECT current_status, last_updated_at INTO v_previous_status, v_last_updated_at
+  FROM machines
+  WHERE id = p_machine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT user_can_update_machine(p_machine_id) THEN
+    RAISE EXCEPTION 'You are not allowed to update this machine'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_expected_updated_at IS NOT NULL
+     AND v_last_updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'Machine was changed to "%" in the meantime', v_previous_status
+      USING ERRCODE = 'PT409', DETAIL = v_previous_status;
+  END IF;
+
+  IF v_last_updated_at IS NOT NULL AND v_changed_at < v_last_updated_at THEN
+    RAISE EXCEPTION 'A newer status change already exists for this machine'
+      USING ERRCODE = 'PT409', DETAIL = v_previous_status;
+  END IF;
+
+  SELECT * INTO v_status_type
+  FROM status_types
+  WHERE name = p_new_status AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown or inactive status: %', p_new_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_new_status = v_previous_status AND v_comment = '' THEN
+    RAISE EXCEPTION 'Please either change the status or add a comment'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_reason_id IS NULL THEN
+    IF v_status_type.requires_reason AND p_new_status IS DISTINCT FROM v_previous_status THEN
+      RAISE EXCEPTION 'A reason is required for status "%"', p_new_status
+        USING ERRCODE = '22023';
+    END IF;
+    IF p_sub_reason_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A sub-reason needs a reason'
+        USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    IF NOT EXISTS (
+      SELECT 1 FROM status_reasons
+      WHERE id = p_reason_id
+      AND status_type_id = v_status_type.id
+      AND parent_id IS NULL
+      AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'Invalid reason for status "%"', p_new_status
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF p_sub_reason_id IS NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM status_reasons
+        WHERE parent_id = p_reason_id AND is_active = true
+      ) THEN
+        RAISE EXCEPTION 'A sub-reason is required for this reason'
+          USING ERRCODE = '22023';
+      END IF;
+    ELSIF NOT EXISTS (
+      SELECT 1 FROM status_reasons
+      WHERE id = p_sub_reason_id
+      AND parent_id = p_reason_id
+      AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'Invalid sub-reason for this reason'
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  UPDATE machines
+  SET current_status = p_new_status,
+      last_updated_at = v_changed_at,
+      last_updated_by = v_user_id
+  WHERE id = p_machine_id;
+
+  INSERT INTO status_history (
+    machine_id, status, previous_status, comment, changed_by, changed_at, reason_id, sub_reason_id
+  )
+  VALUES (
+    p_machine_id, p_new_status, v_previous_status, v_comment, v_user_id, v_changed_at,
+    p_reason_id, p_sub_reason_id
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION change_machine_status(uuid, text, text, timestamptz, timestamptz, uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION change_machine_status(uuid, text, text, timestamptz, timestamptz, uuid, uuid) TO authenticated;
+
+-- Fault requires a reason by default
+UPDATE status_types SET requires_reason = true WHERE name = 'Fault';
+
+-- Insert starter reason catalogue for Fault
+DO $$
+DECLARE
+  fault_id uuid;
+  reason_id uuid;
+BEGIN
+  SELECT id INTO fault_id FROM status_types WHERE name = 'Fault' LIMIT 1;
+
+  IF fault_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM status_reasons WHERE status_type_id = fault_id
+  ) THEN
+    INSERT INTO status_reasons (status_type_id, name, display_order)
+    VALUES (fault_id, 'Electrical', 1) RETURNING id INTO reason_id;
+    INSERT INTO status_reasons (status_type_id, parent_id, name, display_order) VALUES
+      (fault_id, reason_id, 'Motor', 1),
+      (fault_id, reason_id, 'Sensor', 2),
+      (fault_id, reason_id, 'Wiring', 3);
+
+    INSERT INTO status_reasons (status_type_id, name, display_order)
+    VALUES (fault_id, 'Hydraulic', 2) RETURNING id INTO reason_id;
+    INSERT INTO status_reasons (status_type_id, parent_id, name, display_order) VALUES
+      (fault_id, reason_id, 'Leak', 1),
+      (fault_id, reason_id, 'Pressure Loss', 2);
+
+    INSERT INTO status_reasons (status_type_id, name, display_order)
+    VALUES (fault_id, 'Tooling', 3) RETURNING id INTO reason_id;
+    INSERT INTO status_reasons (status_type_id, parent_id, name, display_order) VALUES
+      (fault_id, reason_id, 'Broken Tool', 1),
+      (fault_id, reason_id, 'Tool Wear', 2);
+  END IF;
+END $$;
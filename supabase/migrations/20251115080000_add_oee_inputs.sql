@@ -0,0 +1,130 @@
+/*
+  # OEE Inputs
+
+  ## Overview
+  Reports only showed time per status. This migration adds what is needed to compute
+  Overall Equipment Effectiveness (availability x performance x quality):
+  - a classification of status types into productive / planned downtime / unplanned downtime
+  - an ideal cycle time per machine
+  - produced and scrap counts entered by operators
+
+  ## Changes to Existing Tables
+
+  ### 1. `status_types` table
+  - Add `oee_category` (text) - 'productive', 'planned_downtime' or 'unplanned_downtime'.
+    Planned downtime is excluded from planned production time; unplanned downtime counts
+    against availability.
+
+  ### 2. `machines` table
+  - Add `ideal_cycle_time_seconds` (numeric, nullable) - Ideal time to produce one part.
+    Performance cannot be computed for machines without it.
+
+  ## New Tables
+
+  ### 1. `production_counts`
+  Counts entered by operators. Each row covers the parts made since the previous entry.
+  - `id` (uuid, primary key) - Unique record identifier
+  - `machine_id` (uuid, foreign key) - References machines
+  - `recorded_at` (timestamptz) - When the counts were taken
+  - `produced_count` (integer) - Total parts produced, including scrap
+  - `scrap_count` (integer) - Parts rejected, at most `produced_count`
+  - `comment` (text) - Optional note
+  - `recorded_by` (uuid) - User who entered the counts
+
+  ## Security (Row Level Security)
+
+  ### production_counts table
+  - Everyone (including anonymous viewers) can view counts
+  - Users who may update a machine's status may record counts for it
+  - Only admins can correct or delete counts
+*/
+
+-- Add oee_category to status_types
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_types' AND column_name = 'oee_category'
+  ) THEN
+    ALTER TABLE status_types ADD COLUMN oee_category text NOT NULL DEFAULT 'unplanned_downtime'
+      CHECK (oee_category IN ('productive', 'planned_downtime', 'unplanned_downtime'));
+  END IF;
+END $$;
+
+UPDATE status_types SET oee_category = 'productive' WHERE name = 'Running';
+UPDATE status_types SET oee_category = 'planned_downtime' WHERE name = 'Under Maintenance';
+
+-- Add ideal_cycle_time_seconds to machines
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'machines' AND column_name = 'ideal_cycle_time_seconds'
+  ) THEN
+    ALTER TABLE machines ADD COLUMN ideal_cycle_time_seconds numeric
+      CHECK (ideal_cycle_time_seconds IS NULL OR ideal_cycle_time_seconds > 0);
+  END IF;
+END $$;
+
+-- Create production_counts table
+CREATE TABLE IF NOT EXISTS production_counts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id uuid NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  produced_count integer NOT NULL CHECK (produced_count >= 0),
+  scrap_count integer NOT NULL DEFAULT 0 CHECK (scrap_count >= 0),
+  comment text DEFAULT '',
+  recorded_by uuid NOT NULL REFERENCES profiles(id),
+  CHECK (scrap_count <= produced_count)
+);
+
+ALTER TABLE production_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view production counts"
+  ON production_counts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view production counts"
+  ON production_counts FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Machine users can record production counts"
+  ON production_counts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = recorded_by
+    AND user_can_update_machine(machine_id)
+  );
+
+CREATE POLICY "Admins can update production counts"
+  ON production_counts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete production counts"
+  ON production_counts FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_production_counts_machine ON production_counts(machine_id, recorded_at DESC);
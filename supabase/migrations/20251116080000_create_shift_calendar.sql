@@ -0,0 +1,156 @@
+/*
+  # Shift Calendar
+
+  ## Overview
+  Reports are run per shift, and availability should only count the hours a department
+  is scheduled to work. This migration adds named shifts with weekly patterns and a
+  holiday calendar, both either plant-wide or per department.
+
+  ## New Tables
+
+  ### 1. `shifts`
+  - `id` (uuid, primary key) - Unique shift identifier
+  - `department_id` (uuid, nullable) - Department the shift applies to, NULL for all departments
+  - `name` (text) - Shift name (e.g., "Morning", "Night")
+  - `start_time` (time) - Local start time
+  - `end_time` (time) - Local end time; a shift ending at or before its start runs past midnight
+  - `days_of_week` (smallint[]) - Days the shift starts on, ISO numbering (1 = Monday ... 7 = Sunday)
+  - `is_active` (boolean) - Whether the shift is currently scheduled
+  - `display_order` (integer) - Order for displaying in UI
+  - `created_at` (timestamptz) - Creation timestamp
+  - `created_by` (uuid) - Admin who created the shift
+
+  ### 2. `holidays`
+  - `id` (uuid, primary key) - Unique holiday identifier
+  - `department_id` (uuid, nullable) - Department the holiday applies to, NULL for all departments
+  - `holiday_date` (date) - Day on which no shifts start
+  - `name` (text) - Holiday name
+  - `created_at` (timestamptz) - Creation timestamp
+  - `created_by` (uuid) - Admin who created the holiday
+
+  ## Security (Row Level Security)
+  - Everyone (including anonymous viewers) can view shifts and holidays
+  - Only admins can insert, update, or delete them
+
+  ## Important Notes
+  1. Departments without shifts of their own follow the plant-wide shifts; with no shifts
+     at all every hour counts as scheduled, so reports are unchanged until shifts are set up
+*/
+
+-- Create shifts table
+CREATE TABLE IF NOT EXISTS shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES departments(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  days_of_week smallint[] NOT NULL DEFAULT '{1,2,3,4,5}'
+    CHECK (days_of_week <@ '{1,2,3,4,5,6,7}'::smallint[]),
+  is_active boolean DEFAULT true,
+  display_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shifts_department ON shifts(department_id, display_order);
+
+-- Create holidays table
+CREATE TABLE IF NOT EXISTS holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES departments(id) ON DELETE CASCADE,
+  holiday_date date NOT NULL,
+  name text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holidays_unique_date
+  ON holidays(coalesce(department_id, '00000000-0000-0000-0000-000000000000'::uuid), holiday_date);
+
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+-- Shifts policies
+CREATE POLICY "All users can view shifts"
+  ON shifts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view shifts"
+  ON shifts FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Admins can insert shifts"
+  ON shifts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update shifts"
+  ON shifts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete shifts"
+  ON shifts FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Holidays policies
+CREATE POLICY "All users can view holidays"
+  ON holidays FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view holidays"
+  ON holidays FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Admins can insert holidays"
+  ON holidays FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete holidays"
+  ON holidays FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
@@ -0,0 +1,122 @@
+/*
+  # Server-side Status Duration Aggregation
+
+  ## Overview
+  Reports used to load the complete history of every machine, one query per machine, and
+  walk it in the browser. These functions compute status segments and durations for a set
+  of machines and a time window in the database, reading only the history that matters.
+
+  ## New Functions
+
+  ### 1. `machine_status_segments(p_machine_ids uuid[], p_start timestamptz, p_end timestamptz)`
+  Returns one row per continuous status period inside the window:
+  - `machine_id`, `status`, `reason_id`, `sub_reason_id` of the status change that started it
+  - `started_at`, `ended_at` clipped to the window
+  The window is clipped to the machine's creation time and to now. The status in effect at
+  the window start is taken from the last change before it, so the straddling segment is
+  included from the window start.
+
+  ### 2. `machine_status_durations(p_machine_ids uuid[], p_start timestamptz, p_end timestamptz)`
+  Sums the segments per machine and status:
+  - `machine_id`, `status`, `duration_seconds`, `segment_count`
+
+  ## Security
+  Both functions run with the caller's rights, so the usual RLS policies on `machines` and
+  `status_history` apply.
+*/
+
+CREATE OR REPLACE FUNCTION machine_status_segments(
+  p_machine_ids uuid[],
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE (
+  machine_id uuid,
+  status text,
+  reason_id uuid,
+  sub_reason_id uuid,
+  started_at timestamptz,
+  ended_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      m.id AS machine_id,
+      greatest(p_start, m.created_at) AS window_start,
+      least(p_end, now()) AS window_end
+    FROM machines m
+    WHERE m.id = ANY(p_machine_ids)
+  ),
+  changes AS (
+    SELECT b.machine_id, b.window_start, b.window_end, c.status, c.reason_id, c.sub_reason_id, c.changed_at
+    FROM bounds b
+    CROSS JOIN LATERAL (
+      -- The change in effect when the window starts
+      (
+        SELECT h.status, h.reason_id, h.sub_reason_id, h.changed_at
+        FROM status_history h
+        WHERE h.machine_id = b.machine_id
+        AND h.changed_at <= b.window_start
+        ORDER BY h.changed_at DESC
+        LIMIT 1
+      )
+      UNION ALL
+      -- Changes inside the window
+      (
+        SELECT h.status, h.reason_id, h.sub_reason_id, h.changed_at
+        FROM status_history h
+        WHERE h.machine_id = b.machine_id
+        AND h.changed_at > b.window_start
+        AND h.changed_at < b.window_end
+      )
+    ) c
+  ),
+  segments AS (
+    SELECT
+      c.machine_id,
+      c.status,
+      c.reason_id,
+      c.sub_reason_id,
+      greatest(c.changed_at, c.window_start) AS started_at,
+      coalesce(
+        lead(c.changed_at) OVER (PARTITION BY c.machine_id ORDER BY c.changed_at),
+        c.window_end
+      ) AS ended_at
+    FROM changes c
+  )
+  SELECT s.machine_id, s.status, s.reason_id, s.sub_reason_id, s.started_at, s.ended_at
+  FROM segments s
+  WHERE s.ended_at > s.started_at
+  ORDER BY s.machine_id, s.started_at;
+$$;
+
+CREATE OR REPLACE FUNCTION machine_status_durations(
+  p_machine_ids uuid[],
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE (
+  machine_id uuid,
+  status text,
+  duration_seconds double precision,
+  segment_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.machine_id,
+    s.status,
+    sum(extract(epoch FROM s.ended_at - s.started_at))::double precision,
+    count(*)
+  FROM machine_status_segments(p_machine_ids, p_start, p_end) s
+  GROUP BY s.machine_id, s.status
+  ORDER BY s.machine_id, s.status;
+$$;
+
+GRANT EXECUTE ON FUNCTION machine_status_segments(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION machine_status_durations(uuid[], timestamptz, timestamptz) TO anon, authenticated;
@@ -0,0 +1,254 @@
+/*
+  # Maintenance Work Orders
+
+  ## Overview
+  A machine going to "Fault" or "Under Maintenance" only records the status change; the
+  repair itself is not tracked anywhere. This migration adds work orders that are opened
+  automatically when a machine enters a maintenance-class status, can be assigned to a
+  technician, move through open / in progress / waiting parts / done, and collect notes
+  and labor time.
+
+  ## New Tables
+
+  ### 1. `work_orders`
+  - `id` (uuid, primary key) - Unique work order identifier
+  - `machine_id` (uuid, foreign key) - Machine being repaired
+  - `status_history_id` (uuid, foreign key) - Status change that opened the order
+  - `fault_status` (text) - Maintenance-class status the machine entered
+  - `return_status` (text, nullable) - Status the machine had before, suggested on close
+  - `description` (text) - Initial description, taken from the status change comment
+  - `state` (text) - 'open', 'in_progress', 'waiting_parts' or 'done'
+  - `assigned_to` (uuid, nullable) - Technician working on the order
+  - `opened_at` (timestamptz) - When the machine entered the maintenance status
+  - `started_at` (timestamptz, nullable) - First time the order went in progress
+  - `closed_at` (timestamptz, nullable) - When the order was marked done
+  - `closed_by` (uuid, nullable) - Who marked the order done
+  - `updated_at` (timestamptz) - Last update
+
+  ### 2. `work_order_entries`
+  - `id` (uuid, primary key) - Unique entry identifier
+  - `work_order_id` (uuid, foreign key) - Work order the entry belongs to
+  - `author_id` (uuid, foreign key) - User who wrote the entry
+  - `note` (text) - Work performed, parts ordered, findings
+  - `labor_minutes` (integer) - Labor time booked with the entry
+  - `created_at` (timestamptz) - Entry timestamp
+
+  ## Changes to Existing Tables
+
+  ### 1. `status_types` table
+  - Add `is_maintenance` flag; entering such a status opens a work order
+
+  ## New Triggers
+  - `status_history` AFTER INSERT opens a work order when a machine moves from a regular
+    status into a maintenance-class status and has no unfinished order
+  - `work_orders` BEFORE UPDATE maintains `started_at`, `closed_at`, `closed_by` and
+    `updated_at`
+
+  ## Security (Row Level Security)
+
+  ### work_orders table
+  - Authenticated users can view work orders
+  - Users who can update the machine, and the assigned technician, can update an order
+  - Only admins can delete work orders
+  - Orders are only created by the trigger
+
+  ### work_order_entries table
+  - Authenticated users can view entries
+  - Users who can update the order can add entries under their own name
+  - Only admins can delete entries
+
+  ## Important Notes
+  1. Moving between maintenance-class statuses (e.g. Fault -> Under Maintenance) keeps
+     the existing order instead of opening a new one
+  2. Fault and Under Maintenance are flagged as maintenance-class by default
+*/
+
+-- Add is_maintenance to status_types
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_types' AND column_name = 'is_maintenance'
+  ) THEN
+    ALTER TABLE status_types ADD COLUMN is_maintenance boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+UPDATE status_types SET is_maintenance = true WHERE name IN ('Fault', 'Under Maintenance');
+
+-- Create work_orders table
+CREATE TABLE IF NOT EXISTS work_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id uuid NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  status_history_id uuid REFERENCES status_history(id) ON DELETE SET NULL,
+  fault_status text NOT NULL,
+  return_status text,
+  description text NOT NULL DEFAULT '',
+  state text NOT NULL DEFAULT 'open'
+    CHECK (state IN ('open', 'in_progress', 'waiting_parts', 'done')),
+  assigned_to uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  closed_at timestamptz,
+  closed_by uuid REFERENCES profiles(id),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_machine ON work_orders(machine_id, opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_work_orders_state ON work_orders(state);
+CREATE INDEX IF NOT EXISTS idx_work_orders_assigned_to ON work_orders(assigned_to);
+
+-- At most one unfinished order per machine
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_orders_one_open_per_machine
+  ON work_orders(machine_id) WHERE state <> 'done';
+
+-- Create work_order_entries table
+CREATE TABLE IF NOT EXISTS work_order_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_order_id uuid NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES profiles(id),
+  note text NOT NULL DEFAULT '',
+  labor_minutes integer NOT NULL DEFAULT 0 CHECK (labor_minutes >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (note <> '' OR labor_minutes > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_entries_order ON work_order_entries(work_order_id, created_at);
+
+-- Whether the current user may work on the order
+CREATE OR REPLACE FUNCTION user_can_update_work_order(p_work_order_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM work_orders
+    WHERE work_orders.id = p_work_order_id
+    AND (work_orders.assigned_to = auth.uid() OR user_can_update_machine(work_orders.machine_id))
+  );
+$$;
+
+REVOKE ALL ON FUNCTION user_can_update_work_order(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION user_can_update_work_order(uuid) TO authenticated;
+
+-- Open a work order when a machine enters a maintenance-class status
+CREATE OR REPLACE FUNCTION open_work_order_for_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM status_types WHERE name = NEW.status AND is_maintenance = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM status_types WHERE name = NEW.previous_status AND is_maintenance = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO work_orders (
+    machine_id, status_history_id, fault_status, return_status, description, opened_at
+  )
+  VALUES (
+    NEW.machine_id, NEW.id, NEW.status, NEW.previous_status, coalesce(NEW.comment, ''), NEW.changed_at
+  )
+  ON CONFLICT (machine_id) WHERE state <> 'done' DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS open_work_order_on_status_change ON status_history;
+CREATE TRIGGER open_work_order_on_status_change
+  AFTER INSERT ON status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION open_work_order_for_status_change();
+
+-- Keep state timestamps in line with the state
+CREATE OR REPLACE FUNCTION set_work_order_timestamps()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.state = 'in_progress' AND NEW.started_at IS NULL THEN
+    NEW.started_at := now();
+  END IF;
+
+  IF NEW.state = 'done' AND OLD.state <> 'done' THEN
+    NEW.closed_at := now();
+    NEW.closed_by := auth.uid();
+  ELSIF NEW.state <> 'done' THEN
+    NEW.closed_at := NULL;
+    NEW.closed_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_work_order_timestamps ON work_orders;
+CREATE TRIGGER set_work_order_timestamps
+  BEFORE UPDATE ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_work_order_timestamps();
+
+ALTER TABLE work_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_order_entries ENABLE ROW LEVEL SECURITY;
+
+-- work_orders policies
+CREATE POLICY "All users can view work orders"
+  ON work_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Machine editors and assignees can update work orders"
+  ON work_orders FOR UPDATE
+  TO authenticated
+  USING (assigned_to = auth.uid() OR user_can_update_machine(machine_id))
+  WITH CHECK (assigned_to = auth.uid() OR user_can_update_machine(machine_id));
+
+CREATE POLICY "Admins can delete work orders"
+  ON work_orders FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- work_order_entries policies
+CREATE POLICY "All users can view work order entries"
+  ON work_order_entries FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Work order editors can add entries"
+  ON work_order_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = author_id
+    AND user_can_update_work_order(work_order_id)
+  );
+
+CREATE POLICY "Admins can delete work order entries"
+  ON work_order_entries FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
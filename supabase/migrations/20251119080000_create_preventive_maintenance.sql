@@ -0,0 +1,293 @@
+/*
+  # Preventive Maintenance Plans
+
+  ## Overview
+  Adds calendar-based (every N days) and runtime-based (every N running hours) preventive
+  maintenance plans per machine. Running hours are the time the machine spent in
+  productive statuses since the plan was last done, computed from `status_history`. When a
+  plan comes due a preventive work order is generated; closing that order restarts the
+  plan's interval.
+
+  ## New Tables
+
+  ### 1. `pm_plans`
+  - `id` (uuid, primary key) - Unique plan identifier
+  - `machine_id` (uuid, foreign key) - Machine the plan belongs to
+  - `name` (text) - Plan name (e.g., "Lubrication", "Filter change")
+  - `description` (text) - Instructions for the technician
+  - `trigger_type` (text) - 'calendar' or 'runtime'
+  - `interval_days` (integer, nullable) - Interval of calendar plans
+  - `interval_hours` (numeric, nullable) - Interval of runtime plans, in running hours
+  - `last_done_at` (timestamptz) - Start of the current interval
+  - `is_active` (boolean) - Inactive plans are not evaluated
+  - `created_at` (timestamptz) - Creation timestamp
+  - `created_by` (uuid) - User who created the plan
+
+  ## Changes to Existing Tables
+
+  ### 1. `work_orders` table
+  - Add `pm_plan_id`; preventive orders reference their plan
+  - `fault_status` becomes nullable, preventive orders are not opened by a status change
+  - The one-unfinished-order-per-machine rule only applies to corrective orders; a plan
+    has at most one unfinished order
+
+  ## New Functions
+
+  ### 1. `pm_plan_status()`
+  Returns one row per active plan with the running hours since `last_done_at`, the
+  calendar due date, the `progress` through the interval (1 = due) and the unfinished
+  work order of the plan, if any.
+
+  ### 2. `generate_due_pm_work_orders()`
+  Opens a preventive work order for every due plan that has none and returns the number
+  of orders created. Scheduled every 15 minutes when pg_cron is available; the app also
+  calls it when work orders or plans are viewed.
+
+  ## New Triggers
+  - `work_orders` AFTER UPDATE moves `last_done_at` of the plan to the close time when a
+    preventive order is marked done
+
+  ## Security (Row Level Security)
+
+  ### pm_plans table
+  - Everyone (including anonymous viewers) can view plans, so machine cards can show them
+  - Admins and leaders of the machine's department can insert, update, or delete plans
+*/
+
+-- Create pm_plans table
+CREATE TABLE IF NOT EXISTS pm_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id uuid NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  trigger_type text NOT NULL CHECK (trigger_type IN ('calendar', 'runtime')),
+  interval_days integer CHECK (interval_days > 0),
+  interval_hours numeric CHECK (interval_hours > 0),
+  last_done_at timestamptz NOT NULL DEFAULT now(),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  CHECK (
+    (trigger_type = 'calendar' AND interval_days IS NOT NULL)
+    OR (trigger_type = 'runtime' AND interval_hours IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_pm_plans_machine ON pm_plans(machine_id);
+
+-- Link work orders to plans
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'work_orders' AND column_name = 'pm_plan_id'
+  ) THEN
+    ALTER TABLE work_orders ADD COLUMN pm_plan_id uuid REFERENCES pm_plans(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE work_orders ALTER COLUMN fault_status DROP NOT NULL;
+
+DROP INDEX IF EXISTS idx_work_orders_one_open_per_machine;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_orders_one_open_per_machine
+  ON work_orders(machine_id) WHERE state <> 'done' AND pm_plan_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_orders_one_open_per_plan
+  ON work_orders(pm_plan_id) WHERE state <> 'done';
+
+-- The corrective order trigger must name the narrowed index predicate
+CREATE OR REPLACE FUNCTION open_work_order_for_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM status_types WHERE name = NEW.status AND is_maintenance = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM status_types WHERE name = NEW.previous_status AND is_maintenance = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO work_orders (
+    machine_id, status_history_id, fault_status, return_status, description, opened_at
+  )
+  VALUES (
+    NEW.machine_id, NEW.id, NEW.status, NEW.previous_status, coalesce(NEW.comment, ''), NEW.changed_at
+  )
+  ON CONFLICT (machine_id) WHERE state <> 'done' AND pm_plan_id IS NULL DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION pm_plan_status()
+RETURNS TABLE (
+  plan_id uuid,
+  machine_id uuid,
+  runtime_hours double precision,
+  due_at timestamptz,
+  progress double precision,
+  open_work_order_id uuid
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.machine_id,
+    coalesce(r.seconds, 0) / 3600,
+    CASE WHEN p.trigger_type = 'calendar' THEN p.last_done_at + make_interval(days => p.interval_days) END,
+    CASE
+      WHEN p.trigger_type = 'calendar'
+        THEN extract(epoch FROM now() - p.last_done_at) / (p.interval_days * 86400)
+      ELSE coalesce(r.seconds, 0) / 3600 / p.interval_hours
+    END::double precision,
+    w.id
+  FROM pm_plans p
+  LEFT JOIN LATERAL (
+    SELECT sum(d.duration_seconds) AS seconds
+    FROM machine_status_durations(ARRAY[p.machine_id], p.last_done_at, now()) d
+    JOIN status_types st ON st.name = d.status
+    WHERE st.oee_category = 'productive'
+  ) r ON p.trigger_type = 'runtime'
+  LEFT JOIN work_orders w ON w.pm_plan_id = p.id AND w.state <> 'done'
+  WHERE p.is_active = true;
+$$;
+
+CREATE OR REPLACE FUNCTION generate_due_pm_work_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created integer;
+BEGIN
+  INSERT INTO work_orders (machine_id, pm_plan_id, description, opened_at)
+  SELECT s.machine_id, s.plan_id, p.name, now()
+  FROM pm_plan_status() s
+  JOIN pm_plans p ON p.id = s.plan_id
+  WHERE s.progress >= 1
+  AND s.open_work_order_id IS NULL
+  ON CONFLICT (pm_plan_id) WHERE state <> 'done' DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+-- Closing a preventive order starts the plan's next interval
+CREATE OR REPLACE FUNCTION complete_pm_plan()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pm_plan_id IS NOT NULL AND NEW.state = 'done' AND OLD.state <> 'done' THEN
+    UPDATE pm_plans SET last_done_at = NEW.closed_at WHERE id = NEW.pm_plan_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS complete_pm_plan ON work_orders;
+CREATE TRIGGER complete_pm_plan
+  AFTER UPDATE ON work_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION complete_pm_plan();
+
+GRANT EXECUTE ON FUNCTION pm_plan_status() TO anon, authenticated;
+REVOKE ALL ON FUNCTION generate_due_pm_work_orders() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION generate_due_pm_work_orders() TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('generate-pm-work-orders', '*/15 * * * *', 'SELECT generate_due_pm_work_orders()');
+  END IF;
+END $$;
+
+ALTER TABLE pm_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view pm plans"
+  ON pm_plans FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view pm plans"
+  ON pm_plans FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Admins and department leaders can insert pm plans"
+  ON pm_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM machines
+      JOIN department_leaders ON department_leaders.department_id = machines.department_id
+      WHERE machines.id = pm_plans.machine_id
+      AND department_leaders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins and department leaders can update pm plans"
+  ON pm_plans FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM machines
+      JOIN department_leaders ON department_leaders.department_id = machines.department_id
+      WHERE machines.id = pm_plans.machine_id
+      AND department_leaders.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM machines
+      JOIN department_leaders ON department_leaders.department_id = machines.department_id
+      WHERE machines.id = pm_plans.machine_id
+      AND department_leaders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins and department leaders can delete pm plans"
+  ON pm_plans FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM machines
+      JOIN department_leaders ON department_leaders.department_id = machines.department_id
+      WHERE machines.id = pm_plans.machine_id
+      AND department_leaders.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,388 @@
+/*
+  # Alert Rules
+
+  ## Overview
+  A machine sitting in "Fault" for hours goes unnoticed until someone opens the overview.
+  This migration adds configurable alert rules that are evaluated in the database against
+  `machines` and `status_history`, an alert table that backs the inbox in the app, and
+  escalation to the department leaders when an alert is not acknowledged in time.
+
+  ## New Tables
+
+  ### 1. `alert_rules`
+  - `id` (uuid, primary key) - Unique rule identifier
+  - `name` (text) - Rule name shown in the inbox
+  - `rule_type` (text) - One of:
+    - 'status_duration': machine in `status` for longer than `threshold_minutes`
+    - 'fault_count': machine entered `status` more than `threshold_count` times this shift
+    - 'status_unchanged': machine status not updated for longer than `threshold_minutes`
+  - `status` (text, nullable) - Status the rule watches; unused by 'status_unchanged'
+  - `machine_id` (uuid, nullable) - Limit the rule to one machine
+  - `department_id` (uuid, nullable) - Limit the rule to one department
+  - `threshold_minutes` (integer, nullable) - Duration threshold
+  - `threshold_count` (integer, nullable) - Count threshold
+  - `escalate_after_minutes` (integer, nullable) - Escalate unacknowledged alerts after this
+    long; NULL escalates only machines without operators
+  - `is_active` (boolean) - Inactive rules are not evaluated
+  - `created_at` (timestamptz) - Creation timestamp
+  - `created_by` (uuid) - Admin who created the rule
+
+  ### 2. `alerts`
+  - `id` (uuid, primary key) - Unique alert identifier
+  - `rule_id` (uuid, foreign key) - Rule that raised the alert
+  - `machine_id` (uuid, foreign key) - Machine the alert is about
+  - `window_start` (timestamptz) - Start of the status period (duration rules) or of the
+    shift (count rules); one alert is raised per rule, machine and window
+  - `observed_value` (integer) - Minutes in status or number of faults when raised
+  - `triggered_at` (timestamptz) - When the alert was raised
+  - `acknowledged_at` / `acknowledged_by` - Acknowledgement
+  - `escalated_at` (timestamptz, nullable) - When the alert was escalated
+  - `resolved_at` (timestamptz, nullable) - When the condition stopped holding
+
+  ## New Functions
+
+  ### 1. `current_shift_start(p_department_id uuid)`
+  Start of the department's shift running now, following the same rules as the app
+  (own shifts, otherwise plant-wide ones). Falls back to midnight when no shift runs.
+
+  ### 2. `evaluate_alert_rules()`
+  Resolves alerts whose condition ended, raises new alerts and escalates overdue ones.
+  Returns the number of alerts raised. Scheduled every minute when pg_cron is available;
+  the app also calls it while the inbox is open.
+
+  ### 3. `acknowledge_alert(p_alert_id uuid)`
+  Marks an alert the caller can see as acknowledged.
+
+  ## Security (Row Level Security)
+
+  ### alert_rules table
+  - Authenticated users can view rules
+  - Only admins can insert, update, or delete rules
+
+  ### alerts table
+  - Admins see all alerts
+  - Operators of the machine see its alerts
+  - Leaders of the machine's department see its alerts once escalated
+  - Alerts are written only by the functions above
+
+  ## Important Notes
+  1. Shift times are read in the database time zone, which should be set to the plant's
+     (ALTER DATABASE ... SET timezone)
+  2. Duration rules measure from `machines.last_updated_at`, so a comment on the current
+     status starts a new period
+*/
+
+-- Create alert_rules table
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  rule_type text NOT NULL CHECK (rule_type IN ('status_duration', 'fault_count', 'status_unchanged')),
+  status text,
+  machine_id uuid REFERENCES machines(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES departments(id) ON DELETE CASCADE,
+  threshold_minutes integer CHECK (threshold_minutes > 0),
+  threshold_count integer CHECK (threshold_count >= 0),
+  escalate_after_minutes integer CHECK (escalate_after_minutes >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  CHECK (
+    (rule_type = 'status_duration' AND status IS NOT NULL AND threshold_minutes IS NOT NULL)
+    OR (rule_type = 'fault_count' AND status IS NOT NULL AND threshold_count IS NOT NULL)
+    OR (rule_type = 'status_unchanged' AND threshold_minutes IS NOT NULL)
+  )
+);
+
+-- Create alerts table
+CREATE TABLE IF NOT EXISTS alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  machine_id uuid NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL,
+  observed_value integer NOT NULL DEFAULT 0,
+  triggered_at timestamptz NOT NULL DEFAULT now(),
+  acknowledged_at timestamptz,
+  acknowledged_by uuid REFERENCES profiles(id),
+  escalated_at timestamptz,
+  resolved_at timestamptz,
+  UNIQUE (rule_id, machine_id, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_open ON alerts(machine_id) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_alerts_triggered_at ON alerts(triggered_at DESC);
+
+CREATE OR REPLACE FUNCTION current_shift_start(p_department_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH applicable AS (
+    SELECT s.start_time, s.end_time, s.days_of_week
+    FROM shifts s
+    WHERE s.is_active = true
+    AND (
+      s.department_id = p_department_id
+      OR (
+        s.department_id IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM shifts d
+          WHERE d.is_active = true AND d.department_id = p_department_id
+        )
+      )
+    )
+  ),
+  occurrences AS (
+    -- Today's shifts and yesterday's, which may run past midnight
+    SELECT
+      days.day + a.start_time AS starts_at,
+      days.day + a.end_time
+        + CASE WHEN a.end_time <= a.start_time THEN interval '1 day' ELSE interval '0' END AS ends_at
+    FROM applicable a
+    CROSS JOIN (VALUES (current_date), (current_date - 1)) AS days(day)
+    WHERE extract(isodow FROM days.day)::smallint = ANY(a.days_of_week)
+  )
+  SELECT coalesce(
+    (
+      SELECT max(o.starts_at) FROM occurrences o
+      WHERE localtimestamp >= o.starts_at AND localtimestamp < o.ends_at
+    ),
+    current_date::timestamp
+  )::timestamptz;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_alert_rules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created integer := 0;
+  v_count integer;
+BEGIN
+  -- Duration alerts end with the status period they were raised for
+  UPDATE alerts a
+  SET resolved_at = now()
+  FROM alert_rules r, machines m
+  WHERE a.rule_id = r.id
+  AND m.id = a.machine_id
+  AND a.resolved_at IS NULL
+  AND r.rule_type IN ('status_duration', 'status_unchanged')
+  AND m.last_updated_at IS DISTINCT FROM a.window_start;
+
+  -- Count alerts end with their shift
+  UPDATE alerts a
+  SET resolved_at = now()
+  FROM alert_rules r, machines m
+  WHERE a.rule_id = r.id
+  AND m.id = a.machine_id
+  AND a.resolved_at IS NULL
+  AND r.rule_type = 'fault_count'
+  AND a.window_start < current_shift_start(m.department_id);
+
+  INSERT INTO alerts (rule_id, machine_id, window_start, observed_value)
+  SELECT r.id, m.id, m.last_updated_at, floor(extract(epoch FROM now() - m.last_updated_at) / 60)::integer
+  FROM alert_rules r
+  JOIN machines m
+    ON (r.machine_id IS NULL OR r.machine_id = m.id)
+    AND (r.department_id IS NULL OR r.department_id = m.department_id)
+  WHERE r.is_active = true
+  AND r.rule_type IN ('status_duration', 'status_unchanged')
+  AND (r.rule_type = 'status_unchanged' OR m.current_status = r.status)
+  AND m.last_updated_at <= now() - make_interval(mins => r.threshold_minutes)
+  ON CONFLICT (rule_id, machine_id, window_start) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  INSERT INTO alerts (rule_id, machine_id, window_start, observed_value)
+  SELECT r.id, m.id, w.shift_start, c.faults
+  FROM alert_rules r
+  JOIN machines m
+    ON (r.machine_id IS NULL OR r.machine_id = m.id)
+    AND (r.department_id IS NULL OR r.department_id = m.department_id)
+  CROSS JOIN LATERAL (SELECT current_shift_start(m.department_id) AS shift_start) w
+  CROSS JOIN LATERAL (
+    SELECT count(*)::integer AS faults
+    FROM status_history h
+    WHERE h.machine_id = m.id
+    AND h.status = r.status
+    AND h.previous_status IS DISTINCT FROM r.status
+    AND h.changed_at >= w.shift_start
+  ) c
+  WHERE r.is_active = true
+  AND r.rule_type = 'fault_count'
+  AND c.faults > r.threshold_count
+  ON CONFLICT (rule_id, machine_id, window_start) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  -- Escalate to the department leaders when nobody acknowledged in time, or right away
+  -- when the machine has no operators to see the alert
+  UPDATE alerts a
+  SET escalated_at = now()
+  FROM alert_rules r
+  WHERE a.rule_id = r.id
+  AND a.resolved_at IS NULL
+  AND a.acknowledged_at IS NULL
+  AND a.escalated_at IS NULL
+  AND (
+    NOT EXISTS (SELECT 1 FROM machine_operators mo WHERE mo.machine_id = a.machine_id)
+    OR (
+      r.escalate_after_minutes IS NOT NULL
+      AND a.triggered_at <= now() - make_interval(mins => r.escalate_after_minutes)
+    )
+  );
+
+  RETURN v_created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION acknowledge_alert(p_alert_id uuid)
+RETURNS alerts
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_alert alerts;
+BEGIN
+  -- The select runs under the caller's RLS, so only visible alerts can be acknowledged
+  SELECT * INTO v_alert FROM alerts WHERE id = p_alert_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert % not found', p_alert_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_alert.acknowledged_at IS NOT NULL THEN
+    RETURN v_alert;
+  END IF;
+
+  UPDATE alerts
+  SET acknowledged_at = now(), acknowledged_by = auth.uid()
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  RETURN v_alert;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION evaluate_alert_rules() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION evaluate_alert_rules() TO authenticated;
+GRANT EXECUTE ON FUNCTION current_shift_start(uuid) TO authenticated;
+REVOKE ALL ON FUNCTION acknowledge_alert(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION acknowledge_alert(uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('evaluate-alert-rules', '* * * * *', 'SELECT evaluate_alert_rules()');
+  END IF;
+END $$;
+
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+
+-- alert_rules policies
+CREATE POLICY "All users can view alert rules"
+  ON alert_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert alert rules"
+  ON alert_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update alert rules"
+  ON alert_rules FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete alert rules"
+  ON alert_rules FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- alerts policies
+CREATE POLICY "Recipients can view alerts"
+  ON alerts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM machine_operators
+      WHERE machine_operators.machine_id = alerts.machine_id
+      AND machine_operators.user_id = auth.uid()
+    )
+    OR (
+      escalated_at IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM machines
+        JOIN department_leaders ON department_leaders.department_id = machines.department_id
+        WHERE machines.id = alerts.machine_id
+        AND department_leaders.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Recipients can acknowledge alerts"
+  ON alerts FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM machine_operators
+      WHERE machine_operators.machine_id = alerts.machine_id
+      AND machine_operators.user_id = auth.uid()
+    )
+    OR (
+      escalated_at IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM machines
+        JOIN department_leaders ON department_leaders.department_id = machines.department_id
+        WHERE machines.id = alerts.machine_id
+        AND department_leaders.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Recipients may only set the acknowledgement columns
+REVOKE UPDATE ON alerts FROM authenticated;
+GRANT UPDATE (acknowledged_at, acknowledged_by) ON alerts TO authenticated;
@@ -0,0 +1,332 @@
+/*
+  # Email and Webhook Notifications
+
+  ## Overview
+  Lets users receive status changes without keeping the dashboard open. Each user sets up
+  notification channels (an email address or an outgoing webhook URL) filtered by
+  department and status type. Every status change queues one delivery per matching
+  channel; the `deliver-notifications` edge function sends them and retries failures
+  with exponential backoff.
+
+  ## New Tables
+
+  ### 1. `notification_channels`
+  - `id` (uuid, primary key) - Unique channel identifier
+  - `user_id` (uuid, foreign key) - Owner of the channel
+  - `channel_type` (text) - 'email' or 'webhook'
+  - `target` (text) - Email address or webhook URL
+  - `department_ids` (uuid[]) - Departments to notify about; empty means all
+  - `status_names` (text[]) - Statuses to notify about; empty means all
+  - `is_active` (boolean) - Inactive channels receive nothing
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ### 2. `notification_deliveries`
+  - `id` (uuid, primary key) - Unique delivery identifier
+  - `channel_id` (uuid, foreign key) - Channel to deliver to
+  - `status_history_id` (uuid, nullable) - Status change being notified; NULL for tests
+  - `payload` (jsonb) - Machine, department, status and user details of the change
+  - `state` (text) - 'pending', 'sending', 'sent' or 'failed'
+  - `attempts` (integer) - Failed attempts so far
+  - `last_error` (text, nullable) - Error of the last failed attempt
+  - `next_attempt_at` (timestamptz) - Earliest time of the next attempt
+  - `sent_at` (timestamptz, nullable) - When the delivery succeeded
+  - `created_at` (timestamptz) - When the delivery was queued
+
+  ## New Functions
+  - `claim_notification_deliveries(p_limit)` - Marks due deliveries as sending and returns
+    them with their channel; deliveries stuck in sending for 10 minutes are picked up again
+  - `complete_notification_delivery(p_delivery_id, p_error)` - Records the outcome; failed
+    attempts are retried after 2, 4, 8 and 16 minutes, then the delivery is marked failed
+  - `retry_notification_delivery(p_delivery_id)` - Requeues a failed delivery
+  - `send_test_notification(p_channel_id)` - Queues a test message for a channel
+
+  The claim and complete functions are only granted to the service role used by the
+  edge function.
+
+  ## New Triggers
+  - `status_history` AFTER INSERT queues deliveries for matching active channels
+
+  ## Security (Row Level Security)
+
+  ### notification_channels table
+  - Users manage their own channels; admins can view all channels
+
+  ### notification_deliveries table
+  - Users view deliveries of their own channels; admins view all deliveries
+  - Deliveries are written only by the functions above
+
+  ## Important Notes
+  1. Comment-only updates (status unchanged) do not notify
+  2. When pg_cron and pg_net are installed and `app.functions_url` and
+     `app.service_role_key` are set, the edge function is invoked every minute
+*/
+
+-- Create notification_channels table
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  channel_type text NOT NULL CHECK (channel_type IN ('email', 'webhook')),
+  target text NOT NULL CHECK (target <> ''),
+  department_ids uuid[] NOT NULL DEFAULT '{}',
+  status_names text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user ON notification_channels(user_id);
+
+-- Create notification_deliveries table
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+  status_history_id uuid REFERENCES status_history(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL,
+  state text NOT NULL DEFAULT 'pending' CHECK (state IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+  ON notification_deliveries(next_attempt_at) WHERE state IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_channel
+  ON notification_deliveries(channel_id, created_at DESC);
+
+-- Queue deliveries for a status change
+CREATE OR REPLACE FUNCTION queue_status_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payload jsonb;
+  v_department_id uuid;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM NEW.previous_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    m.department_id,
+    jsonb_build_object(
+      'type', 'status_change',
+      'machine_id', m.id,
+      'machine_code', m.machine_code,
+      'machine_name', m.machine_name,
+      'department', d.name,
+      'status', NEW.status,
+      'previous_status', NEW.previous_status,
+      'comment', NEW.comment,
+      'changed_at', NEW.changed_at,
+      'changed_by', p.full_name
+    )
+  INTO v_department_id, v_payload
+  FROM machines m
+  LEFT JOIN departments d ON d.id = m.department_id
+  LEFT JOIN profiles p ON p.id = NEW.changed_by
+  WHERE m.id = NEW.machine_id;
+
+  INSERT INTO notification_deliveries (channel_id, status_history_id, payload)
+  SELECT c.id, NEW.id, v_payload
+  FROM notification_channels c
+  WHERE c.is_active = true
+  AND (cardinality(c.department_ids) = 0 OR v_department_id = ANY(c.department_ids))
+  AND (cardinality(c.status_names) = 0 OR NEW.status = ANY(c.status_names));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_status_notifications ON status_history;
+CREATE TRIGGER queue_status_notifications
+  AFTER INSERT ON status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_status_notifications();
+
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  channel_type text,
+  target text,
+  payload jsonb,
+  attempts integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT nd.id
+    FROM notification_deliveries nd
+    WHERE (nd.state = 'pending' AND nd.next_attempt_at <= now())
+    OR (nd.state = 'sending' AND nd.next_attempt_at <= now() - interval '10 minutes')
+    ORDER BY nd.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE notification_deliveries nd
+  SET state = 'sending', next_attempt_at = now()
+  FROM due, notification_channels c
+  WHERE nd.id = due.id
+  AND c.id = nd.channel_id
+  RETURNING nd.id, c.channel_type, c.target, nd.payload, nd.attempts;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_notification_delivery(
+  p_delivery_id uuid,
+  p_error text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_error IS NULL THEN
+    UPDATE notification_deliveries
+    SET state = 'sent', sent_at = now(), last_error = NULL
+    WHERE id = p_delivery_id;
+  ELSE
+    UPDATE notification_deliveries
+    SET attempts = attempts + 1,
+        last_error = p_error,
+        state = CASE WHEN attempts + 1 >= 5 THEN 'failed' ELSE 'pending' END,
+        next_attempt_at = now() + make_interval(mins => power(2, attempts + 1)::integer)
+    WHERE id = p_delivery_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retry_notification_delivery(p_delivery_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE notification_deliveries nd
+  SET state = 'pending', attempts = 0, next_attempt_at = now()
+  FROM notification_channels c
+  WHERE nd.id = p_delivery_id
+  AND c.id = nd.channel_id
+  AND nd.state = 'failed'
+  AND (
+    c.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery % cannot be retried', p_delivery_id
+      USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION send_test_notification(p_channel_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notification_deliveries (channel_id, payload)
+  SELECT c.id, jsonb_build_object('type', 'test', 'changed_at', now(), 'changed_by', p.full_name)
+  FROM notification_channels c
+  JOIN profiles p ON p.id = c.user_id
+  WHERE c.id = p_channel_id
+  AND c.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Channel % not found', p_channel_id
+      USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_notification_deliveries(integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION complete_notification_delivery(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_notification_deliveries(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_notification_delivery(uuid, text) TO service_role;
+REVOKE ALL ON FUNCTION retry_notification_delivery(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION send_test_notification(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION retry_notification_delivery(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_test_notification(uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+     AND current_setting('app.functions_url', true) IS NOT NULL
+     AND current_setting('app.service_role_key', true) IS NOT NULL THEN
+    PERFORM cron.schedule(
+      'deliver-notifications',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.functions_url') || '/deliver-notifications',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::jsonb
+        )
+      $cron$
+    );
+  END IF;
+END $$;
+
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- notification_channels policies
+CREATE POLICY "Users can view own channels and admins all"
+  ON notification_channels FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can insert own channels"
+  ON notification_channels FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own channels"
+  ON notification_channels FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own channels"
+  ON notification_channels FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- notification_deliveries policies
+CREATE POLICY "Users can view own deliveries and admins all"
+  ON notification_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM notification_channels c
+      WHERE c.id = notification_deliveries.channel_id
+      AND c.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
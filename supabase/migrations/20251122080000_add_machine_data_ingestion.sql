@@ -0,0 +1,523 @@
+/*
+  # Machine Data Ingestion
+
+  ## Overview
+  Until now every status was set by someone in the status update modal. PLC gateways can
+  now post raw machine signals and part counters with a per-machine API key:
+
+    POST /rest/v1/rpc/ingest_machine_data
+    apikey: <anon key>
+    { "p_api_key": "mk_...", "p_signal": "3", "p_produced_count": 1520, "p_scrap_count": 12 }
+
+  Raw signal values are mapped to status types, either per machine or globally. A new
+  status only takes effect once the signal has been stable for the machine's debounce
+  time, so a flapping input does not flood the history. Changes made this way are stored
+  with source 'automatic'.
+
+  ## New Tables
+
+  ### 1. `machine_api_keys`
+  - `id` (uuid, primary key) - Unique key identifier
+  - `machine_id` (uuid, foreign key) - Machine the key may post for
+  - `name` (text) - Label, e.g. the gateway it is installed on
+  - `key_prefix` (text) - First characters of the key, to recognise it in the list
+  - `key_hash` (text, unique) - SHA-256 of the key; the key itself is never stored
+  - `created_by` (uuid, foreign key) - User who created the key
+  - `created_at` (timestamptz) - Creation timestamp
+  - `last_used_at` (timestamptz, nullable) - Last successful ingestion
+  - `revoked_at` (timestamptz, nullable) - Revoked keys are rejected
+
+  ### 2. `signal_mappings`
+  - `id` (uuid, primary key) - Unique mapping identifier
+  - `machine_id` (uuid, nullable) - Machine the mapping applies to; NULL for all machines
+  - `signal_value` (text) - Raw value sent by the gateway
+  - `status` (text) - Status type name the value stands for
+  Machine mappings take precedence over global ones.
+
+  ### 3. `machine_signal_states`
+  Last signal and counter readings per machine.
+  - `machine_id` (uuid, primary key) - References machines
+  - `last_signal` (text, nullable) - Last raw signal received
+  - `last_signal_at` (timestamptz, nullable) - When it was received
+  - `pending_status` (text, nullable) - Mapped status waiting for the debounce time
+  - `pending_since` (timestamptz, nullable) - When the signal first reported it
+  - `produced_total` (bigint, nullable) - Last produced counter reading
+  - `scrap_total` (bigint, nullable) - Last scrap counter reading
+
+  ## Changes to Existing Tables
+
+  ### 1. `machines` table
+  - Add `signal_debounce_seconds` (integer) - How long a signal must be stable, default 30
+
+  ### 2. `status_history` table
+  - Add `source` (text) - 'manual' or 'automatic'
+  - `changed_by` becomes nullable; automatic changes have no user
+
+  ### 3. `production_counts` table
+  - Add `source` (text) - 'manual' or 'automatic'
+  - `recorded_by` becomes nullable; automatic counts have no user
+
+  ## New Functions
+  - `user_can_manage_machine(p_machine_id)` - True for admins and leaders of the machine's
+    department
+  - `create_machine_api_key(p_machine_id, p_name)` - Creates a key and returns it once
+  - `ingest_machine_data(p_api_key, p_signal, p_produced_count, p_scrap_count,
+    p_observed_at)` - Records a signal and/or counter readings; callable without login
+  - `flush_machine_signals()` - Applies pending statuses whose debounce time has passed
+
+  ## Security (Row Level Security)
+
+  ### machine_api_keys table
+  - Admins and department leaders can view and revoke the keys of their machines
+  - Keys are only created through `create_machine_api_key`
+
+  ### signal_mappings table
+  - All authenticated users can view mappings
+  - Admins manage global mappings; department leaders manage those of their machines
+
+  ### machine_signal_states table
+  - Everyone (including anonymous viewers) can view signal states
+  - Only written by the ingestion functions
+
+  ## Important Notes
+  1. Counters are cumulative readings as kept by the PLC; the difference to the previous
+     reading is stored as a production count. A reading lower than the previous one is
+     treated as a counter reset.
+  2. Automatic changes are not held to `requires_reason`; operators can add the reason
+     as a comment afterwards
+  3. An automatic change is dated to when the signal first reported the new status, but
+     never before the machine's last update
+  4. Pending statuses are flushed on every ingestion and, where pg_cron is installed,
+     every minute
+*/
+
+-- Add signal_debounce_seconds to machines
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'machines' AND column_name = 'signal_debounce_seconds'
+  ) THEN
+    ALTER TABLE machines ADD COLUMN signal_debounce_seconds integer NOT NULL DEFAULT 30
+      CHECK (signal_debounce_seconds >= 0);
+  END IF;
+END $$;
+
+-- Add source to status_history
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_history' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE status_history ADD COLUMN source text NOT NULL DEFAULT 'manual'
+      CHECK (source IN ('manual', 'automatic'));
+  END IF;
+END $$;
+
+ALTER TABLE status_history ALTER COLUMN changed_by DROP NOT NULL;
+
+-- Add source to production_counts
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'production_counts' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE production_counts ADD COLUMN source text NOT NULL DEFAULT 'manual'
+      CHECK (source IN ('manual', 'automatic'));
+  END IF;
+END $$;
+
+ALTER TABLE production_counts ALTER COLUMN recorded_by DROP NOT NULL;
+
+-- Create machine_api_keys table
+CREATE TABLE IF NOT EXISTS machine_api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id uuid NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT '',
+  key_prefix text NOT NULL,
+  key_hash text UNIQUE NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_machine_api_keys_machine ON machine_api_keys(machine_id);
+
+-- Create signal_mappings table
+CREATE TABLE IF NOT EXISTS signal_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id uuid REFERENCES machines(id) ON DELETE CASCADE,
+  signal_value text NOT NULL CHECK (signal_value <> ''),
+  status text NOT NULL REFERENCES status_types(name) ON UPDATE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signal_mappings_machine_value
+  ON signal_mappings(machine_id, signal_value) WHERE machine_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signal_mappings_global_value
+  ON signal_mappings(signal_value) WHERE machine_id IS NULL;
+
+-- Create machine_signal_states table
+CREATE TABLE IF NOT EXISTS machine_signal_states (
+  machine_id uuid PRIMARY KEY REFERENCES machines(id) ON DELETE CASCADE,
+  last_signal text,
+  last_signal_at timestamptz,
+  pending_status text,
+  pending_since timestamptz,
+  produced_total bigint,
+  scrap_total bigint
+);
+
+CREATE OR REPLACE FUNCTION user_can_manage_machine(p_machine_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  )
+  OR EXISTS (
+    SELECT 1 FROM machines
+    JOIN department_leaders ON department_leaders.department_id = machines.department_id
+    WHERE machines.id = p_machine_id
+    AND department_leaders.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION create_machine_api_key(p_machine_id uuid, p_name text DEFAULT '')
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key text := 'mk_' || replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+BEGIN
+  IF NOT user_can_manage_machine(p_machine_id) THEN
+    RAISE EXCEPTION 'You are not allowed to manage this machine'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO machine_api_keys (machine_id, name, key_prefix, key_hash, created_by)
+  VALUES (
+    p_machine_id,
+    coalesce(trim(p_name), ''),
+    left(v_key, 10),
+    encode(sha256(convert_to(v_key, 'UTF8')), 'hex'),
+    auth.uid()
+  );
+
+  RETURN v_key;
+END;
+$$;
+
+-- Writes an automatic status change. Mirrors change_machine_status without the user checks.
+CREATE OR REPLACE FUNCTION apply_machine_signal_status(
+  p_machine_id uuid,
+  p_new_status text,
+  p_changed_at timestamptz
+)
+RETURNS status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous_status text;
+  v_last_updated_at timestamptz;
+  v_entry status_history;
+BEGIN
+  SELECT current_status, last_updated_at INTO v_previous_status, v_last_updated_at
+  FROM machines
+  WHERE id = p_machine_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM status_types WHERE name = p_new_status AND is_active = true) THEN
+    RAISE EXCEPTION 'Unknown or inactive status: %', p_new_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE machines
+  SET current_status = p_new_status,
+      last_updated_at = greatest(p_changed_at, coalesce(v_last_updated_at, p_changed_at)),
+      last_updated_by = NULL
+  WHERE id = p_machine_id;
+
+  INSERT INTO status_history (machine_id, status, previous_status, comment, changed_by, changed_at, source)
+  VALUES (
+    p_machine_id, p_new_status, v_previous_status, '', NULL,
+    greatest(p_changed_at, coalesce(v_last_updated_at, p_changed_at)), 'automatic'
+  )
+  RETURNING * INTO v_entry;
+
+  UPDATE machine_signal_states
+  SET pending_status = NULL, pending_since = NULL
+  WHERE machine_id = p_machine_id;
+
+  RETURN v_entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION flush_machine_signals()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_state record;
+  v_applied integer := 0;
+BEGIN
+  FOR v_state IN
+    SELECT s.machine_id, s.pending_status, s.pending_since, m.current_status
+    FROM machine_signal_states s
+    JOIN machines m ON m.id = s.machine_id
+    WHERE s.pending_status IS NOT NULL
+    AND s.pending_since + make_interval(secs => m.signal_debounce_seconds) <= now()
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    IF v_state.pending_status IS DISTINCT FROM v_state.current_status THEN
+      PERFORM apply_machine_signal_status(v_state.machine_id, v_state.pending_status, v_state.pending_since);
+      v_applied := v_applied + 1;
+    ELSE
+      UPDATE machine_signal_states
+      SET pending_status = NULL, pending_since = NULL
+      WHERE machine_id = v_state.machine_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ingest_machine_data(
+  p_api_key text,
+  p_signal text DEFAULT NULL,
+  p_produced_count bigint DEFAULT NULL,
+  p_scrap_count bigint DEFAULT NULL,
+  p_observed_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key_id uuid;
+  v_machine machines;
+  v_state machine_signal_states;
+  v_observed_at timestamptz := least(coalesce(p_observed_at, now()), now());
+  v_status text;
+  v_result text := NULL;
+  v_produced bigint := 0;
+  v_scrap bigint := 0;
+BEGIN
+  SELECT id INTO v_key_id
+  FROM machine_api_keys
+  WHERE key_hash = encode(sha256(convert_to(coalesce(p_api_key, ''), 'UTF8')), 'hex')
+  AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or revoked API key'
+      USING ERRCODE = '28000';
+  END IF;
+
+  UPDATE machine_api_keys SET last_used_at = now() WHERE id = v_key_id;
+
+  PERFORM flush_machine_signals();
+
+  SELECT m.* INTO v_machine
+  FROM machines m
+  JOIN machine_api_keys k ON k.machine_id = m.id
+  WHERE k.id = v_key_id;
+
+  INSERT INTO machine_signal_states (machine_id)
+  VALUES (v_machine.id)
+  ON CONFLICT (machine_id) DO NOTHING;
+
+  SELECT * INTO v_state FROM machine_signal_states WHERE machine_id = v_machine.id FOR UPDATE;
+
+  IF p_signal IS NOT NULL THEN
+    SELECT status INTO v_status
+    FROM signal_mappings
+    WHERE signal_value = p_signal
+    AND (machine_id = v_machine.id OR machine_id IS NULL)
+    ORDER BY machine_id NULLS LAST
+    LIMIT 1;
+
+    IF v_status IS NULL THEN
+      v_result := 'unmapped';
+    ELSIF v_status = v_machine.current_status THEN
+      v_result := 'unchanged';
+      v_state.pending_status := NULL;
+      v_state.pending_since := NULL;
+    ELSE
+      IF v_state.pending_status IS DISTINCT FROM v_status THEN
+        v_state.pending_status := v_status;
+        v_state.pending_since := v_observed_at;
+      END IF;
+
+      IF v_state.pending_since + make_interval(secs => v_machine.signal_debounce_seconds) <= v_observed_at THEN
+        v_result := 'applied';
+      ELSE
+        v_result := 'pending';
+      END IF;
+    END IF;
+
+    v_state.last_signal := p_signal;
+    v_state.last_signal_at := v_observed_at;
+  END IF;
+
+  IF p_produced_count IS NOT NULL OR p_scrap_count IS NOT NULL THEN
+    IF p_produced_count IS NOT NULL AND v_state.produced_total IS NOT NULL THEN
+      v_produced := CASE WHEN p_produced_count >= v_state.produced_total
+        THEN p_produced_count - v_state.produced_total ELSE p_produced_count END;
+    END IF;
+    IF p_scrap_count IS NOT NULL AND v_state.scrap_total IS NOT NULL THEN
+      v_scrap := CASE WHEN p_scrap_count >= v_state.scrap_total
+        THEN p_scrap_count - v_state.scrap_total ELSE p_scrap_count END;
+    END IF;
+
+    IF v_produced > 0 OR v_scrap > 0 THEN
+      INSERT INTO production_counts (machine_id, recorded_at, produced_count, scrap_count, source)
+      VALUES (v_machine.id, v_observed_at, greatest(v_produced, v_scrap), v_scrap, 'automatic');
+    END IF;
+
+    v_state.produced_total := coalesce(p_produced_count, v_state.produced_total);
+    v_state.scrap_total := coalesce(p_scrap_count, v_state.scrap_total);
+  END IF;
+
+  UPDATE machine_signal_states
+  SET last_signal = v_state.last_signal,
+      last_signal_at = v_state.last_signal_at,
+      pending_status = v_state.pending_status,
+      pending_since = v_state.pending_since,
+      produced_total = v_state.produced_total,
+      scrap_total = v_state.scrap_total
+  WHERE machine_id = v_machine.id;
+
+  IF v_result = 'applied' THEN
+    PERFORM apply_machine_signal_status(v_machine.id, v_status, v_state.pending_since);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'machine_code', v_machine.machine_code,
+    'signal', v_result,
+    'status', CASE WHEN v_result = 'applied' THEN v_status ELSE v_machine.current_status END,
+    'pending_status', CASE WHEN v_result = 'pending' THEN v_status END,
+    'produced_count', v_produced,
+    'scrap_count', v_scrap
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION user_can_manage_machine(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION create_machine_api_key(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION apply_machine_signal_status(uuid, text, timestamptz) FROM PUBLIC;
+REVOKE ALL ON FUNCTION flush_machine_signals() FROM PUBLIC;
+REVOKE ALL ON FUNCTION ingest_machine_data(text, text, bigint, bigint, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION user_can_manage_machine(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_machine_api_key(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION ingest_machine_data(text, text, bigint, bigint, timestamptz) TO anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('flush-machine-signals', '* * * * *', 'SELECT flush_machine_signals()');
+  END IF;
+END $$;
+
+ALTER TABLE machine_api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE signal_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE machine_signal_states ENABLE ROW LEVEL SECURITY;
+
+-- machine_api_keys policies
+CREATE POLICY "Admins and department leaders can view api keys"
+  ON machine_api_keys FOR SELECT
+  TO authenticated
+  USING (user_can_manage_machine(machine_id));
+
+CREATE POLICY "Admins and department leaders can revoke api keys"
+  ON machine_api_keys FOR UPDATE
+  TO authenticated
+  USING (user_can_manage_machine(machine_id))
+  WITH CHECK (user_can_manage_machine(machine_id));
+
+CREATE POLICY "Admins and department leaders can delete api keys"
+  ON machine_api_keys FOR DELETE
+  TO authenticated
+  USING (user_can_manage_machine(machine_id));
+
+-- signal_mappings policies
+CREATE POLICY "All users can view signal mappings"
+  ON signal_mappings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins and department leaders can insert signal mappings"
+  ON signal_mappings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    CASE WHEN machine_id IS NULL
+      THEN EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+      )
+      ELSE user_can_manage_machine(machine_id)
+    END
+  );
+
+CREATE POLICY "Admins and department leaders can update signal mappings"
+  ON signal_mappings FOR UPDATE
+  TO authenticated
+  USING (
+    CASE WHEN machine_id IS NULL
+      THEN EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+      )
+      ELSE user_can_manage_machine(machine_id)
+    END
+  )
+  WITH CHECK (
+    CASE WHEN machine_id IS NULL
+      THEN EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+      )
+      ELSE user_can_manage_machine(machine_id)
+    END
+  );
+
+CREATE POLICY "Admins and department leaders can delete signal mappings"
+  ON signal_mappings FOR DELETE
+  TO authenticated
+  USING (
+    CASE WHEN machine_id IS NULL
+      THEN EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+      )
+      ELSE user_can_manage_machine(machine_id)
+    END
+  );
+
+-- machine_signal_states policies
+CREATE POLICY "All users can view signal states"
+  ON machine_signal_states FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view signal states"
+  ON machine_signal_states FOR SELECT
+  TO anon
+  USING (true);
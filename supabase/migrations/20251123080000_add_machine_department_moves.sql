@@ -0,0 +1,144 @@
+/*
+  # Machine Editing and Department Moves
+
+  ## Overview
+  Machines can now be edited in place instead of being deleted and re-created, which
+  wiped their history. Moving a machine to another department is recorded, and team
+  leaders may only move machines between departments they lead.
+
+  ## New Tables
+
+  ### 1. `machine_department_moves`
+  - `id` (uuid, primary key) - Unique move identifier
+  - `machine_id` (uuid, foreign key) - Machine that was moved
+  - `from_department_id` (uuid, nullable) - Department before the move
+  - `to_department_id` (uuid, nullable) - Department after the move
+  - `moved_by` (uuid, nullable) - User who moved it; NULL for system changes
+  - `moved_at` (timestamptz) - When the move happened
+
+  ## New Triggers
+  - `machines` BEFORE UPDATE checks that a non-admin moving a machine leads both the old
+    and the new department
+  - `machines` AFTER UPDATE records every department change in `machine_department_moves`
+
+  ## Security (Row Level Security)
+
+  ### machines table
+  - "Users can update machines based on role" is replaced: machine details are edited by
+    admins and leaders of the machine's department only. Operators change statuses
+    through `change_machine_status` and no longer need direct update access.
+
+  ### machine_department_moves table
+  - All authenticated users can view moves
+  - Rows are only written by the trigger
+*/
+
+-- Create machine_department_moves table
+CREATE TABLE IF NOT EXISTS machine_department_moves (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  machine_id uuid NOT NULL REFERENCES machines(id) ON DELETE CASCADE,
+  from_department_id uuid REFERENCES departments(id) ON DELETE SET NULL,
+  to_department_id uuid REFERENCES departments(id) ON DELETE SET NULL,
+  moved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  moved_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_machine_department_moves_machine
+  ON machine_department_moves(machine_id, moved_at DESC);
+
+CREATE OR REPLACE FUNCTION check_machine_department_move()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.department_id IS NOT DISTINCT FROM OLD.department_id OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM department_leaders
+    WHERE department_leaders.user_id = auth.uid()
+    AND department_leaders.department_id = OLD.department_id
+  ) OR NOT EXISTS (
+    SELECT 1 FROM department_leaders
+    WHERE department_leaders.user_id = auth.uid()
+    AND department_leaders.department_id = NEW.department_id
+  ) THEN
+    RAISE EXCEPTION 'You can only move machines between departments you lead'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_machine_department_move()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO machine_department_moves (machine_id, from_department_id, to_department_id, moved_by)
+  VALUES (NEW.id, OLD.department_id, NEW.department_id, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_machine_department_move ON machines;
+CREATE TRIGGER check_machine_department_move
+  BEFORE UPDATE OF department_id ON machines
+  FOR EACH ROW
+  EXECUTE FUNCTION check_machine_department_move();
+
+DROP TRIGGER IF EXISTS record_machine_department_move ON machines;
+CREATE TRIGGER record_machine_department_move
+  AFTER UPDATE OF department_id ON machines
+  FOR EACH ROW
+  WHEN (OLD.department_id IS DISTINCT FROM NEW.department_id)
+  EXECUTE FUNCTION record_machine_department_move();
+
+-- Only admins and department leaders edit machine details
+DROP POLICY IF EXISTS "Users can update machines based on role" ON machines;
+
+CREATE POLICY "Admins and department leaders can update machines"
+  ON machines FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM department_leaders
+      WHERE department_leaders.user_id = auth.uid()
+      AND department_leaders.department_id = machines.department_id
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM department_leaders
+      WHERE department_leaders.user_id = auth.uid()
+      AND department_leaders.department_id = machines.department_id
+    )
+  );
+
+ALTER TABLE machine_department_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view machine moves"
+  ON machine_department_moves FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,92 @@
+/*
+  # Machine Archiving
+
+  ## Overview
+  Deleting a machine cascades to its status history and destroys the reporting data of
+  decommissioned equipment. Machines are now archived instead: they disappear from the
+  live overview and can no longer change status, but their history stays in reports.
+  Hard deletion remains possible for admins.
+
+  ## Changes to Existing Tables
+
+  ### 1. `machines` table
+  - Add `archived_at` (timestamptz, nullable) - When the machine was archived; NULL while
+    in use
+  - Add `archived_by` (uuid, nullable) - User who archived it
+
+  ## New Triggers
+  - `status_history` BEFORE INSERT rejects status changes of archived machines, whether
+    manual or automatic
+  - `machines` AFTER UPDATE OF archived_at deactivates the machine's preventive
+    maintenance plans and resolves its open alerts when it is archived
+
+  ## Important Notes
+  1. Archiving and restoring use the existing machine update policy (admins and
+     department leaders); hard deletion stays admin-only
+  2. Restoring a machine does not reactivate its maintenance plans
+*/
+
+-- Add archived_at and archived_by to machines
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'machines' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE machines ADD COLUMN archived_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'machines' AND column_name = 'archived_by'
+  ) THEN
+    ALTER TABLE machines ADD COLUMN archived_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION reject_archived_machine_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM machines
+    WHERE id = NEW.machine_id
+    AND archived_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Machine is archived'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_archived_machine_status ON status_history;
+CREATE TRIGGER reject_archived_machine_status
+  BEFORE INSERT ON status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_archived_machine_status();
+
+CREATE OR REPLACE FUNCTION retire_archived_machine()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE pm_plans SET is_active = false WHERE machine_id = NEW.id AND is_active = true;
+  UPDATE alerts SET resolved_at = now() WHERE machine_id = NEW.id AND resolved_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS retire_archived_machine ON machines;
+CREATE TRIGGER retire_archived_machine
+  AFTER UPDATE OF archived_at ON machines
+  FOR EACH ROW
+  WHEN (OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL)
+  EXECUTE FUNCTION retire_archived_machine();
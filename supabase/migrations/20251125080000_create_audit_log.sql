@@ -0,0 +1,167 @@
+/*
+  # Audit Log
+
+  ## Overview
+  Administrative changes (role changes, department and assignment edits, machine and
+  status type configuration) were not traceable. Every insert, update and delete on
+  these tables is now written to an append-only audit log by database triggers, so the
+  log also covers changes made outside the application.
+
+  ## New Tables
+
+  ### 1. `audit_log`
+  - `id` (uuid, primary key) - Unique entry identifier
+  - `table_name` (text) - Table that was changed
+  - `record_id` (uuid) - Primary key of the changed row
+  - `action` (text) - INSERT, UPDATE or DELETE
+  - `old_data` (jsonb, nullable) - Row before the change; NULL for inserts
+  - `new_data` (jsonb, nullable) - Row after the change; NULL for deletes
+  - `changed_fields` (text[], nullable) - Columns that changed, for updates
+  - `actor_id` (uuid, nullable) - User who made the change; NULL for system changes
+  - `changed_at` (timestamptz) - When the change happened
+
+  ## New Functions
+  - `write_audit_log()` - Generic trigger function. Trigger arguments name columns that
+    are not audited (e.g. status columns of `machines`, which `status_history` already
+    records); updates touching only those columns are not logged.
+  - `reject_audit_log_change()` - Rejects updates and deletes of audit entries
+
+  ## New Triggers
+  - AFTER INSERT/UPDATE/DELETE on `profiles`, `departments`, `department_leaders`,
+    `machine_operators`, `machines` and `status_types`
+
+  ## Security (Row Level Security)
+  - Only admins can view the audit log
+  - There are no insert, update or delete policies; rows are only written by the
+    triggers and can never be changed
+
+  ## Important Notes
+  1. `actor_id` has no foreign key so entries survive the deletion of the user who made
+     them
+  2. Deleting a department or machine also logs the assignments removed by the cascade
+*/
+
+-- Create audit_log table
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[],
+  actor_id uuid,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_at ON audit_log(changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table ON audit_log(table_name, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id, changed_at DESC);
+
+CREATE OR REPLACE FUNCTION write_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_changed text[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_new := to_jsonb(NEW);
+  ELSIF TG_OP = 'DELETE' THEN
+    v_old := to_jsonb(OLD);
+  ELSE
+    v_old := to_jsonb(OLD);
+    v_new := to_jsonb(NEW);
+
+    SELECT array_agg(n.key ORDER BY n.key) INTO v_changed
+    FROM jsonb_each(v_new) n
+    WHERE n.value IS DISTINCT FROM v_old -> n.key
+    AND NOT (n.key = ANY (TG_ARGV));
+
+    IF v_changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, action, old_data, new_data, changed_fields, actor_id)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new ->> 'id', v_old ->> 'id')::uuid,
+    TG_OP,
+    v_old,
+    v_new,
+    v_changed,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be changed'
+    USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_audit_log_change ON audit_log;
+CREATE TRIGGER reject_audit_log_change
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_audit_log_change();
+
+DROP TRIGGER IF EXISTS audit_profiles ON profiles;
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log('updated_at');
+
+DROP TRIGGER IF EXISTS audit_departments ON departments;
+CREATE TRIGGER audit_departments
+  AFTER INSERT OR UPDATE OR DELETE ON departments
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_department_leaders ON department_leaders;
+CREATE TRIGGER audit_department_leaders
+  AFTER INSERT OR UPDATE OR DELETE ON department_leaders
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log();
+
+DROP TRIGGER IF EXISTS audit_machine_operators ON machine_operators;
+CREATE TRIGGER audit_machine_operators
+  AFTER INSERT OR UPDATE OR DELETE ON machine_operators
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log();
+
+-- Status changes are already recorded in status_history
+DROP TRIGGER IF EXISTS audit_machines ON machines;
+CREATE TRIGGER audit_machines
+  AFTER INSERT OR UPDATE OR DELETE ON machines
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log('current_status', 'last_updated_at', 'last_updated_by');
+
+DROP TRIGGER IF EXISTS audit_status_types ON status_types;
+CREATE TRIGGER audit_status_types
+  AFTER INSERT OR UPDATE OR DELETE ON status_types
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log();
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
@@ -0,0 +1,56 @@
+/*
+  # User Deactivation
+
+  ## Overview
+  Users are now created, deactivated, reactivated and reset through the `manage-users`
+  edge function, which uses the service role so that an admin's browser session is never
+  replaced by the new user's. Deactivated users keep their profile and history but can no
+  longer sign in.
+
+  ## Changes to Existing Tables
+
+  ### 1. `profiles` table
+  - Add `is_active` (boolean, default true) - False while the user is deactivated
+  - Add `deactivated_at` (timestamptz, nullable) - When the user was deactivated
+
+  ## Security (Row Level Security)
+
+  ### profiles table
+  - "Users can update own profile" now also keeps users from changing their own
+    `is_active` and `deactivated_at`; only the edge function changes them
+
+  ## Important Notes
+  1. The edge function also bans the auth user, which blocks sign-in and token refresh.
+     A session that is already open stays valid until its access token expires.
+*/
+
+-- Add is_active and deactivated_at to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'is_active'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN is_active boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'deactivated_at'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN deactivated_at timestamptz;
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+
+CREATE POLICY "Users can update own profile"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id
+    AND role = (SELECT role FROM profiles WHERE id = auth.uid())
+    AND is_active = (SELECT is_active FROM profiles WHERE id = auth.uid())
+    AND deactivated_at IS NOT DISTINCT FROM (SELECT deactivated_at FROM profiles WHERE id = auth.uid())
+  );
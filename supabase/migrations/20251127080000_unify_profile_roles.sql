@@ -0,0 +1,50 @@
+/*
+  # Unify Profile Roles
+
+  ## Overview
+  The 'viewer' role was removed when departments were introduced, but the column default
+  and the client still used it, so self sign-up failed the role check. Self-registered
+  accounts now become operators; without machine assignments they can do no more than
+  view, which is what 'viewer' used to mean. The client's permission helpers
+  (src/lib/permissions.ts) mirror the policies below.
+
+  ## Changes to Existing Tables
+
+  ### 1. `profiles` table
+  - `role` defaults to 'operator' instead of the removed 'viewer'
+
+  ## Security (Row Level Security)
+
+  ### profiles table
+  - "Users can insert own profile" only allows the 'operator' role, so users cannot sign
+    themselves up as admins or team leaders; other roles are granted by admins
+  - New "Admins can update profiles" policy lets admins change other users' roles from
+    user management, which the existing own-profile policy did not allow
+*/
+
+ALTER TABLE profiles ALTER COLUMN role SET DEFAULT 'operator';
+
+DROP POLICY IF EXISTS "Users can insert own profile" ON profiles;
+
+CREATE POLICY "Users can insert own profile"
+  ON profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = id AND role = 'operator');
+
+DROP POLICY IF EXISTS "Admins can update profiles" ON profiles;
+
+CREATE POLICY "Admins can update profiles"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles AS admin_profile
+      WHERE admin_profile.id = auth.uid() AND admin_profile.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles AS admin_profile
+      WHERE admin_profile.id = auth.uid() AND admin_profile.role = 'admin'
+    )
+  );
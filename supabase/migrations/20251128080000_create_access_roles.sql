@@ -0,0 +1,328 @@
+/*
+  # Access Roles
+
+  ## Overview
+  The three built-in roles do not fit every job: quality inspectors may only put machines
+  on "QC Hold", maintenance staff may only clear faults. Admins can now define access
+  roles that grant a user specific permissions on top of their built-in role: viewing the
+  machines of chosen departments, changing those machines to specific status types,
+  managing their operator assignments and running reports.
+
+  ## New Tables
+
+  ### 1. `access_roles`
+  - `id` (uuid, primary key) - Unique role identifier
+  - `name` (text, unique) - Role name, e.g. "QC Inspector"
+  - `description` (text) - What the role is for
+  - `all_departments` (boolean) - Applies to every department instead of the listed ones
+  - `can_manage_assignments` (boolean) - May assign operators to machines in scope
+  - `can_run_reports` (boolean) - May open the reports page
+  - `created_at` (timestamptz) - Creation timestamp
+  - `created_by` (uuid, nullable) - Admin who created the role
+
+  ### 2. `access_role_departments`
+  - `role_id` (uuid, foreign key) - Access role
+  - `department_id` (uuid, foreign key) - Department in the role's scope
+
+  ### 3. `access_role_status_types`
+  - `role_id` (uuid, foreign key) - Access role
+  - `status_type_id` (uuid, foreign key) - Status the role may change machines to
+
+  ## Changes to Existing Tables
+
+  ### 1. `profiles` table
+  - Add `access_role_id` (uuid, nullable) - Access role held by the user
+
+  ## New Functions
+  - `user_operates_machine(p_machine_id)` - The previous `user_can_update_machine`:
+    admins, leaders of the machine's department and assigned operators
+  - `user_access_role_covers_department(p_department_id)` - True if the caller's access
+    role includes the department
+  - `user_access_role_allows_status(p_machine_id, p_status)` - True if the caller's
+    access role covers the machine and allows the status; with a NULL status, true if it
+    allows any status
+  - `user_access_role_can_assign(p_machine_id)` - True if the caller's access role
+    covers the machine and may manage assignments
+  - `user_can_update_machine(p_machine_id)` now also accepts access roles that allow at
+    least one status
+
+  ## New Triggers
+  - `status_history` BEFORE INSERT rejects manual status changes to a status the user
+    may not set. Comment-only entries and automatic changes are not checked.
+
+  ## Security (Row Level Security)
+
+  ### access_roles, access_role_departments, access_role_status_types tables
+  - All authenticated users can view them (the client mirrors the permissions)
+  - Only admins can manage them
+
+  ### profiles table
+  - "Users can update own profile" also keeps users from changing their own access role;
+    admins assign access roles
+
+  ### machines table
+  - Users can view the machines of their access role's departments
+
+  ### machine_operators table
+  - Users whose access role may manage assignments can assign operators to the machines
+    in its scope
+
+  ## Important Notes
+  1. Access roles only add permissions. A user's built-in role and assignments keep
+     working, e.g. an operator with the QC role can still set any status on the machines
+     they are assigned to.
+  2. Status history and reports data are readable by everyone, so `can_run_reports` only
+     controls access to the reports page
+*/
+
+-- Create access_roles table
+CREATE TABLE IF NOT EXISTS access_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  description text DEFAULT '',
+  all_departments boolean NOT NULL DEFAULT false,
+  can_manage_assignments boolean NOT NULL DEFAULT false,
+  can_run_reports boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+-- Create access_role_departments table
+CREATE TABLE IF NOT EXISTS access_role_departments (
+  role_id uuid NOT NULL REFERENCES access_roles(id) ON DELETE CASCADE,
+  department_id uuid NOT NULL REFERENCES departments(id) ON DELETE CASCADE,
+  PRIMARY KEY (role_id, department_id)
+);
+
+-- Create access_role_status_types table
+CREATE TABLE IF NOT EXISTS access_role_status_types (
+  role_id uuid NOT NULL REFERENCES access_roles(id) ON DELETE CASCADE,
+  status_type_id uuid NOT NULL REFERENCES status_types(id) ON DELETE CASCADE,
+  PRIMARY KEY (role_id, status_type_id)
+);
+
+-- Add access_role_id to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'access_role_id'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN access_role_id uuid REFERENCES access_roles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION user_operates_machine(p_machine_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  )
+  OR EXISTS (
+    SELECT 1 FROM machines
+    JOIN department_leaders ON department_leaders.department_id = machines.department_id
+    WHERE machines.id = p_machine_id
+    AND department_leaders.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM machine_operators
+    WHERE machine_operators.machine_id = p_machine_id
+    AND machine_operators.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION user_access_role_covers_department(p_department_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    JOIN access_roles ON access_roles.id = profiles.access_role_id
+    WHERE profiles.id = auth.uid()
+    AND (
+      access_roles.all_departments
+      OR EXISTS (
+        SELECT 1 FROM access_role_departments
+        WHERE access_role_departments.role_id = access_roles.id
+        AND access_role_departments.department_id = p_department_id
+      )
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION user_access_role_allows_status(p_machine_id uuid, p_status text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM machines
+    JOIN profiles ON profiles.id = auth.uid()
+    JOIN access_role_status_types ON access_role_status_types.role_id = profiles.access_role_id
+    JOIN status_types ON status_types.id = access_role_status_types.status_type_id
+    WHERE machines.id = p_machine_id
+    AND (p_status IS NULL OR status_types.name = p_status)
+    AND user_access_role_covers_department(machines.department_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION user_access_role_can_assign(p_machine_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM machines
+    JOIN profiles ON profiles.id = auth.uid()
+    JOIN access_roles ON access_roles.id = profiles.access_role_id
+    WHERE machines.id = p_machine_id
+    AND access_roles.can_manage_assignments
+    AND user_access_role_covers_department(machines.department_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION user_can_update_machine(p_machine_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_operates_machine(p_machine_id)
+    OR user_access_role_allows_status(p_machine_id, NULL);
+$$;
+
+CREATE OR REPLACE FUNCTION check_status_permission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.source <> 'manual'
+     OR auth.uid() IS NULL
+     OR NEW.status IS NOT DISTINCT FROM NEW.previous_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT user_operates_machine(NEW.machine_id)
+     AND NOT user_access_role_allows_status(NEW.machine_id, NEW.status) THEN
+    RAISE EXCEPTION 'You are not allowed to set status %', NEW.status
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_status_permission ON status_history;
+CREATE TRIGGER check_status_permission
+  BEFORE INSERT ON status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION check_status_permission();
+
+REVOKE ALL ON FUNCTION user_operates_machine(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION user_access_role_covers_department(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION user_access_role_allows_status(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION user_access_role_can_assign(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION user_operates_machine(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION user_access_role_covers_department(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION user_access_role_allows_status(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION user_access_role_can_assign(uuid) TO authenticated;
+
+ALTER TABLE access_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE access_role_departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE access_role_status_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view access roles"
+  ON access_roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage access roles"
+  ON access_roles FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "All users can view access role departments"
+  ON access_role_departments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage access role departments"
+  ON access_role_departments FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "All users can view access role status types"
+  ON access_role_status_types FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage access role status types"
+  ON access_role_status_types FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can view machines of their access role"
+  ON machines FOR SELECT
+  TO authenticated
+  USING (user_access_role_covers_department(machines.department_id));
+
+CREATE POLICY "Users with assignment permission can manage machine operators"
+  ON machine_operators FOR ALL
+  TO authenticated
+  USING (user_access_role_can_assign(machine_operators.machine_id))
+  WITH CHECK (user_access_role_can_assign(machine_operators.machine_id));
+
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+
+CREATE POLICY "Users can update own profile"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id
+    AND role = (SELECT role FROM profiles WHERE id = auth.uid())
+    AND is_active = (SELECT is_active FROM profiles WHERE id = auth.uid())
+    AND deactivated_at IS NOT DISTINCT FROM (SELECT deactivated_at FROM profiles WHERE id = auth.uid())
+    AND access_role_id IS NOT DISTINCT FROM (SELECT access_role_id FROM profiles WHERE id = auth.uid())
+  );
@@ -0,0 +1,140 @@
+/*
+  # Status Transitions
+
+  ## Overview
+  Any status could be changed to any other. Admins can now restrict which statuses may
+  follow a status, e.g. a machine in "Fault" may only go to "Under Maintenance", and
+  "Under Maintenance" may go to "Running" only when a team leader says so.
+
+  ## New Tables
+
+  ### 1. `status_transitions`
+  - `id` (uuid, primary key) - Unique transition identifier
+  - `from_status_type_id` (uuid, foreign key) - Status the machine is in
+  - `to_status_type_id` (uuid, foreign key) - Status it may be changed to
+  - `leader_only` (boolean) - Only admins and leaders of the machine's department may
+    make the change
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Changes to Existing Tables
+
+  ### 1. `status_types` table
+  - Add `restrict_transitions` (boolean, default false) - When true, the status can only
+    be changed to the statuses listed in `status_transitions`; when false, to any status
+
+  ## New Triggers
+  - `status_history` BEFORE INSERT rejects manual status changes that the previous
+    status does not allow (22023), or that are leader-only and made by someone else
+    (42501)
+  - `status_transitions` changes are written to the audit log
+
+  ## Security (Row Level Security)
+
+  ### status_transitions table
+  - All authenticated users can view transitions (the status modal mirrors them)
+  - Only admins can manage transitions
+
+  ## Important Notes
+  1. Statuses keep allowing every change until an admin restricts them, so existing
+     installations behave as before
+  2. Automatic changes reported by machines are not checked; they record what the
+     machine actually did
+  3. Adding a comment without changing the status is always allowed
+*/
+
+-- Add restrict_transitions to status_types
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_types' AND column_name = 'restrict_transitions'
+  ) THEN
+    ALTER TABLE status_types ADD COLUMN restrict_transitions boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Create status_transitions table
+CREATE TABLE IF NOT EXISTS status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_status_type_id uuid NOT NULL REFERENCES status_types(id) ON DELETE CASCADE,
+  to_status_type_id uuid NOT NULL REFERENCES status_types(id) ON DELETE CASCADE,
+  leader_only boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (from_status_type_id, to_status_type_id),
+  CHECK (from_status_type_id <> to_status_type_id)
+);
+
+CREATE OR REPLACE FUNCTION check_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from status_types%ROWTYPE;
+  v_leader_only boolean;
+BEGIN
+  IF NEW.source <> 'manual'
+     OR auth.uid() IS NULL
+     OR NEW.status IS NOT DISTINCT FROM NEW.previous_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_from FROM status_types WHERE name = NEW.previous_status;
+
+  IF NOT FOUND OR NOT v_from.restrict_transitions THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status_transitions.leader_only INTO v_leader_only
+  FROM status_transitions
+  JOIN status_types ON status_types.id = status_transitions.to_status_type_id
+  WHERE status_transitions.from_status_type_id = v_from.id
+  AND status_types.name = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Status "%" cannot be changed to "%"', NEW.previous_status, NEW.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_leader_only AND NOT user_can_manage_machine(NEW.machine_id) THEN
+    RAISE EXCEPTION 'Only team leaders can change status "%" to "%"', NEW.previous_status, NEW.status
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_status_transition ON status_history;
+CREATE TRIGGER check_status_transition
+  BEFORE INSERT ON status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION check_status_transition();
+
+DROP TRIGGER IF EXISTS audit_status_transitions ON status_transitions;
+CREATE TRIGGER audit_status_transitions
+  AFTER INSERT OR UPDATE OR DELETE ON status_transitions
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log();
+
+ALTER TABLE status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view status transitions"
+  ON status_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage status transitions"
+  ON status_transitions FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
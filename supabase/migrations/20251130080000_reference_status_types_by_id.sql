@@ -0,0 +1,337 @@
+/*
+  # Reference Status Types by ID
+
+  ## Overview
+  Machines and status history stored the status type *name*, so renaming a status type
+  orphaned every historical row: colors and report groupings no longer matched. Status
+  references now use `status_types.id`. The name columns remain as a snapshot of the
+  current name for readers that only need a label, and follow renames.
+
+  ## Changes to Existing Tables
+
+  ### 1. `machines` table
+  - Add `current_status_id` (uuid, foreign key) - Current status type
+
+  ### 2. `status_history` table
+  - Add `status_type_id` (uuid, foreign key) - Status type changed to
+  - Add `previous_status_type_id` (uuid, nullable foreign key) - Status type changed from
+
+  ### 3. `status_types` table
+  - Names that history still refers to but no status type has any more (left behind by
+    earlier renames) are added back as inactive status types, so every row can be
+    backfilled
+
+  ## Changed Functions
+
+  ### 1. `machine_status_segments`, `machine_status_durations`
+  Also return `status_type_id`; reports group and color by it.
+
+  ## New Triggers
+  - `machines`, `status_history` BEFORE INSERT OR UPDATE resolve the status type ids from
+    the names when only names are written (as `change_machine_status` and machine data
+    ingestion do), and set the names from the ids
+  - `status_types` AFTER UPDATE OF name copies the new name into machines, status
+    history, alert rules, work orders and notification channel filters
+
+  ## Security (Row Level Security)
+
+  ### status_types table
+  - Authenticated users can view inactive status types too, so history that refers to
+    them can still be labelled and colored
+
+  ## Important Notes
+  1. Status types that are referenced can no longer be deleted, only deactivated
+  2. Status changes queued offline carry the name that was current when they were made;
+     a rename before they are sent makes them fail as unknown statuses
+*/
+
+-- Recreate status types for names only history still refers to
+INSERT INTO status_types (name, color, is_active, display_order)
+SELECT orphan.name, 'gray', false, (SELECT coalesce(max(display_order), 0) FROM status_types) + 1
+FROM (
+  SELECT current_status AS name FROM machines
+  UNION
+  SELECT status FROM status_history
+  UNION
+  SELECT previous_status FROM status_history
+) orphan
+WHERE orphan.name IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM status_types WHERE status_types.name = orphan.name);
+
+-- Add current_status_id to machines
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'machines' AND column_name = 'current_status_id'
+  ) THEN
+    ALTER TABLE machines ADD COLUMN current_status_id uuid REFERENCES status_types(id);
+  END IF;
+END $$;
+
+-- Add status_type_id and previous_status_type_id to status_history
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_history' AND column_name = 'status_type_id'
+  ) THEN
+    ALTER TABLE status_history ADD COLUMN status_type_id uuid REFERENCES status_types(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_history' AND column_name = 'previous_status_type_id'
+  ) THEN
+    ALTER TABLE status_history ADD COLUMN previous_status_type_id uuid REFERENCES status_types(id);
+  END IF;
+END $$;
+
+-- Status changes are already recorded in status_history, so neither the backfill nor
+-- later status changes are audited
+DROP TRIGGER IF EXISTS audit_machines ON machines;
+CREATE TRIGGER audit_machines
+  AFTER INSERT OR UPDATE OR DELETE ON machines
+  FOR EACH ROW
+  EXECUTE FUNCTION write_audit_log('current_status', 'current_status_id', 'last_updated_at', 'last_updated_by');
+
+-- Backfill the ids from the names
+UPDATE machines
+SET current_status_id = status_types.id
+FROM status_types
+WHERE status_types.name = machines.current_status
+AND machines.current_status_id IS NULL;
+
+UPDATE status_history
+SET status_type_id = status_types.id
+FROM status_types
+WHERE status_types.name = status_history.status
+AND status_history.status_type_id IS NULL;
+
+UPDATE status_history
+SET previous_status_type_id = status_types.id
+FROM status_types
+WHERE status_types.name = status_history.previous_status
+AND status_history.previous_status_type_id IS NULL;
+
+ALTER TABLE machines ALTER COLUMN current_status_id SET NOT NULL;
+ALTER TABLE status_history ALTER COLUMN status_type_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_machines_current_status_id ON machines(current_status_id);
+CREATE INDEX IF NOT EXISTS idx_status_history_status_type ON status_history(status_type_id);
+
+CREATE OR REPLACE FUNCTION status_type_id_by_name(p_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  SELECT id INTO v_id FROM status_types WHERE name = p_name;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown status: %', p_name
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_machine_status_type()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Writers that only know the name leave the id unset or unchanged
+  IF NEW.current_status_id IS NULL
+     OR (TG_OP = 'UPDATE'
+         AND NEW.current_status IS DISTINCT FROM OLD.current_status
+         AND NEW.current_status_id IS NOT DISTINCT FROM OLD.current_status_id) THEN
+    NEW.current_status_id := status_type_id_by_name(NEW.current_status);
+  END IF;
+
+  SELECT name INTO NEW.current_status FROM status_types WHERE id = NEW.current_status_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_status_history_status_types()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status_type_id IS NULL THEN
+    NEW.status_type_id := status_type_id_by_name(NEW.status);
+  END IF;
+
+  IF NEW.previous_status_type_id IS NULL AND NEW.previous_status IS NOT NULL THEN
+    NEW.previous_status_type_id := status_type_id_by_name(NEW.previous_status);
+  END IF;
+
+  SELECT name INTO NEW.status FROM status_types WHERE id = NEW.status_type_id;
+  NEW.previous_status := (SELECT name FROM status_types WHERE id = NEW.previous_status_type_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION propagate_status_type_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE machines SET current_status = NEW.name WHERE current_status_id = NEW.id;
+  UPDATE status_history SET status = NEW.name WHERE status_type_id = NEW.id;
+  UPDATE status_history SET previous_status = NEW.name WHERE previous_status_type_id = NEW.id;
+
+  UPDATE alert_rules SET status = NEW.name WHERE status = OLD.name;
+  UPDATE work_orders SET fault_status = NEW.name WHERE fault_status = OLD.name;
+  UPDATE work_orders SET return_status = NEW.name WHERE return_status = OLD.name;
+  UPDATE notification_channels
+  SET status_names = array_replace(status_names, OLD.name, NEW.name)
+  WHERE OLD.name = ANY(status_names);
+
+  RETURN NULL;
+END;
+$$;
+
+-- Triggers fire in name order; these run first so the other BEFORE triggers can rely on
+-- the names
+DROP TRIGGER IF EXISTS a_sync_machine_status_type ON machines;
+CREATE TRIGGER a_sync_machine_status_type
+  BEFORE INSERT OR UPDATE OF current_status, current_status_id ON machines
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_machine_status_type();
+
+DROP TRIGGER IF EXISTS a_sync_status_history_status_types ON status_history;
+CREATE TRIGGER a_sync_status_history_status_types
+  BEFORE INSERT OR UPDATE OF status, status_type_id, previous_status, previous_status_type_id
+  ON status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_status_history_status_types();
+
+DROP TRIGGER IF EXISTS propagate_status_type_rename ON status_types;
+CREATE TRIGGER propagate_status_type_rename
+  AFTER UPDATE OF name ON status_types
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION propagate_status_type_rename();
+
+-- Return the status type id with the segments
+DROP FUNCTION IF EXISTS machine_status_durations(uuid[], timestamptz, timestamptz);
+DROP FUNCTION IF EXISTS machine_status_segments(uuid[], timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION machine_status_segments(
+  p_machine_ids uuid[],
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE (
+  machine_id uuid,
+  status text,
+  status_type_id uuid,
+  reason_id uuid,
+  sub_reason_id uuid,
+  started_at timestamptz,
+  ended_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      m.id AS machine_id,
+      greatest(p_start, m.created_at) AS window_start,
+      least(p_end, now()) AS window_end
+    FROM machines m
+    WHERE m.id = ANY(p_machine_ids)
+  ),
+  changes AS (
+    SELECT
+      b.machine_id, b.window_start, b.window_end,
+      c.status, c.status_type_id, c.reason_id, c.sub_reason_id, c.changed_at
+    FROM bounds b
+    CROSS JOIN LATERAL (
+      -- The change in effect when the window starts
+      (
+        SELECT h.status, h.status_type_id, h.reason_id, h.sub_reason_id, h.changed_at
+        FROM status_history h
+        WHERE h.machine_id = b.machine_id
+        AND h.changed_at <= b.window_start
+        ORDER BY h.changed_at DESC
+        LIMIT 1
+      )
+      UNION ALL
+      -- Changes inside the window
+      (
+        SELECT h.status, h.status_type_id, h.reason_id, h.sub_reason_id, h.changed_at
+        FROM status_history h
+        WHERE h.machine_id = b.machine_id
+        AND h.changed_at > b.window_start
+        AND h.changed_at < b.window_end
+      )
+    ) c
+  ),
+  segments AS (
+    SELECT
+      c.machine_id,
+      c.status,
+      c.status_type_id,
+      c.reason_id,
+      c.sub_reason_id,
+      greatest(c.changed_at, c.window_start) AS started_at,
+      coalesce(
+        lead(c.changed_at) OVER (PARTITION BY c.machine_id ORDER BY c.changed_at),
+        c.window_end
+      ) AS ended_at
+    FROM changes c
+  )
+  SELECT s.machine_id, s.status, s.status_type_id, s.reason_id, s.sub_reason_id, s.started_at, s.ended_at
+  FROM segments s
+  WHERE s.ended_at > s.started_at
+  ORDER BY s.machine_id, s.started_at;
+$$;
+
+CREATE OR REPLACE FUNCTION machine_status_durations(
+  p_machine_ids uuid[],
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE (
+  machine_id uuid,
+  status text,
+  status_type_id uuid,
+  duration_seconds double precision,
+  segment_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.machine_id,
+    s.status,
+    s.status_type_id,
+    sum(extract(epoch FROM s.ended_at - s.started_at))::double precision,
+    count(*)
+  FROM machine_status_segments(p_machine_ids, p_start, p_end) s
+  GROUP BY s.machine_id, s.status, s.status_type_id
+  ORDER BY s.machine_id, s.status;
+$$;
+
+GRANT EXECUTE ON FUNCTION machine_status_segments(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION machine_status_durations(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+
+CREATE POLICY "Authenticated users can view all status types"
+  ON status_types FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,65 @@
+/*
+  # Translated Status Type and Department Names
+
+  ## Overview
+  Status types and departments had a single name, entered in one language, while the
+  interface can be switched between Turkish and English. Both now keep a name per
+  language next to their name; the interface shows the one for its current language.
+
+  ## Changes to Existing Tables
+
+  ### 1. `status_types` table
+  - Add `name_translations` (jsonb, default `{}`) - Name per language code, e.g.
+    `{"tr": "Çalışıyor", "en": "Running"}`
+
+  ### 2. `departments` table
+  - Add `name_translations` (jsonb, default `{}`) - Name per language code
+
+  ## Important Notes
+  1. `name` stays the identifier used by status changes, alert rules, notification
+     channels and machine data ingestion; translations are only for display
+  2. A language without a translation shows `name`
+  3. The default status types get their Turkish and English names
+*/
+
+-- Add name_translations to status_types
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_types' AND column_name = 'name_translations'
+  ) THEN
+    ALTER TABLE status_types ADD COLUMN name_translations jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+-- Add name_translations to departments
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'departments' AND column_name = 'name_translations'
+  ) THEN
+    ALTER TABLE departments ADD COLUMN name_translations jsonb NOT NULL DEFAULT '{}'::jsonb;
+  END IF;
+END $$;
+
+ALTER TABLE status_types DROP CONSTRAINT IF EXISTS status_types_name_translations_object;
+ALTER TABLE status_types ADD CONSTRAINT status_types_name_translations_object
+  CHECK (jsonb_typeof(name_translations) = 'object');
+
+ALTER TABLE departments DROP CONSTRAINT IF EXISTS departments_name_translations_object;
+ALTER TABLE departments ADD CONSTRAINT departments_name_translations_object
+  CHECK (jsonb_typeof(name_translations) = 'object');
+
+-- Translate the default status types
+UPDATE status_types
+SET name_translations = defaults.translations
+FROM (VALUES
+  ('Running', '{"tr": "Çalışıyor", "en": "Running"}'::jsonb),
+  ('Idle', '{"tr": "Boşta", "en": "Idle"}'::jsonb),
+  ('Fault', '{"tr": "Arıza", "en": "Fault"}'::jsonb),
+  ('Under Maintenance', '{"tr": "Bakımda", "en": "Under Maintenance"}'::jsonb)
+) AS defaults(name, translations)
+WHERE status_types.name = defaults.name
+AND status_types.name_translations = '{}'::jsonb;
@@ -0,0 +1,187 @@
+/*
+  # Stop the Clock of Archived Machines
+
+  ## Overview
+  Archived machines can no longer change status, but their last status kept accruing
+  time up to now in reports, OEE, timelines and running-hour maintenance plans, and alert
+  rules kept raising alerts for them once the frozen status passed a threshold. Archived
+  machines now stop at the moment they were archived.
+
+  ## Changed Functions
+
+  ### 1. `machine_status_segments`
+  The window of an archived machine ends at `archived_at`; `machine_status_durations`
+  follows since it sums these segments.
+
+  ### 2. `evaluate_alert_rules`
+  Raises no new alerts for archived machines. Their open alerts are already resolved
+  when they are archived.
+
+  ## Important Notes
+  1. A restored machine's time resumes from its last status, including the time it
+     spent archived
+*/
+
+CREATE OR REPLACE FUNCTION machine_status_segments(
+  p_machine_ids uuid[],
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE (
+  machine_id uuid,
+  status text,
+  status_type_id uuid,
+  reason_id uuid,
+  sub_reason_id uuid,
+  started_at timestamptz,
+  ended_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT
+      m.id AS machine_id,
+      greatest(p_start, m.created_at) AS window_start,
+      least(p_end, now(), coalesce(m.archived_at, 'infinity')) AS window_end
+    FROM machines m
+    WHERE m.id = ANY(p_machine_ids)
+  ),
+  changes AS (
+    SELECT
+      b.machine_id, b.window_start, b.window_end,
+      c.status, c.status_type_id, c.reason_id, c.sub_reason_id, c.changed_at
+    FROM bounds b
+    CROSS JOIN LATERAL (
+      -- The change in effect when the window starts
+      (
+        SELECT h.status, h.status_type_id, h.reason_id, h.sub_reason_id, h.changed_at
+        FROM status_history h
+        WHERE h.machine_id = b.machine_id
+        AND h.changed_at <= b.window_start
+        ORDER BY h.changed_at DESC
+        LIMIT 1
+      )
+      UNION ALL
+      -- Changes inside the window
+      (
+        SELECT h.status, h.status_type_id, h.reason_id, h.sub_reason_id, h.changed_at
+        FROM status_history h
+        WHERE h.machine_id = b.machine_id
+        AND h.changed_at > b.window_start
+        AND h.changed_at < b.window_end
+      )
+    ) c
+  ),
+  segments AS (
+    SELECT
+      c.machine_id,
+      c.status,
+      c.status_type_id,
+      c.reason_id,
+      c.sub_reason_id,
+      greatest(c.changed_at, c.window_start) AS started_at,
+      coalesce(
+        lead(c.changed_at) OVER (PARTITION BY c.machine_id ORDER BY c.changed_at),
+        c.window_end
+      ) AS ended_at
+    FROM changes c
+  )
+  SELECT s.machine_id, s.status, s.status_type_id, s.reason_id, s.sub_reason_id, s.started_at, s.ended_at
+  FROM segments s
+  WHERE s.ended_at > s.started_at
+  ORDER BY s.machine_id, s.started_at;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_alert_rules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created integer := 0;
+  v_count integer;
+BEGIN
+  -- Duration alerts end with the status period they were raised for
+  UPDATE alerts a
+  SET resolved_at = now()
+  FROM alert_rules r, machines m
+  WHERE a.rule_id = r.id
+  AND m.id = a.machine_id
+  AND a.resolved_at IS NULL
+  AND r.rule_type IN ('status_duration', 'status_unchanged')
+  AND m.last_updated_at IS DISTINCT FROM a.window_start;
+
+  -- Count alerts end with their shift
+  UPDATE alerts a
+  SET resolved_at = now()
+  FROM alert_rules r, machines m
+  WHERE a.rule_id = r.id
+  AND m.id = a.machine_id
+  AND a.resolved_at IS NULL
+  AND r.rule_type = 'fault_count'
+  AND a.window_start < current_shift_start(m.department_id);
+
+  -- Archived machines cannot change status, so their frozen status is not alerted on
+  INSERT INTO alerts (rule_id, machine_id, window_start, observed_value)
+  SELECT r.id, m.id, m.last_updated_at, floor(extract(epoch FROM now() - m.last_updated_at) / 60)::integer
+  FROM alert_rules r
+  JOIN machines m
+    ON (r.machine_id IS NULL OR r.machine_id = m.id)
+    AND (r.department_id IS NULL OR r.department_id = m.department_id)
+  WHERE r.is_active = true
+  AND m.archived_at IS NULL
+  AND r.rule_type IN ('status_duration', 'status_unchanged')
+  AND (r.rule_type = 'status_unchanged' OR m.current_status = r.status)
+  AND m.last_updated_at <= now() - make_interval(mins => r.threshold_minutes)
+  ON CONFLICT (rule_id, machine_id, window_start) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  INSERT INTO alerts (rule_id, machine_id, window_start, observed_value)
+  SELECT r.id, m.id, w.shift_start, c.faults
+  FROM alert_rules r
+  JOIN machines m
+    ON (r.machine_id IS NULL OR r.machine_id = m.id)
+    AND (r.department_id IS NULL OR r.department_id = m.department_id)
+  CROSS JOIN LATERAL (SELECT current_shift_start(m.department_id) AS shift_start) w
+  CROSS JOIN LATERAL (
+    SELECT count(*)::integer AS faults
+    FROM status_history h
+    WHERE h.machine_id = m.id
+    AND h.status = r.status
+    AND h.previous_status IS DISTINCT FROM r.status
+    AND h.changed_at >= w.shift_start
+  ) c
+  WHERE r.is_active = true
+  AND m.archived_at IS NULL
+  AND r.rule_type = 'fault_count'
+  AND c.faults > r.threshold_count
+  ON CONFLICT (rule_id, machine_id, window_start) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  -- Escalate to the department leaders when nobody acknowledged in time, or right away
+  -- when the machine has no operators to see the alert
+  UPDATE alerts a
+  SET escalated_at = now()
+  FROM alert_rules r
+  WHERE a.rule_id = r.id
+  AND a.resolved_at IS NULL
+  AND a.acknowledged_at IS NULL
+  AND a.escalated_at IS NULL
+  AND (
+    NOT EXISTS (SELECT 1 FROM machine_operators mo WHERE mo.machine_id = a.machine_id)
+    OR (
+      r.escalate_after_minutes IS NOT NULL
+      AND a.triggered_at <= now() - make_interval(mins => r.escalate_after_minutes)
+    )
+  );
+
+  RETURN v_created;
+END;
+$$;
@@ -0,0 +1,24 @@
+/*
+  # Require HTTPS Webhooks
+
+  ## Overview
+  Any signed-in user can set up a webhook channel, and the `deliver-notifications` edge
+  function posts to it with the service role and logs the response. Webhook targets are
+  now limited to HTTPS URLs; the edge function also refuses hosts that resolve to
+  loopback, private or link-local addresses and does not follow redirects.
+
+  ## Changes to Existing Tables
+
+  ### 1. `notification_channels` table
+  - Add CHECK `notification_channels_webhook_https` - Webhook targets start with `https://`
+
+  ## Important Notes
+  1. The constraint is not validated against existing rows: channels with an `http://`
+     webhook keep their row but fail to deliver, and must be changed to `https://`
+     before they can be edited
+*/
+
+ALTER TABLE notification_channels DROP CONSTRAINT IF EXISTS notification_channels_webhook_https;
+ALTER TABLE notification_channels ADD CONSTRAINT notification_channels_webhook_https
+  CHECK (channel_type <> 'webhook' OR target ~* '^https://')
+  NOT VALID;
@@ -0,0 +1,161 @@
+/*
+  # Change Machine Status by Status Type ID
+
+  ## Overview
+  `change_machine_status` took the new status by name, so a status change queued offline
+  failed as an unknown status when the status type was renamed before it was sent. It
+  now takes the status type id; the name stays accepted for changes queued before
+  clients sent the id.
+
+  ## Changed Functions
+
+  ### 1. `change_machine_status`
+  - Add `p_status_type_id` (uuid) - Status type to change to; takes precedence over
+    `p_new_status`
+  - `p_new_status` is optional and only resolved through `status_type_id_by_name` when
+    no id is given
+  - Comment-only updates are detected by status type id
+
+  ## Important Notes
+  1. The old signature is dropped; PostgREST callers passing only the named arguments
+     keep working
+*/
+
+DROP FUNCTION IF EXISTS change_machine_status(uuid, text, text, timestamptz, timestamptz, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION change_machine_status(
+  p_machine_id uuid,
+  p_new_status text DEFAULT NULL,
+  p_comment text DEFAULT '',
+  p_changed_at timestamptz DEFAULT NULL,
+  p_expected_updated_at timestamptz DEFAULT NULL,
+  p_reason_id uuid DEFAULT NULL,
+  p_sub_reason_id uuid DEFAULT NULL,
+  p_status_type_id uuid DEFAULT NULL
+)
+RETURNS status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_previous_status text;
+  v_previous_status_id uuid;
+  v_last_updated_at timestamptz;
+  v_changed_at timestamptz := least(coalesce(p_changed_at, now()), now());
+  v_comment text := coalesce(trim(p_comment), '');
+  v_status_type status_types;
+  v_entry status_history;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to update machine status'
+      USING ERRCODE = '28000';
+  END IF;
+
+  SELECT current_status, current_status_id, last_updated_at
+  INTO v_previous_status, v_previous_status_id, v_last_updated_at
+  FROM machines
+  WHERE id = p_machine_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Machine % not found', p_machine_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT user_can_update_machine(p_machine_id) THEN
+    RAISE EXCEPTION 'You are not allowed to update this machine'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_expected_updated_at IS NOT NULL
+     AND v_last_updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'Machine was changed to "%" in the meantime', v_previous_status
+      USING ERRCODE = 'PT409', DETAIL = v_previous_status;
+  END IF;
+
+  IF v_last_updated_at IS NOT NULL AND v_changed_at < v_last_updated_at THEN
+    RAISE EXCEPTION 'A newer status change already exists for this machine'
+      USING ERRCODE = 'PT409', DETAIL = v_previous_status;
+  END IF;
+
+  -- Changes queued before clients sent the id only carry the name
+  SELECT * INTO v_status_type
+  FROM status_types
+  WHERE id = coalesce(p_status_type_id, status_type_id_by_name(p_new_status))
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown or inactive status: %', coalesce(p_status_type_id::text, p_new_status)
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_status_type.id = v_previous_status_id AND v_comment = '' THEN
+    RAISE EXCEPTION 'Please either change the status or add a comment'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_reason_id IS NULL THEN
+    IF v_status_type.requires_reason AND v_status_type.id IS DISTINCT FROM v_previous_status_id THEN
+      RAISE EXCEPTION 'A reason is required for status "%"', v_status_type.name
+        USING ERRCODE = '22023';
+    END IF;
+    IF p_sub_reason_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A sub-reason needs a reason'
+        USING ERRCODE = '22023';
+    END IF;
+  ELSE
+    IF NOT EXISTS (
+      SELECT 1 FROM status_reasons
+      WHERE id = p_reason_id
+      AND status_type_id = v_status_type.id
+      AND parent_id IS NULL
+      AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'Invalid reason for status "%"', v_status_type.name
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF p_sub_reason_id IS NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM status_reasons
+        WHERE parent_id = p_reason_id AND is_active = true
+      ) THEN
+        RAISE EXCEPTION 'A sub-reason is required for this reason'
+          USING ERRCODE = '22023';
+      END IF;
+    ELSIF NOT EXISTS (
+      SELECT 1 FROM status_reasons
+      WHERE id = p_sub_reason_id
+      AND parent_id = p_reason_id
+      AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'Invalid sub-reason for this reason'
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  UPDATE machines
+  SET current_status_id = v_status_type.id,
+      current_status = v_status_type.name,
+      last_updated_at = v_changed_at,
+      last_updated_by = v_user_id
+  WHERE id = p_machine_id;
+
+  INSERT INTO status_history (
+    machine_id, status_type_id, status, previous_status_type_id, previous_status,
+    comment, changed_by, changed_at, reason_id, sub_reason_id
+  )
+  VALUES (
+    p_machine_id, v_status_type.id, v_status_type.name, v_previous_status_id, v_previous_status,
+    v_comment, v_user_id, v_changed_at, p_reason_id, p_sub_reason_id
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION change_machine_status(uuid, text, text, timestamptz, timestamptz, uuid, uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION change_machine_status(uuid, text, text, timestamptz, timestamptz, uuid, uuid, uuid) TO authenticated;
@@ -0,0 +1,76 @@
+/*
+  # Isolate Machine Signal Flushes
+
+  ## Overview
+  Every `ingest_machine_data` call first flushes the pending statuses of all machines.
+  When one pending status could not be applied (its status type was deactivated, or the
+  machine was archived) the flush raised, the pending row stayed, and from then on every
+  gateway's ingestion and the pg_cron flush failed. A pending status that cannot be
+  applied is now dropped instead, and one machine's failure no longer affects the others.
+
+  ## Changed Functions
+
+  ### 1. `flush_machine_signals`
+  - Drops pending statuses of archived machines and of unknown or inactive status types
+  - Applies each machine in its own subtransaction; when applying fails, the pending
+    status is dropped and a warning is logged
+
+  ## Important Notes
+  1. A dropped pending status is picked up again from the next signal the gateway sends
+*/
+
+CREATE OR REPLACE FUNCTION flush_machine_signals()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_state record;
+  v_applied integer := 0;
+BEGIN
+  UPDATE machine_signal_states s
+  SET pending_status = NULL, pending_since = NULL
+  FROM machines m
+  WHERE m.id = s.machine_id
+  AND s.pending_status IS NOT NULL
+  AND (
+    m.archived_at IS NOT NULL
+    OR NOT EXISTS (
+      SELECT 1 FROM status_types st
+      WHERE st.name = s.pending_status AND st.is_active = true
+    )
+  );
+
+  FOR v_state IN
+    SELECT s.machine_id, s.pending_status, s.pending_since, m.current_status
+    FROM machine_signal_states s
+    JOIN machines m ON m.id = s.machine_id
+    WHERE s.pending_status IS NOT NULL
+    AND m.archived_at IS NULL
+    AND s.pending_since + make_interval(secs => m.signal_debounce_seconds) <= now()
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    IF v_state.pending_status IS DISTINCT FROM v_state.current_status THEN
+      BEGIN
+        PERFORM apply_machine_signal_status(v_state.machine_id, v_state.pending_status, v_state.pending_since);
+        v_applied := v_applied + 1;
+      EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Dropped pending status "%" of machine %: %',
+          v_state.pending_status, v_state.machine_id, SQLERRM;
+        UPDATE machine_signal_states
+        SET pending_status = NULL, pending_since = NULL
+        WHERE machine_id = v_state.machine_id;
+      END;
+    ELSE
+      UPDATE machine_signal_states
+      SET pending_status = NULL, pending_since = NULL
+      WHERE machine_id = v_state.machine_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION flush_machine_signals() FROM PUBLIC;
@@ -0,0 +1,51 @@
+/*
+  # Revoke the API Keys of Archived Machines
+
+  ## Overview
+  Archiving a machine left its gateway API keys and any pending signal status in place.
+  Its gateway could keep posting, and the pending status, which can no longer be applied,
+  was picked up by every signal flush. Archiving now revokes the machine's keys and
+  clears its pending signal status.
+
+  ## Changed Functions
+
+  ### 1. `retire_archived_machine`
+  - Revokes the machine's API keys
+  - Clears the pending status in `machine_signal_states`
+
+  ## Important Notes
+  1. Machines archived before this migration are cleaned up the same way
+  2. Restoring a machine does not reinstate its keys; a new key has to be created
+*/
+
+CREATE OR REPLACE FUNCTION retire_archived_machine()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE pm_plans SET is_active = false WHERE machine_id = NEW.id AND is_active = true;
+  UPDATE alerts SET resolved_at = now() WHERE machine_id = NEW.id AND resolved_at IS NULL;
+  UPDATE machine_api_keys SET revoked_at = now() WHERE machine_id = NEW.id AND revoked_at IS NULL;
+  UPDATE machine_signal_states
+  SET pending_status = NULL, pending_since = NULL
+  WHERE machine_id = NEW.id AND pending_status IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE machine_api_keys k
+SET revoked_at = m.archived_at
+FROM machines m
+WHERE m.id = k.machine_id
+AND m.archived_at IS NOT NULL
+AND k.revoked_at IS NULL;
+
+UPDATE machine_signal_states s
+SET pending_status = NULL, pending_since = NULL
+FROM machines m
+WHERE m.id = s.machine_id
+AND m.archived_at IS NOT NULL
+AND s.pending_status IS NOT NULL;
@@ -0,0 +1,126 @@
+/*
+  # Initial Status of New Machines
+
+  ## Overview
+  New machines were inserted with the hard-coded status name 'Beklemede'. No status type
+  has that name on a fresh database, so creating or importing a machine failed as an
+  unknown status; on older databases it only exists as an inactive type that cannot be
+  selected. The status new machines start in is now a setting of the status types, and
+  is filled in by the database when a machine is inserted without a status.
+
+  ## Changes to Existing Tables
+
+  ### 1. `status_types` table
+  - Add `is_initial` (boolean) - New machines start in this status; at most one type has
+    it. Set on Idle, or on the first active type when there is no active Idle.
+
+  ### 2. `machines` table
+  - `current_status` no longer defaults to 'Idle'
+
+  ## New Functions
+  - `initial_status_type_id()` - The active initial status type, or the first active type
+    by display order when none is marked
+
+  ## Changed Functions
+
+  ### 1. `sync_machine_status_type`
+  Machines inserted without `current_status` or `current_status_id` get the initial
+  status.
+
+  ## New Triggers
+  - `status_types` BEFORE INSERT OR UPDATE OF is_initial unmarks the previous initial
+    status type when another one is marked
+*/
+
+-- Add is_initial to status_types
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'status_types' AND column_name = 'is_initial'
+  ) THEN
+    ALTER TABLE status_types ADD COLUMN is_initial boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_status_types_initial
+  ON status_types(is_initial) WHERE is_initial;
+
+UPDATE status_types
+SET is_initial = true
+WHERE id = (
+  SELECT id FROM status_types
+  WHERE is_active = true
+  ORDER BY (name = 'Idle') DESC, display_order
+  LIMIT 1
+)
+AND NOT EXISTS (SELECT 1 FROM status_types WHERE is_initial);
+
+ALTER TABLE machines ALTER COLUMN current_status DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION initial_status_type_id()
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  SELECT id INTO v_id
+  FROM status_types
+  WHERE is_active = true
+  ORDER BY is_initial DESC, display_order
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no active status type for new machines'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_machine_status_type()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.current_status_id IS NULL AND NEW.current_status IS NULL THEN
+    NEW.current_status_id := initial_status_type_id();
+  END IF;
+
+  -- Writers that only know the name leave the id unset or unchanged
+  IF NEW.current_status_id IS NULL
+     OR (TG_OP = 'UPDATE'
+         AND NEW.current_status IS DISTINCT FROM OLD.current_status
+         AND NEW.current_status_id IS NOT DISTINCT FROM OLD.current_status_id) THEN
+    NEW.current_status_id := status_type_id_by_name(NEW.current_status);
+  END IF;
+
+  SELECT name INTO NEW.current_status FROM status_types WHERE id = NEW.current_status_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION keep_single_initial_status_type()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE status_types SET is_initial = false WHERE is_initial AND id <> NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_single_initial_status_type ON status_types;
+CREATE TRIGGER keep_single_initial_status_type
+  BEFORE INSERT OR UPDATE OF is_initial ON status_types
+  FOR EACH ROW
+  WHEN (NEW.is_initial)
+  EXECUTE FUNCTION keep_single_initial_status_type();
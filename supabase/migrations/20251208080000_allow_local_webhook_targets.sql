@@ -0,0 +1,20 @@
+/*
+  # Allow Local Webhook Targets
+
+  ## Overview
+  The `notification_channels_webhook_https` CHECK kept webhook channels from pointing at
+  a local `http://` request bin, so notification delivery could not be tried locally.
+  The `deliver-notifications` edge function already refuses non-HTTPS and private hosts
+  unless `WEBHOOK_ALLOW_PRIVATE_HOSTS` is set, so the constraint is dropped.
+
+  ## Changes to Existing Tables
+
+  ### 1. `notification_channels` table
+  - Drop CHECK `notification_channels_webhook_https`
+
+  ## Important Notes
+  1. In production, a channel with an `http://` webhook can be saved but its deliveries
+     fail with "Webhook URL must use https", visible in the delivery log
+*/
+
+ALTER TABLE notification_channels DROP CONSTRAINT IF EXISTS notification_channels_webhook_https;
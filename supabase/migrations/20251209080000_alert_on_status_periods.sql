@@ -0,0 +1,151 @@
+/*
+  # Alert on Status Periods, Not Updates
+
+  ## Overview
+  'status_duration' and 'status_unchanged' alerts measured from `machines.last_updated_at`,
+  which a comment-only update also moves. Adding a note to a machine in Fault restarted
+  the "in Fault for N minutes" clock and resolved the open alert. These alerts now measure
+  from the last change that actually changed the status.
+
+  ## New Functions
+  - `machine_status_since(p_machine_id)` - When the machine's current status began: the
+    latest status change to a different status, or `last_updated_at` without history
+
+  ## Changed Functions
+
+  ### 1. `evaluate_alert_rules`
+  Duration alerts use `machine_status_since` as their window start and are resolved when
+  it moves.
+
+  ## Important Notes
+  1. Open duration alerts raised in a status period that is still going on are moved to
+     the new window start, so they are not resolved and raised again. Where a comment
+     already resolved the period's first alert, the later one is resolved and not raised
+     again for that period.
+*/
+
+CREATE OR REPLACE FUNCTION machine_status_since(p_machine_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT max(h.changed_at)
+      FROM status_history h
+      WHERE h.machine_id = p_machine_id
+      AND h.status_type_id IS DISTINCT FROM h.previous_status_type_id
+    ),
+    (SELECT m.last_updated_at FROM machines m WHERE m.id = p_machine_id)
+  );
+$$;
+
+UPDATE alerts a
+SET window_start = machine_status_since(a.machine_id)
+FROM alert_rules r
+WHERE a.rule_id = r.id
+AND a.resolved_at IS NULL
+AND r.rule_type IN ('status_duration', 'status_unchanged')
+AND machine_status_since(a.machine_id) < a.window_start
+AND NOT EXISTS (
+  SELECT 1 FROM alerts earlier
+  WHERE earlier.rule_id = a.rule_id
+  AND earlier.machine_id = a.machine_id
+  AND earlier.window_start = machine_status_since(a.machine_id)
+);
+
+CREATE OR REPLACE FUNCTION evaluate_alert_rules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created integer := 0;
+  v_count integer;
+BEGIN
+  -- Duration alerts end with the status period they were raised for
+  UPDATE alerts a
+  SET resolved_at = now()
+  FROM alert_rules r
+  WHERE a.rule_id = r.id
+  AND a.resolved_at IS NULL
+  AND r.rule_type IN ('status_duration', 'status_unchanged')
+  AND machine_status_since(a.machine_id) IS DISTINCT FROM a.window_start;
+
+  -- Count alerts end with their shift
+  UPDATE alerts a
+  SET resolved_at = now()
+  FROM alert_rules r, machines m
+  WHERE a.rule_id = r.id
+  AND m.id = a.machine_id
+  AND a.resolved_at IS NULL
+  AND r.rule_type = 'fault_count'
+  AND a.window_start < current_shift_start(m.department_id);
+
+  -- Archived machines cannot change status, so their frozen status is not alerted on
+  INSERT INTO alerts (rule_id, machine_id, window_start, observed_value)
+  SELECT r.id, m.id, s.since, floor(extract(epoch FROM now() - s.since) / 60)::integer
+  FROM alert_rules r
+  JOIN machines m
+    ON (r.machine_id IS NULL OR r.machine_id = m.id)
+    AND (r.department_id IS NULL OR r.department_id = m.department_id)
+  CROSS JOIN LATERAL (SELECT machine_status_since(m.id) AS since) s
+  WHERE r.is_active = true
+  AND m.archived_at IS NULL
+  AND r.rule_type IN ('status_duration', 'status_unchanged')
+  AND (r.rule_type = 'status_unchanged' OR m.current_status = r.status)
+  AND s.since <= now() - make_interval(mins => r.threshold_minutes)
+  ON CONFLICT (rule_id, machine_id, window_start) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  INSERT INTO alerts (rule_id, machine_id, window_start, observed_value)
+  SELECT r.id, m.id, w.shift_start, c.faults
+  FROM alert_rules r
+  JOIN machines m
+    ON (r.machine_id IS NULL OR r.machine_id = m.id)
+    AND (r.department_id IS NULL OR r.department_id = m.department_id)
+  CROSS JOIN LATERAL (SELECT current_shift_start(m.department_id) AS shift_start) w
+  CROSS JOIN LATERAL (
+    SELECT count(*)::integer AS faults
+    FROM status_history h
+    WHERE h.machine_id = m.id
+    AND h.status = r.status
+    AND h.previous_status IS DISTINCT FROM r.status
+    AND h.changed_at >= w.shift_start
+  ) c
+  WHERE r.is_active = true
+  AND m.archived_at IS NULL
+  AND r.rule_type = 'fault_count'
+  AND c.faults > r.threshold_count
+  ON CONFLICT (rule_id, machine_id, window_start) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  -- Escalate to the department leaders when nobody acknowledged in time, or right away
+  -- when the machine has no operators to see the alert
+  UPDATE alerts a
+  SET escalated_at = now()
+  FROM alert_rules r
+  WHERE a.rule_id = r.id
+  AND a.resolved_at IS NULL
+  AND a.acknowledged_at IS NULL
+  AND a.escalated_at IS NULL
+  AND (
+    NOT EXISTS (SELECT 1 FROM machine_operators mo WHERE mo.machine_id = a.machine_id)
+    OR (
+      r.escalate_after_minutes IS NOT NULL
+      AND a.triggered_at <= now() - make_interval(mins => r.escalate_after_minutes)
+    )
+  );
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION machine_status_since(uuid) FROM PUBLIC;
@@ -0,0 +1,27 @@
+/*
+  # Existing Machine Codes
+
+  ## Overview
+  Team leaders only see the machines of their own departments, so the machine import
+  took a code used in another department for a new machine and the insert failed with a
+  raw unique violation. The import now looks the codes up across all departments first.
+
+  ## New Functions
+  - `existing_machine_codes(p_codes)` - The stored codes of all machines, archived ones
+    included, whose code matches one of `p_codes` ignoring case
+*/
+
+CREATE OR REPLACE FUNCTION existing_machine_codes(p_codes text[])
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.machine_code
+  FROM machines m
+  WHERE lower(m.machine_code) IN (SELECT lower(c) FROM unnest(p_codes) c);
+$$;
+
+REVOKE ALL ON FUNCTION existing_machine_codes(text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION existing_machine_codes(text[]) TO authenticated;